@@ -4,11 +4,22 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/hooks/useAuth";
+import { RequireRole } from "@/components/RequireRole";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
+import ResetPassword from "./pages/ResetPassword";
 import PostDetail from "./pages/PostDetail";
 import AuthorProfile from "./pages/AuthorProfile";
+import Category from "./pages/Category";
 import CreateStory from "./pages/CreateStory";
+import ReadingList from "./pages/ReadingList";
+import Search from "./pages/Search";
+import ProfileSettings from "./pages/ProfileSettings";
+import AccountSettings from "./pages/AccountSettings";
+import SeriesDetail from "./pages/SeriesDetail";
+import Dashboard from "./pages/Dashboard";
+import Moderation from "./pages/Moderation";
+import FeaturedStories from "./pages/FeaturedStories";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -23,9 +34,35 @@ const App = () => (
           <Routes>
             <Route path="/" element={<Index />} />
             <Route path="/auth" element={<Auth />} />
-            <Route path="/post/:id" element={<PostDetail />} />
+            <Route path="/reset-password" element={<ResetPassword />} />
+            <Route path="/post/:slugId" element={<PostDetail />} />
             <Route path="/author/:userId" element={<AuthorProfile />} />
             <Route path="/create" element={<CreateStory />} />
+            <Route path="/reading-list" element={<ReadingList />} />
+            <Route path="/search" element={<Search />} />
+            <Route path="/genre/:slug" element={<Category kind="genre" />} />
+            <Route path="/tag/:slug" element={<Category kind="tag" />} />
+            <Route path="/series/:id" element={<SeriesDetail />} />
+            <Route path="/settings/profile" element={<ProfileSettings />} />
+            <Route path="/settings/account" element={<AccountSettings />} />
+            <Route path="/dashboard" element={<Dashboard />} />
+            <Route
+              path="/admin/moderation"
+              element={
+                <RequireRole role="admin">
+                  <Moderation />
+                </RequireRole>
+              }
+            />
+            <Route
+              path="/editor/featured"
+              element={
+                <RequireRole role="editor">
+                  <FeaturedStories />
+                </RequireRole>
+              }
+            />
+            <Route path="/:handle" element={<AuthorProfile />} />
             <Route path="*" element={<NotFound />} />
           </Routes>
         </BrowserRouter>
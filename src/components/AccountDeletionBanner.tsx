@@ -0,0 +1,37 @@
+import { Button } from "@/components/ui/button";
+import { useAccountDeletion } from "@/hooks/useAccount";
+import { useToast } from "@/hooks/use-toast";
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString("en-IN", { day: "numeric", month: "long", year: "numeric" });
+
+// Shown on every page while the signed-in user's account is waiting to be
+// deleted, since signing back in doesn't cancel it by itself
+export function AccountDeletionBanner() {
+  const { purgeAfter, cancelDeletion } = useAccountDeletion();
+  const { toast } = useToast();
+
+  if (!purgeAfter) return null;
+
+  const handleCancelDeletion = async () => {
+    const { error } = await cancelDeletion();
+    toast(
+      error
+        ? { title: "Couldn't cancel deletion", description: error.message, variant: "destructive" }
+        : { title: "Deletion cancelled", description: "Your account is staying" }
+    );
+  };
+
+  return (
+    <div className="border-t border-destructive/50 bg-destructive/5">
+      <div className="container flex flex-wrap items-center justify-between gap-2 py-2">
+        <p className="text-sm text-foreground">
+          Your account will be deleted on {formatDate(purgeAfter)}.
+        </p>
+        <Button variant="outline" size="sm" onClick={handleCancelDeletion}>
+          Keep my account
+        </Button>
+      </div>
+    </div>
+  );
+}
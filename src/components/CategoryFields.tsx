@@ -0,0 +1,101 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { MAX_TAG_LENGTH, MAX_TAGS, useGenres } from "@/hooks/useCategories";
+import { X } from "lucide-react";
+
+const NO_GENRE = "none";
+
+interface CategoryFieldsProps {
+  idPrefix: string;
+  genreId: string | null;
+  onGenreChange: (genreId: string | null) => void;
+  tags: string[];
+  onTagsChange: (tags: string[]) => void;
+}
+
+// Genre picker and free-form tag input shared by the story editors
+export function CategoryFields({ idPrefix, genreId, onGenreChange, tags, onTagsChange }: CategoryFieldsProps) {
+  const { genres } = useGenres();
+  const [tagInput, setTagInput] = useState("");
+
+  const addTag = (value: string) => {
+    const tag = value.trim().replace(/^#+/, "").slice(0, MAX_TAG_LENGTH);
+    setTagInput("");
+
+    if (!tag || tags.length >= MAX_TAGS) return;
+    if (tags.some((existing) => existing.toLowerCase() === tag.toLowerCase())) return;
+
+    onTagsChange([...tags, tag]);
+  };
+
+  const handleTagKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter" || e.key === ",") {
+      e.preventDefault();
+      addTag(tagInput);
+    } else if (e.key === "Backspace" && !tagInput && tags.length > 0) {
+      onTagsChange(tags.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="grid gap-4 sm:grid-cols-[12rem_1fr]">
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-genre`}>Genre</Label>
+        <Select
+          value={genreId ?? NO_GENRE}
+          onValueChange={(value) => onGenreChange(value === NO_GENRE ? null : value)}
+        >
+          <SelectTrigger id={`${idPrefix}-genre`}>
+            <SelectValue placeholder="Pick a genre" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_GENRE}>No genre</SelectItem>
+            {genres.map((genre) => (
+              <SelectItem key={genre.id} value={genre.id}>
+                {genre.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-tags`}>Tags</Label>
+        <div className="flex min-h-10 flex-wrap items-center gap-1.5 rounded-md border border-input bg-background px-2 py-1.5">
+          {tags.map((tag) => (
+            <Badge key={tag} variant="secondary" className="gap-1 font-normal">
+              #{tag}
+              <button
+                type="button"
+                onClick={() => onTagsChange(tags.filter((existing) => existing !== tag))}
+                className="rounded-full hover:text-destructive"
+              >
+                <X className="h-3 w-3" />
+                <span className="sr-only">Remove {tag}</span>
+              </button>
+            </Badge>
+          ))}
+          {tags.length < MAX_TAGS && (
+            <Input
+              id={`${idPrefix}-tags`}
+              type="text"
+              value={tagInput}
+              onChange={(e) => setTagInput(e.target.value)}
+              onKeyDown={handleTagKeyDown}
+              onBlur={() => tagInput && addTag(tagInput)}
+              placeholder={tags.length === 0 ? "e.g. monsoon, first love" : ""}
+              maxLength={MAX_TAG_LENGTH}
+              className="h-7 min-w-[8rem] flex-1 border-0 p-0 shadow-none focus-visible:ring-0 focus-visible:ring-offset-0"
+            />
+          )}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Press Enter or comma to add. Up to {MAX_TAGS} tags.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,415 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ReportDialog } from "@/components/ReportDialog";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import { useAuth } from "@/hooks/useAuth";
+import { Comment, useComments } from "@/hooks/useComments";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, MessageCircle } from "lucide-react";
+
+// Deeper replies keep the indentation of this level so threads stay readable on mobile
+const MAX_INDENT_DEPTH = 3;
+const MAX_COMMENT_LENGTH = 2000;
+
+interface CommentSectionProps {
+  postId: string;
+  postAuthorId: string;
+}
+
+interface CommentFormProps {
+  initialValue?: string;
+  placeholder?: string;
+  submitLabel: string;
+  onSubmit: (body: string) => Promise<{ error: Error | null }>;
+  onCancel?: () => void;
+  autoFocus?: boolean;
+}
+
+function CommentForm({
+  initialValue = "",
+  placeholder = "Share your thoughts...",
+  submitLabel,
+  onSubmit,
+  onCancel,
+  autoFocus,
+}: CommentFormProps) {
+  const { toast } = useToast();
+  const [body, setBody] = useState(initialValue);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!body.trim()) return;
+
+    setIsSubmitting(true);
+    const { error } = await onSubmit(body);
+    setIsSubmitting(false);
+
+    if (error) {
+      toast({
+        title: "Something went wrong",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setBody("");
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <Textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        placeholder={placeholder}
+        className="min-h-[80px] resize-y"
+        maxLength={MAX_COMMENT_LENGTH}
+        autoFocus={autoFocus}
+      />
+      <div className="flex items-center gap-2">
+        <Button type="submit" size="sm" disabled={isSubmitting || !body.trim()}>
+          {isSubmitting && <Loader2 className="h-4 w-4 animate-spin" />}
+          {submitLabel}
+        </Button>
+        {onCancel && (
+          <Button type="button" variant="ghost" size="sm" onClick={onCancel} disabled={isSubmitting}>
+            Cancel
+          </Button>
+        )}
+      </div>
+    </form>
+  );
+}
+
+interface CommentItemProps {
+  comment: Comment;
+  depth: number;
+  postAuthorId: string;
+  onReply: (body: string, parentId: string) => Promise<{ error: Error | null }>;
+  onUpdate: (commentId: string, body: string) => Promise<{ error: Error | null }>;
+  onDelete: (comment: Comment) => void;
+  onReport: (comment: Comment) => void;
+}
+
+function CommentItem({
+  comment,
+  depth,
+  postAuthorId,
+  onReply,
+  onUpdate,
+  onDelete,
+  onReport,
+}: CommentItemProps) {
+  const { user } = useAuth();
+  const [isReplying, setIsReplying] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+
+  const isOwnComment = user?.id === comment.user_id;
+  const canDelete = isOwnComment || user?.id === postAuthorId;
+  const isEdited = comment.updated_at !== comment.created_at;
+
+  const formattedDate = new Date(comment.created_at).toLocaleDateString("en-IN", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+  });
+
+  return (
+    <li>
+      <div className="flex gap-3">
+        <Link to={`/author/${comment.user_id}`} className="flex-shrink-0">
+          <Avatar className="h-8 w-8">
+            <AvatarImage src={comment.profile_pic_url} alt={comment.username} />
+            <AvatarFallback className="bg-primary text-primary-foreground text-xs">
+              {comment.username.charAt(0).toUpperCase()}
+            </AvatarFallback>
+          </Avatar>
+        </Link>
+        <div className="flex-1 min-w-0">
+          <div className="flex flex-wrap items-center gap-x-2 text-sm">
+            <Link
+              to={`/author/${comment.user_id}`}
+              className="font-medium text-foreground hover:text-primary transition-colors"
+            >
+              {comment.username}
+            </Link>
+            {comment.user_id === postAuthorId && (
+              <span className="text-xs font-medium text-primary">Author</span>
+            )}
+            <span className="text-muted-foreground">·</span>
+            <time className="text-muted-foreground">{formattedDate}</time>
+            {isEdited && <span className="text-muted-foreground">(edited)</span>}
+          </div>
+
+          {isEditing ? (
+            <div className="mt-2">
+              <CommentForm
+                initialValue={comment.body}
+                submitLabel="Save"
+                autoFocus
+                onSubmit={async (body) => {
+                  const result = await onUpdate(comment.id, body);
+                  if (!result.error) setIsEditing(false);
+                  return result;
+                }}
+                onCancel={() => setIsEditing(false)}
+              />
+            </div>
+          ) : (
+            <p className="mt-1 text-foreground whitespace-pre-wrap break-words">{comment.body}</p>
+          )}
+
+          {user && !isEditing && (
+            <div className="mt-1 flex gap-3 text-sm">
+              <button
+                type="button"
+                onClick={() => setIsReplying(!isReplying)}
+                className="text-muted-foreground hover:text-foreground"
+              >
+                Reply
+              </button>
+              {isOwnComment && (
+                <button
+                  type="button"
+                  onClick={() => setIsEditing(true)}
+                  className="text-muted-foreground hover:text-foreground"
+                >
+                  Edit
+                </button>
+              )}
+              {canDelete && (
+                <button
+                  type="button"
+                  onClick={() => onDelete(comment)}
+                  className="text-muted-foreground hover:text-destructive"
+                >
+                  Delete
+                </button>
+              )}
+              {!isOwnComment && (
+                <button
+                  type="button"
+                  onClick={() => onReport(comment)}
+                  className="text-muted-foreground hover:text-destructive"
+                >
+                  Report
+                </button>
+              )}
+            </div>
+          )}
+
+          {isReplying && (
+            <div className="mt-3">
+              <CommentForm
+                placeholder={`Reply to ${comment.username}...`}
+                submitLabel="Reply"
+                autoFocus
+                onSubmit={async (body) => {
+                  const result = await onReply(body, comment.id);
+                  if (!result.error) setIsReplying(false);
+                  return result;
+                }}
+                onCancel={() => setIsReplying(false)}
+              />
+            </div>
+          )}
+        </div>
+      </div>
+
+      {comment.replies.length > 0 && (
+        <ul
+          className={`mt-4 space-y-4 ${
+            depth < MAX_INDENT_DEPTH ? "ml-4 sm:ml-11 border-l border-border pl-4" : ""
+          }`}
+        >
+          {comment.replies.map((reply) => (
+            <CommentItem
+              key={reply.id}
+              comment={reply}
+              depth={depth + 1}
+              postAuthorId={postAuthorId}
+              onReply={onReply}
+              onUpdate={onUpdate}
+              onDelete={onDelete}
+              onReport={onReport}
+            />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+export function CommentSection({ postId, postAuthorId }: CommentSectionProps) {
+  const { user, profile } = useAuth();
+  const { toast } = useToast();
+  const {
+    threads,
+    totalCount,
+    loading,
+    error,
+    loadingMore,
+    hasMore,
+    loadMore,
+    addComment,
+    updateComment,
+    deleteComment,
+  } = useComments(postId);
+
+  const [deletingComment, setDeletingComment] = useState<Comment | null>(null);
+  const [reportingComment, setReportingComment] = useState<Comment | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const handleLoadMore = async () => {
+    const { error: loadError } = await loadMore();
+    if (loadError) {
+      toast({
+        title: "Couldn't load more responses",
+        description: loadError.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deletingComment) return;
+
+    setIsDeleting(true);
+    const { error } = await deleteComment(deletingComment.id);
+    setIsDeleting(false);
+
+    if (error) {
+      toast({
+        title: "Failed to delete",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setDeletingComment(null);
+  };
+
+  return (
+    <section className="container max-w-3xl py-8 border-t border-border">
+      <h3 className="flex items-center gap-2 font-serif text-xl font-bold text-foreground mb-6">
+        <MessageCircle className="h-5 w-5 text-primary" />
+        Responses {totalCount > 0 && `(${totalCount})`}
+      </h3>
+
+      {/* New comment */}
+      {user ? (
+        <div className="flex gap-3 mb-8">
+          <Avatar className="h-8 w-8">
+            <AvatarImage src={profile?.profile_pic_url} alt={profile?.username} />
+            <AvatarFallback className="bg-primary text-primary-foreground text-xs">
+              {profile?.username?.charAt(0).toUpperCase() || "U"}
+            </AvatarFallback>
+          </Avatar>
+          <div className="flex-1">
+            <CommentForm submitLabel="Respond" onSubmit={(body) => addComment(body)} />
+          </div>
+        </div>
+      ) : (
+        <p className="text-muted-foreground mb-8">
+          <Link to="/auth" className="text-primary font-medium hover:underline">
+            Sign in
+          </Link>{" "}
+          to join the conversation.
+        </p>
+      )}
+
+      {/* Threads */}
+      {loading ? (
+        <div className="space-y-4">
+          {[1, 2].map((i) => (
+            <div key={i} className="flex gap-3">
+              <Skeleton className="h-8 w-8 rounded-full" />
+              <div className="flex-1 space-y-2">
+                <Skeleton className="h-4 w-32" />
+                <Skeleton className="h-4 w-full" />
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : error ? (
+        <p className="text-muted-foreground">Responses couldn't be loaded. Try again in a moment.</p>
+      ) : threads.length === 0 ? (
+        <p className="text-muted-foreground">No responses yet.</p>
+      ) : (
+        <>
+          <ul className="space-y-6">
+            {threads.map((comment) => (
+              <CommentItem
+                key={comment.id}
+                comment={comment}
+                depth={0}
+                postAuthorId={postAuthorId}
+                onReply={(body, parentId) => addComment(body, parentId)}
+                onUpdate={updateComment}
+                onDelete={setDeletingComment}
+                onReport={setReportingComment}
+              />
+            ))}
+          </ul>
+
+          {hasMore && (
+            <div className="mt-6 text-center">
+              <Button variant="outline" onClick={handleLoadMore} disabled={loadingMore}>
+                {loadingMore && <Loader2 className="h-4 w-4 animate-spin" />}
+                Show more responses
+              </Button>
+            </div>
+          )}
+        </>
+      )}
+
+      {/* Delete confirmation */}
+      <AlertDialog open={!!deletingComment} onOpenChange={(open) => !open && setDeletingComment(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle className="font-serif">Delete response?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This response and all replies to it will be permanently removed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <Button variant="outline" onClick={() => setDeletingComment(null)} disabled={isDeleting}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDelete} disabled={isDeleting}>
+              {isDeleting ? (
+                <>
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Deleting...
+                </>
+              ) : (
+                "Delete"
+              )}
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {reportingComment && (
+        <ReportDialog
+          open={!!reportingComment}
+          onOpenChange={(open) => !open && setReportingComment(null)}
+          target={{ type: "comment", id: reportingComment.id }}
+        />
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,87 @@
+import { useState } from "react";
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2 } from "lucide-react";
+
+interface DeleteAccountDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  handle: string;
+  onConfirm: () => Promise<void>;
+}
+
+// Asks for the user's handle before scheduling their account for deletion
+export function DeleteAccountDialog({ open, onOpenChange, handle, onConfirm }: DeleteAccountDialogProps) {
+  const [confirmation, setConfirmation] = useState("");
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) setConfirmation("");
+    onOpenChange(nextOpen);
+  };
+
+  const handleDelete = async () => {
+    setIsDeleting(true);
+    await onConfirm();
+    setIsDeleting(false);
+  };
+
+  const confirmed = confirmation.trim().replace(/^@/, "").toLowerCase() === handle;
+
+  return (
+    <AlertDialog open={open} onOpenChange={handleOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle className="font-serif">Delete your account?</AlertDialogTitle>
+          <AlertDialogDescription>
+            Your account will be deleted in 14 days, along with your stories, comments and
+            uploaded images. You'll be signed out everywhere; to cancel, sign back in before
+            then and choose Keep my account.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="delete-confirmation">Type @{handle} to confirm</Label>
+          <Input
+            id="delete-confirmation"
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+            autoCapitalize="none"
+            autoCorrect="off"
+          />
+        </div>
+        <AlertDialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => handleOpenChange(false)}
+            disabled={isDeleting}
+          >
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={handleDelete}
+            disabled={!confirmed || isDeleting}
+          >
+            {isDeleting ? (
+              <>
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Deleting...
+              </>
+            ) : (
+              "Delete account"
+            )}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { z } from "zod";
 import {
   Dialog,
@@ -9,9 +9,15 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Textarea } from "@/components/ui/textarea";
+import { MarkdownEditor } from "@/components/MarkdownEditor";
+import { CategoryFields } from "@/components/CategoryFields";
+import { NEW_SERIES, SeriesField, SeriesSelection } from "@/components/SeriesField";
+import { fetchPostCategories } from "@/hooks/useCategories";
+import { useAuth } from "@/hooks/useAuth";
+import { createSeries } from "@/hooks/useSeries";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
+import { generatePreview } from "@/lib/markdown";
 import { Loader2 } from "lucide-react";
 
 const storySchema = z.object({
@@ -25,34 +31,74 @@ interface EditStoryDialogProps {
   story: {
     id: string;
     title: string;
-    content_full: string;
   };
   onSuccess: () => void;
 }
 
 export function EditStoryDialog({ open, onOpenChange, story, onSuccess }: EditStoryDialogProps) {
+  const { user } = useAuth();
   const { toast } = useToast();
   const [title, setTitle] = useState(story.title);
-  const [content, setContent] = useState(story.content_full);
+  const [content, setContent] = useState("");
+  const [genreId, setGenreId] = useState<string | null>(null);
+  const [tags, setTags] = useState<string[]>([]);
+  const [series, setSeries] = useState<SeriesSelection>({ seriesId: null, newSeriesTitle: "" });
+  const [isLoadingContent, setIsLoadingContent] = useState(true);
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
 
-  const generatePreview = (fullContent: string): string => {
-    const words = fullContent.split(/\s+/);
-    const previewWordCount = Math.max(30, Math.floor(words.length * 0.25));
-    return words.slice(0, previewWordCount).join(" ") + "...";
-  };
+  useEffect(() => {
+    const fetchContent = async () => {
+      setIsLoadingContent(true);
+
+      const [{ data, error }, categories, { data: postData }] = await Promise.all([
+        supabase
+          .from("post_contents")
+          .select("content_full")
+          .eq("post_id", story.id)
+          .maybeSingle(),
+        fetchPostCategories(story.id),
+        supabase.from("posts").select("series_id").eq("id", story.id).maybeSingle(),
+      ]);
+
+      setGenreId(categories.genreId);
+      setTags(categories.tagNames);
+      setSeries({ seriesId: postData?.series_id ?? null, newSeriesTitle: "" });
+
+      if (error || !data) {
+        toast({
+          title: "Failed to load story",
+          description: error?.message || "Story content could not be found",
+          variant: "destructive",
+        });
+      } else {
+        setContent(data.content_full);
+      }
+
+      setIsLoadingContent(false);
+    };
+
+    fetchContent();
+  }, [story.id, toast]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
+    const fieldErrors: Record<string, string> = {};
+
     const result = storySchema.safeParse({ title, content });
     if (!result.success) {
-      const fieldErrors: Record<string, string> = {};
       result.error.errors.forEach((err) => {
         const field = err.path[0] as string;
         fieldErrors[field] = err.message;
       });
+    }
+
+    if (series.seriesId === NEW_SERIES && !series.newSeriesTitle.trim()) {
+      fieldErrors.series = "Give your new series a title";
+    }
+
+    if (Object.keys(fieldErrors).length > 0) {
       setErrors(fieldErrors);
       return;
     }
@@ -61,17 +107,40 @@ export function EditStoryDialog({ open, onOpenChange, story, onSuccess }: EditSt
     setIsSubmitting(true);
 
     try {
+      let seriesId = series.seriesId;
+
+      if (seriesId === NEW_SERIES && user) {
+        seriesId = await createSeries(user.id, series.newSeriesTitle);
+        // Keep the new series selected so a retry doesn't create it twice
+        setSeries({ seriesId, newSeriesTitle: "" });
+      }
+
       const { error } = await supabase
         .from("posts")
         .update({
           title: title.trim(),
           content_preview: generatePreview(content.trim()),
-          content_full: content.trim(),
+          genre_id: genreId,
+          series_id: seriesId,
         })
         .eq("id", story.id);
 
       if (error) throw new Error(error.message);
 
+      const { error: contentError } = await supabase
+        .from("post_contents")
+        .update({ content_full: content.trim() })
+        .eq("post_id", story.id);
+
+      if (contentError) throw new Error(contentError.message);
+
+      const { error: tagsError } = await supabase.rpc("set_post_tags", {
+        target_post_id: story.id,
+        tag_names: tags,
+      });
+
+      if (tagsError) throw new Error(tagsError.message);
+
       toast({
         title: "Story updated!",
         description: "Your changes have been saved",
@@ -115,15 +184,19 @@ export function EditStoryDialog({ open, onOpenChange, story, onSuccess }: EditSt
 
           <div className="space-y-2">
             <Label htmlFor="edit-content">Your Story</Label>
-            <Textarea
-              id="edit-content"
-              value={content}
-              onChange={(e) => setContent(e.target.value)}
-              className={`min-h-[250px] resize-y story-content ${
-                errors.content ? "border-destructive" : ""
-              }`}
-              maxLength={10000}
-            />
+            {isLoadingContent ? (
+              <div className="flex min-h-[300px] items-center justify-center rounded-md border border-input">
+                <Loader2 className="h-6 w-6 animate-spin text-primary" />
+              </div>
+            ) : (
+              <MarkdownEditor
+                id="edit-content"
+                value={content}
+                onChange={setContent}
+                hasError={!!errors.content}
+                maxLength={10000}
+              />
+            )}
             <div className="flex justify-between text-sm text-muted-foreground">
               {errors.content ? (
                 <p className="text-destructive">{errors.content}</p>
@@ -134,6 +207,16 @@ export function EditStoryDialog({ open, onOpenChange, story, onSuccess }: EditSt
             </div>
           </div>
 
+          <CategoryFields
+            idPrefix="edit"
+            genreId={genreId}
+            onGenreChange={setGenreId}
+            tags={tags}
+            onTagsChange={setTags}
+          />
+
+          <SeriesField idPrefix="edit" value={series} onChange={setSeries} error={errors.series} />
+
           <div className="flex gap-3 pt-4">
             <Button
               type="button"
@@ -143,7 +226,7 @@ export function EditStoryDialog({ open, onOpenChange, story, onSuccess }: EditSt
             >
               Cancel
             </Button>
-            <Button type="submit" disabled={isSubmitting}>
+            <Button type="submit" disabled={isSubmitting || isLoadingContent}>
               {isSubmitting ? (
                 <>
                   <Loader2 className="h-4 w-4 animate-spin" />
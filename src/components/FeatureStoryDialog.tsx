@@ -0,0 +1,170 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { z } from "zod";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useEditorialActions, type FeaturedPost } from "@/hooks/useEditorial";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2 } from "lucide-react";
+
+const MAX_BLURB_LENGTH = 280;
+
+// An empty start means "now" and an empty end means "until removed"
+const featureSchema = z
+  .object({
+    blurb: z.string().max(MAX_BLURB_LENGTH, `Blurb must be less than ${MAX_BLURB_LENGTH} characters`),
+    startsAt: z.string(),
+    endsAt: z.string(),
+  })
+  .refine(
+    (data) =>
+      !data.endsAt ||
+      new Date(data.endsAt).getTime() > (data.startsAt ? new Date(data.startsAt).getTime() : Date.now()),
+    { message: "The end must be after the start", path: ["endsAt"] }
+  );
+
+const toDateTimeInputValue = (date: string | null) =>
+  date ? format(new Date(date), "yyyy-MM-dd'T'HH:mm") : "";
+
+interface FeatureStoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  postId: string;
+  storyTitle: string;
+  // The current pick when editing one
+  featured?: FeaturedPost;
+}
+
+export function FeatureStoryDialog({ open, onOpenChange, postId, storyTitle, featured }: FeatureStoryDialogProps) {
+  const { featurePost } = useEditorialActions();
+  const { toast } = useToast();
+  const [blurb, setBlurb] = useState(featured?.blurb ?? "");
+  const [startsAt, setStartsAt] = useState(toDateTimeInputValue(featured?.starts_at ?? null));
+  const [endsAt, setEndsAt] = useState(toDateTimeInputValue(featured?.ends_at ?? null));
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const result = featureSchema.safeParse({ blurb, startsAt, endsAt });
+    if (!result.success) {
+      const fieldErrors: Record<string, string> = {};
+      result.error.errors.forEach((err) => {
+        const field = err.path[0] as string;
+        fieldErrors[field] = err.message;
+      });
+      setErrors(fieldErrors);
+      return;
+    }
+
+    setErrors({});
+    setIsSubmitting(true);
+    const startsLater = !!startsAt && new Date(startsAt).getTime() > Date.now();
+
+    const { error } = await featurePost(postId, {
+      blurb: blurb.trim() || null,
+      startsAt: startsAt ? new Date(startsAt).toISOString() : new Date().toISOString(),
+      endsAt: endsAt ? new Date(endsAt).toISOString() : null,
+    });
+    setIsSubmitting(false);
+
+    if (error) {
+      toast({
+        title: "Failed to feature",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: featured ? "Feature updated" : "Story featured",
+      description: startsLater
+        ? "It will appear on the front page when its window starts"
+        : "It's now on the front page",
+    });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="font-serif text-xl">
+            {featured ? "Edit Feature" : "Feature Story"}
+          </DialogTitle>
+          <DialogDescription>"{storyTitle}" will appear in the front page carousel.</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4 mt-2">
+          <div className="space-y-2">
+            <Label htmlFor="feature-blurb">Blurb (optional)</Label>
+            <Textarea
+              id="feature-blurb"
+              value={blurb}
+              onChange={(e) => setBlurb(e.target.value)}
+              className={errors.blurb ? "border-destructive" : ""}
+              placeholder="Why readers should pick this one up. The story's opening is shown if left empty."
+              maxLength={MAX_BLURB_LENGTH}
+              rows={3}
+            />
+            {errors.blurb && <p className="text-sm text-destructive">{errors.blurb}</p>}
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="feature-starts-at">From</Label>
+              <Input
+                id="feature-starts-at"
+                type="datetime-local"
+                value={startsAt}
+                onChange={(e) => setStartsAt(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">Leave empty to start now</p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="feature-ends-at">Until</Label>
+              <Input
+                id="feature-ends-at"
+                type="datetime-local"
+                value={endsAt}
+                onChange={(e) => setEndsAt(e.target.value)}
+                className={errors.endsAt ? "border-destructive" : ""}
+              />
+              {errors.endsAt ? (
+                <p className="text-sm text-destructive">{errors.endsAt}</p>
+              ) : (
+                <p className="text-xs text-muted-foreground">Leave empty to keep it until removed</p>
+              )}
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2 pt-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isSubmitting}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" variant="cta" disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="h-4 w-4 animate-spin" />}
+              {featured ? "Save" : "Feature"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,85 @@
+import { Link } from "react-router-dom";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+} from "@/components/ui/carousel";
+import { isFeatureLive, useFeaturedPosts } from "@/hooks/useEditorial";
+import { postPath } from "@/lib/slugs";
+import { Star } from "lucide-react";
+
+interface FeaturedCarouselProps {
+  isAuthenticated: boolean;
+}
+
+// Editor's picks at the top of the front page. Renders nothing while loading
+// or when no pick is inside its time window, so the feed moves up in its place.
+export function FeaturedCarousel({ isAuthenticated }: FeaturedCarouselProps) {
+  const { featuredPosts } = useFeaturedPosts();
+  const livePosts = featuredPosts.filter((featured) => isFeatureLive(featured));
+
+  if (livePosts.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className="mb-10" aria-label="Editor's picks">
+      <h2 className="flex items-center gap-2 font-serif text-lg font-bold text-foreground mb-3">
+        <Star className="h-5 w-5 text-primary" />
+        Editor's Picks
+      </h2>
+      <Carousel opts={{ loop: livePosts.length > 1 }}>
+        <CarouselContent>
+          {livePosts.map(({ post, blurb }) => (
+            <CarouselItem key={post.id}>
+              <Link
+                to={isAuthenticated ? postPath(post) : "/auth"}
+                className="group grid overflow-hidden rounded-lg border border-border bg-card sm:grid-cols-2"
+              >
+                <div className="h-48 sm:h-64 bg-muted overflow-hidden">
+                  {post.image_url ? (
+                    <img
+                      src={post.image_url}
+                      alt=""
+                      className="h-full w-full object-cover group-hover:scale-105 transition-transform"
+                    />
+                  ) : (
+                    <div className="flex h-full items-center justify-center bg-gradient-to-br from-primary/20 to-primary/5">
+                      <span className="font-serif text-6xl font-bold text-primary/40">
+                        {post.title.charAt(0).toUpperCase()}
+                      </span>
+                    </div>
+                  )}
+                </div>
+                <div className="flex flex-col justify-center gap-3 p-6">
+                  <h3 className="font-serif text-2xl font-bold text-foreground group-hover:text-primary transition-colors line-clamp-2">
+                    {post.title}
+                  </h3>
+                  <p className="text-muted-foreground line-clamp-3">{blurb ?? post.content_preview}</p>
+                  <div className="flex items-center gap-2">
+                    <Avatar className="h-6 w-6">
+                      <AvatarImage src={post.profile_pic_url} alt={post.username} />
+                      <AvatarFallback className="bg-primary text-primary-foreground text-xs">
+                        {post.username.charAt(0).toUpperCase()}
+                      </AvatarFallback>
+                    </Avatar>
+                    <span className="text-sm font-medium text-foreground">{post.username}</span>
+                  </div>
+                </div>
+              </Link>
+            </CarouselItem>
+          ))}
+        </CarouselContent>
+        {livePosts.length > 1 && (
+          <>
+            <CarouselPrevious className="left-2 bg-background/80" />
+            <CarouselNext className="right-2 bg-background/80" />
+          </>
+        )}
+      </Carousel>
+    </section>
+  );
+}
@@ -0,0 +1,112 @@
+import { useMemo } from "react";
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { PostCard } from "@/components/PostCard";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useAuth } from "@/hooks/useAuth";
+import { useInfiniteScroll } from "@/hooks/useInfiniteScroll";
+import { FEED_PAGE_SIZE, FeedCursor } from "@/hooks/usePostFeed";
+import { supabase } from "@/integrations/supabase/client";
+import { FEED_COLUMNS, toFeedPosts } from "@/lib/posts";
+
+const fetchFollowingPage = async (cursor: FeedCursor | null) => {
+  const { data: postsData, error } = await supabase
+    .rpc("get_following_feed", {
+      before_created_at: cursor?.created_at,
+      before_id: cursor?.id,
+      page_size: FEED_PAGE_SIZE,
+    })
+    .select(FEED_COLUMNS);
+
+  if (error) throw new Error(error.message);
+
+  const posts = toFeedPosts(postsData);
+  const last = posts[posts.length - 1];
+
+  return {
+    posts,
+    nextCursor: posts.length === FEED_PAGE_SIZE ? { created_at: last.created_at, id: last.id } : null,
+  };
+};
+
+// Published stories from the authors the signed-in reader follows, newest first
+export function FollowingFeed() {
+  const { user } = useAuth();
+  const { data, isPending, hasNextPage, isFetchingNextPage, fetchNextPage } = useInfiniteQuery({
+    queryKey: ["posts", "following", user?.id],
+    queryFn: ({ pageParam }) => fetchFollowingPage(pageParam),
+    initialPageParam: null as FeedCursor | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !!user,
+  });
+
+  const posts = useMemo(() => data?.pages.flatMap((page) => page.posts) ?? [], [data]);
+  const { sentinelRef } = useInfiniteScroll({
+    hasMore: hasNextPage,
+    loading: isFetchingNextPage,
+    onLoadMore: fetchNextPage,
+  });
+
+  if (isPending) {
+    return (
+      <div className="space-y-6">
+        {[1, 2].map((i) => (
+          <div key={i} className="space-y-3 py-6 border-b border-border">
+            <Skeleton className="h-6 w-3/4" />
+            <Skeleton className="h-4 w-full" />
+            <Skeleton className="h-4 w-2/3" />
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  if (posts.length === 0) {
+    return (
+      <div className="text-center py-16">
+        <p className="text-muted-foreground text-lg mb-2">
+          No stories from authors you follow yet.
+        </p>
+        <p className="text-sm text-muted-foreground">
+          Follow writers from their profile page to see their new stories here.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {posts.map((post) => (
+        <PostCard
+          key={post.id}
+          id={post.id}
+          shortId={post.short_id}
+          title={post.title}
+          contentPreview={post.content_preview}
+          imageUrl={post.image_url}
+          author={{
+            username: post.username,
+            profilePicUrl: post.profile_pic_url,
+            userId: post.user_id,
+            handle: post.handle,
+          }}
+          createdAt={post.created_at}
+          readingMinutes={post.reading_minutes}
+          likeCount={post.like_count}
+          commentCount={post.comment_count}
+          genre={post.genre}
+          tags={post.tags}
+          isAuthenticated
+        />
+      ))}
+
+      <div ref={sentinelRef} className="py-6">
+        {isFetchingNextPage && (
+          <div className="space-y-3">
+            <Skeleton className="h-6 w-3/4" />
+            <Skeleton className="h-4 w-full" />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,21 @@
 import { Link, useNavigate } from "react-router-dom";
+import { AccountDeletionBanner } from "@/components/AccountDeletionBanner";
 import { Button } from "@/components/ui/button";
 import { useAuth } from "@/hooks/useAuth";
+import { useRole } from "@/hooks/useRole";
+import { authorPath } from "@/lib/handles";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { LogOut, PenLine } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { BarChart3, Bookmark, KeyRound, LogOut, PenLine, Search, Settings, ShieldCheck, Star, UserPen } from "lucide-react";
 
 export function Header() {
   const { user, profile, signOut } = useAuth();
+  const { isAdmin, isEditor } = useRole();
   const navigate = useNavigate();
 
   const handleSignOut = async () => {
@@ -23,6 +33,12 @@ export function Header() {
         </Link>
 
         <nav className="flex items-center gap-3">
+          <Button variant="ghost" size="sm" asChild>
+            <Link to="/search">
+              <Search className="h-4 w-4" />
+              <span className="sr-only">Search stories</span>
+            </Link>
+          </Button>
           {user ? (
             <>
               <Button variant="outline" size="sm" asChild>
@@ -31,8 +47,14 @@ export function Header() {
                   <span className="hidden sm:inline-block">Write</span>
                 </Link>
               </Button>
+              <Button variant="ghost" size="sm" asChild>
+                <Link to="/reading-list">
+                  <Bookmark className="h-4 w-4" />
+                  <span className="sr-only">Reading list</span>
+                </Link>
+              </Button>
               <Link
-                to={`/author/${user.id}`}
+                to={authorPath(profile?.handle, user.id)}
                 className="flex items-center gap-2 hover:opacity-80 transition-opacity"
               >
                 <Avatar className="h-8 w-8">
@@ -45,6 +67,50 @@ export function Header() {
                   {profile?.username}
                 </span>
               </Link>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" size="sm">
+                    <Settings className="h-4 w-4" />
+                    <span className="sr-only">Settings</span>
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem asChild>
+                    <Link to="/settings/profile">
+                      <UserPen className="h-4 w-4" />
+                      Edit profile
+                    </Link>
+                  </DropdownMenuItem>
+                  <DropdownMenuItem asChild>
+                    <Link to="/settings/account">
+                      <KeyRound className="h-4 w-4" />
+                      Account settings
+                    </Link>
+                  </DropdownMenuItem>
+                  <DropdownMenuItem asChild>
+                    <Link to="/dashboard">
+                      <BarChart3 className="h-4 w-4" />
+                      Story stats
+                    </Link>
+                  </DropdownMenuItem>
+                  {isEditor && (
+                    <DropdownMenuItem asChild>
+                      <Link to="/editor/featured">
+                        <Star className="h-4 w-4" />
+                        Featured stories
+                      </Link>
+                    </DropdownMenuItem>
+                  )}
+                  {isAdmin && (
+                    <DropdownMenuItem asChild>
+                      <Link to="/admin/moderation">
+                        <ShieldCheck className="h-4 w-4" />
+                        Moderation
+                      </Link>
+                    </DropdownMenuItem>
+                  )}
+                </DropdownMenuContent>
+              </DropdownMenu>
               <Button variant="ghost" size="sm" onClick={handleSignOut}>
                 <LogOut className="h-4 w-4" />
                 <span className="hidden sm:inline-block">Sign out</span>
@@ -57,6 +123,7 @@ export function Header() {
           )}
         </nav>
       </div>
+      {user && <AccountDeletionBanner />}
     </header>
   );
 }
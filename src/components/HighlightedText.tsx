@@ -0,0 +1,33 @@
+import { stripMarkdown } from "@/lib/markdown";
+
+interface HighlightedTextProps {
+  // Text from the search API with matches wrapped in <mark></mark>
+  text: string;
+  className?: string;
+}
+
+const MARK_START = "\u0001";
+const MARK_END = "\u0002";
+
+// Render search highlights as React nodes rather than HTML, so nothing else in
+// the story text is ever interpreted as markup
+export function HighlightedText({ text, className }: HighlightedTextProps) {
+  const plain = stripMarkdown(
+    text.replace(/<mark>/g, MARK_START).replace(/<\/mark>/g, MARK_END)
+  );
+  const parts = plain.split(new RegExp(`(${MARK_START}[^${MARK_END}]*${MARK_END})`));
+
+  return (
+    <span className={className}>
+      {parts.map((part, index) =>
+        part.startsWith(MARK_START) ? (
+          <mark key={index} className="rounded-sm bg-primary/15 px-0.5 text-foreground">
+            {part.slice(1, -1)}
+          </mark>
+        ) : (
+          part
+        )
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,209 @@
+import { useState } from "react";
+import { z } from "zod";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import type { Series } from "@/hooks/useSeries";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { ArrowDown, ArrowUp, Loader2 } from "lucide-react";
+
+const seriesSchema = z.object({
+  title: z.string().trim().min(1, "Give your series a title").max(200, "Title must be less than 200 characters"),
+  description: z.string().max(1000, "Description must be less than 1,000 characters"),
+});
+
+interface ManageSeriesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  series: Series;
+  onSuccess: () => void;
+}
+
+export function ManageSeriesDialog({ open, onOpenChange, series, onSuccess }: ManageSeriesDialogProps) {
+  const { toast } = useToast();
+  const [title, setTitle] = useState(series.title);
+  const [description, setDescription] = useState(series.description ?? "");
+  const [chapters, setChapters] = useState(series.chapters);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const moveChapter = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= chapters.length) return;
+
+    const reordered = [...chapters];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setChapters(reordered);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const result = seriesSchema.safeParse({ title, description });
+    if (!result.success) {
+      const fieldErrors: Record<string, string> = {};
+      result.error.errors.forEach((err) => {
+        const field = err.path[0] as string;
+        fieldErrors[field] = err.message;
+      });
+      setErrors(fieldErrors);
+      return;
+    }
+
+    setErrors({});
+    setIsSubmitting(true);
+
+    try {
+      const { error } = await supabase
+        .from("series")
+        .update({
+          title: title.trim(),
+          description: description.trim() || null,
+        })
+        .eq("id", series.id);
+
+      if (error) throw new Error(error.message);
+
+      const { error: reorderError } = await supabase.rpc("reorder_series_chapters", {
+        target_series_id: series.id,
+        chapter_ids: chapters.map((chapter) => chapter.id),
+      });
+
+      if (reorderError) throw new Error(reorderError.message);
+
+      toast({
+        title: "Series updated!",
+        description: "Your changes have been saved",
+      });
+
+      onSuccess();
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Failed to update",
+        description: error instanceof Error ? error.message : "Something went wrong",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="font-serif text-xl">Manage Series</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4 mt-4">
+          <div className="space-y-2">
+            <Label htmlFor="series-title">Title</Label>
+            <Input
+              id="series-title"
+              type="text"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              className={errors.title ? "border-destructive" : ""}
+              maxLength={200}
+            />
+            {errors.title && (
+              <p className="text-sm text-destructive">{errors.title}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="series-description">Description</Label>
+            <Textarea
+              id="series-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className={errors.description ? "border-destructive" : ""}
+              placeholder="What is this series about?"
+              maxLength={1000}
+              rows={3}
+            />
+            {errors.description && (
+              <p className="text-sm text-destructive">{errors.description}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Chapter order</Label>
+            {chapters.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                Add a story to this series when you write or edit it.
+              </p>
+            ) : (
+              <ol className="divide-y divide-border rounded-lg border border-border">
+                {chapters.map((chapter, index) => (
+                  <li key={chapter.id} className="flex items-center gap-3 p-3">
+                    <span className="w-6 shrink-0 text-sm text-muted-foreground">{index + 1}.</span>
+                    <span className="flex-1 min-w-0 truncate font-medium text-foreground">
+                      {chapter.title}
+                    </span>
+                    {chapter.status !== "published" && (
+                      <Badge variant="outline" className="capitalize">
+                        {chapter.status}
+                      </Badge>
+                    )}
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => moveChapter(index, -1)}
+                      disabled={index === 0}
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                      <span className="sr-only">Move up</span>
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => moveChapter(index, 1)}
+                      disabled={index === chapters.length - 1}
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                      <span className="sr-only">Move down</span>
+                    </Button>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+
+          <div className="flex gap-3 pt-4">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isSubmitting}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                "Save Changes"
+              )}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
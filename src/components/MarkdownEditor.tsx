@@ -0,0 +1,199 @@
+import { useRef, useState } from "react";
+import { Bold, Heading2, ImagePlus, Italic, Link2, Loader2, Minus, Quote } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { StoryContent } from "@/components/StoryContent";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { cn } from "@/lib/utils";
+
+interface MarkdownEditorProps {
+  id: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  maxLength?: number;
+  hasError?: boolean;
+  className?: string;
+}
+
+export function MarkdownEditor({
+  id,
+  value,
+  onChange,
+  placeholder,
+  maxLength,
+  hasError,
+  className,
+}: MarkdownEditorProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isUploading, setIsUploading] = useState(false);
+
+  // Replace the current selection and keep the cursor around the inserted text
+  const insertText = (before: string, after = "", fallback = "") => {
+    const textarea = textareaRef.current;
+    const start = textarea?.selectionStart ?? value.length;
+    const end = textarea?.selectionEnd ?? value.length;
+    const selected = value.slice(start, end) || fallback;
+    const next = value.slice(0, start) + before + selected + after + value.slice(end);
+
+    onChange(next);
+
+    requestAnimationFrame(() => {
+      if (!textarea) return;
+      textarea.focus();
+      textarea.setSelectionRange(start + before.length, start + before.length + selected.length);
+    });
+  };
+
+  // Prefix every selected line, e.g. for headings and block quotes
+  const prefixLines = (prefix: string) => {
+    const textarea = textareaRef.current;
+    const start = textarea?.selectionStart ?? value.length;
+    const end = textarea?.selectionEnd ?? value.length;
+    const lineStart = value.lastIndexOf("\n", start - 1) + 1;
+    const block = value
+      .slice(lineStart, end)
+      .split("\n")
+      .map((line) => prefix + line)
+      .join("\n");
+
+    onChange(value.slice(0, lineStart) + block + value.slice(end));
+    requestAnimationFrame(() => textarea?.focus());
+  };
+
+  const handleImageChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file || !user) return;
+
+    if (file.size > 5 * 1024 * 1024) {
+      toast({
+        title: "File too large",
+        description: "Image must be less than 5MB",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!file.type.startsWith("image/")) {
+      toast({
+        title: "Invalid file type",
+        description: "Please upload an image file",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsUploading(true);
+
+    const fileExt = file.name.split(".").pop();
+    const fileName = `${user.id}/${Date.now()}.${fileExt}`;
+
+    const { error: uploadError } = await supabase.storage
+      .from("post-images")
+      .upload(fileName, file);
+
+    if (uploadError) {
+      toast({
+        title: "Upload failed",
+        description: "Failed to upload image",
+        variant: "destructive",
+      });
+    } else {
+      const { data: urlData } = supabase.storage.from("post-images").getPublicUrl(fileName);
+      insertText(`\n![`, `](${urlData.publicUrl})\n`, "Image description");
+    }
+
+    setIsUploading(false);
+  };
+
+  const toolbar = [
+    { label: "Heading", icon: Heading2, action: () => prefixLines("## ") },
+    { label: "Bold", icon: Bold, action: () => insertText("**", "**", "bold text") },
+    { label: "Italic", icon: Italic, action: () => insertText("*", "*", "italic text") },
+    { label: "Block quote", icon: Quote, action: () => prefixLines("> ") },
+    { label: "Scene break", icon: Minus, action: () => insertText("\n\n***\n\n") },
+    { label: "Link", icon: Link2, action: () => insertText("[", "](https://)", "link text") },
+  ];
+
+  return (
+    <Tabs defaultValue="write" className={className}>
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+        <div className="flex flex-wrap items-center gap-1">
+          {toolbar.map(({ label, icon: Icon, action }) => (
+            <Button
+              key={label}
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="h-8 w-8 p-0"
+              onClick={action}
+              title={label}
+            >
+              <Icon className="h-4 w-4" />
+              <span className="sr-only">{label}</span>
+            </Button>
+          ))}
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="h-8 w-8 p-0"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isUploading}
+            title="Insert image"
+          >
+            {isUploading ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <ImagePlus className="h-4 w-4" />
+            )}
+            <span className="sr-only">Insert image</span>
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            className="hidden"
+            accept="image/*"
+            onChange={handleImageChange}
+          />
+        </div>
+        <TabsList className="h-8">
+          <TabsTrigger value="write" className="text-xs">Write</TabsTrigger>
+          <TabsTrigger value="preview" className="text-xs">Preview</TabsTrigger>
+        </TabsList>
+      </div>
+
+      <TabsContent value="write" className="mt-0">
+        <Textarea
+          id={id}
+          ref={textareaRef}
+          placeholder={placeholder}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          className={cn(
+            "min-h-[300px] resize-y story-content",
+            hasError && "border-destructive"
+          )}
+          maxLength={maxLength}
+        />
+      </TabsContent>
+
+      <TabsContent value="preview" className="mt-0">
+        <div className="min-h-[300px] rounded-md border border-input px-4 py-3">
+          {value.trim() ? (
+            <StoryContent content={value} className="text-base" />
+          ) : (
+            <p className="text-sm text-muted-foreground">Nothing to preview yet.</p>
+          )}
+        </div>
+      </TabsContent>
+    </Tabs>
+  );
+}
@@ -0,0 +1,118 @@
+import { useState } from "react";
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import type { ModerationRequest } from "@/hooks/useModeration";
+import { Loader2 } from "lucide-react";
+
+const MAX_NOTE_LENGTH = 1000;
+
+const UNTIL_LIFTED = "indefinite";
+
+// Suspension lengths in days
+const SUSPENSION_OPTIONS = [
+  { value: "7", label: "7 days" },
+  { value: "30", label: "30 days" },
+  { value: UNTIL_LIFTED, label: "Until lifted" },
+];
+
+export interface PendingModeration {
+  request: ModerationRequest;
+  title: string;
+  description: string;
+  confirmLabel: string;
+  destructive?: boolean;
+}
+
+interface ModerationActionDialogProps {
+  action: PendingModeration;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (request: ModerationRequest, note: string) => Promise<{ error: Error | null }>;
+}
+
+// Confirms a moderation decision and takes the note kept with it in the audit log
+export function ModerationActionDialog({ action, onOpenChange, onConfirm }: ModerationActionDialogProps) {
+  const [note, setNote] = useState("");
+  const [suspension, setSuspension] = useState(SUSPENSION_OPTIONS[0].value);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const isSuspension = action.request.kind === "suspend";
+
+  const handleConfirm = async () => {
+    const request: ModerationRequest =
+      action.request.kind === "suspend"
+        ? { ...action.request, days: suspension === UNTIL_LIFTED ? null : Number(suspension) }
+        : action.request;
+
+    setIsSubmitting(true);
+    const { error } = await onConfirm(request, note);
+    setIsSubmitting(false);
+
+    if (!error) onOpenChange(false);
+  };
+
+  return (
+    <AlertDialog open onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle className="font-serif">{action.title}</AlertDialogTitle>
+          <AlertDialogDescription>{action.description}</AlertDialogDescription>
+        </AlertDialogHeader>
+        {isSuspension && (
+          <div className="space-y-2">
+            <Label htmlFor="suspension-length">Suspend for</Label>
+            <Select value={suspension} onValueChange={setSuspension}>
+              <SelectTrigger id="suspension-length">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SUSPENSION_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        <div className="space-y-2">
+          <Label htmlFor="moderation-note">Note for the audit log (optional)</Label>
+          <Textarea
+            id="moderation-note"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Why this decision was made"
+            className="min-h-[80px] resize-y"
+            maxLength={MAX_NOTE_LENGTH}
+          />
+        </div>
+        <AlertDialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={isSubmitting}
+          >
+            Cancel
+          </Button>
+          <Button
+            variant={action.destructive ? "destructive" : "default"}
+            onClick={handleConfirm}
+            disabled={isSubmitting}
+          >
+            {isSubmitting && <Loader2 className="h-4 w-4 animate-spin" />}
+            {action.confirmLabel}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
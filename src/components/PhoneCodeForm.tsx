@@ -0,0 +1,150 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2 } from "lucide-react";
+
+const CODE_LENGTH = 6;
+// Matches the auth server's minimum time between texts to one number
+const RESEND_COOLDOWN_SECONDS = 30;
+
+interface PhoneCodeFormProps {
+  // 10-digit national number the code was sent to
+  phone: string;
+  onVerify: (code: string) => Promise<{ error: Error | null }>;
+  onResend: () => Promise<{ error: Error | null }>;
+  onBack?: () => void;
+  backLabel?: string;
+  submitLabel?: string;
+}
+
+// Entry for the 6-digit code texted to a phone number, with resend
+export function PhoneCodeForm({
+  phone,
+  onVerify,
+  onResend,
+  onBack,
+  backLabel = "Change number",
+  submitLabel = "Verify",
+}: PhoneCodeFormProps) {
+  const { toast } = useToast();
+  const [code, setCode] = useState("");
+  const [error, setError] = useState("");
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [resendIn, setResendIn] = useState(RESEND_COOLDOWN_SECONDS);
+
+  useEffect(() => {
+    if (resendIn <= 0) return;
+
+    const timer = setTimeout(() => setResendIn((seconds) => seconds - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [resendIn]);
+
+  const verify = async (value: string) => {
+    if (value.length !== CODE_LENGTH || isVerifying) return;
+
+    setIsVerifying(true);
+    setError("");
+
+    const { error: verifyError } = await onVerify(value);
+    if (verifyError) {
+      setError(
+        /expired|invalid/i.test(verifyError.message)
+          ? "That code is wrong or has expired"
+          : verifyError.message
+      );
+      setCode("");
+    }
+
+    setIsVerifying(false);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    verify(code);
+  };
+
+  const handleResend = async () => {
+    setResendIn(RESEND_COOLDOWN_SECONDS);
+    setError("");
+    setCode("");
+
+    const { error: resendError } = await onResend();
+    if (resendError) {
+      toast({
+        title: "Couldn't send a new code",
+        description: resendError.message,
+        variant: "destructive",
+      });
+    } else {
+      toast({
+        title: "Code sent",
+        description: `We've sent a new code to +91 ${phone}`,
+      });
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="phone-code">Enter the 6-digit code sent to +91 {phone}</Label>
+        <InputOTP
+          id="phone-code"
+          maxLength={CODE_LENGTH}
+          value={code}
+          onChange={setCode}
+          onComplete={verify}
+          autoFocus
+          disabled={isVerifying}
+          containerClassName="justify-center"
+        >
+          <InputOTPGroup>
+            {Array.from({ length: CODE_LENGTH }, (_, index) => (
+              <InputOTPSlot key={index} index={index} />
+            ))}
+          </InputOTPGroup>
+        </InputOTP>
+        {error && <p className="text-sm text-destructive text-center">{error}</p>}
+      </div>
+
+      <Button
+        type="submit"
+        variant="cta"
+        className="w-full"
+        disabled={isVerifying || code.length !== CODE_LENGTH}
+      >
+        {isVerifying ? (
+          <>
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Verifying...
+          </>
+        ) : (
+          submitLabel
+        )}
+      </Button>
+
+      <div className="flex items-center justify-between text-sm">
+        {onBack ? (
+          <button
+            type="button"
+            onClick={onBack}
+            className="text-muted-foreground hover:text-foreground"
+          >
+            {backLabel}
+          </button>
+        ) : (
+          <span />
+        )}
+        <button
+          type="button"
+          onClick={handleResend}
+          disabled={resendIn > 0}
+          className="text-primary font-medium hover:underline disabled:text-muted-foreground disabled:no-underline"
+        >
+          {resendIn > 0 ? `Resend code in ${resendIn}s` : "Resend code"}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -1,10 +1,15 @@
 import { Link } from "react-router-dom";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
-import { ArrowRight } from "lucide-react";
+import { StoryCategories } from "@/components/StoryCategories";
+import { formatReadingTime, type Category } from "@/lib/posts";
+import { authorPath } from "@/lib/handles";
+import { postPath } from "@/lib/slugs";
+import { ArrowRight, Heart, MessageCircle } from "lucide-react";
 
 interface PostCardProps {
   id: string;
+  shortId: string;
   title: string;
   contentPreview: string;
   imageUrl?: string | null;
@@ -12,18 +17,30 @@ interface PostCardProps {
     username: string;
     profilePicUrl: string;
     userId?: string;
+    handle?: string | null;
   };
   createdAt: string;
+  readingMinutes?: number;
+  likeCount?: number;
+  commentCount?: number;
+  genre?: Category | null;
+  tags?: Category[];
   isAuthenticated: boolean;
 }
 
 export function PostCard({
   id,
+  shortId,
   title,
   contentPreview,
   imageUrl,
   author,
   createdAt,
+  readingMinutes,
+  likeCount,
+  commentCount,
+  genre,
+  tags,
   isAuthenticated,
 }: PostCardProps) {
   const formattedDate = new Date(createdAt).toLocaleDateString("en-IN", {
@@ -32,6 +49,8 @@ export function PostCard({
     year: "numeric",
   });
 
+  const path = postPath({ title, short_id: shortId });
+
   return (
     <article className="group relative border-b border-border py-6 last:border-b-0">
       <div className="flex gap-4">
@@ -39,7 +58,7 @@ export function PostCard({
           {/* Author info */}
           <div className="flex items-center gap-2 mb-3">
             <Link
-              to={author.userId ? `/author/${author.userId}` : "#"}
+              to={author.userId ? authorPath(author.handle, author.userId) : "#"}
               className="flex items-center gap-2 hover:opacity-80 transition-opacity"
             >
               <Avatar className="h-6 w-6">
@@ -54,10 +73,16 @@ export function PostCard({
             </Link>
             <span className="text-muted-foreground">·</span>
             <time className="text-sm text-muted-foreground">{formattedDate}</time>
+            {readingMinutes !== undefined && (
+              <>
+                <span className="text-muted-foreground">·</span>
+                <span className="text-sm text-muted-foreground">{formatReadingTime(readingMinutes)}</span>
+              </>
+            )}
           </div>
 
           {/* Title */}
-          <Link to={`/post/${id}`} className="block">
+          <Link to={path} className="block">
             <h2 className="font-serif text-xl font-bold text-foreground mb-2 group-hover:text-primary transition-colors line-clamp-2">
               {title}
             </h2>
@@ -68,19 +93,40 @@ export function PostCard({
             {contentPreview}
           </p>
 
+          {/* Genre and tags */}
+          <StoryCategories genre={genre} tags={tags} className="mb-3" />
+
           {/* CTA */}
-          <Button variant="link" asChild className="p-0 h-auto font-medium">
-            <Link to={isAuthenticated ? `/post/${id}` : "/auth"} className="flex items-center gap-1">
-              {isAuthenticated ? "Read full story" : "Read more → Login"}
-              <ArrowRight className="h-4 w-4" />
-            </Link>
-          </Button>
+          <div className="flex items-center gap-4">
+            <Button variant="link" asChild className="p-0 h-auto font-medium">
+              <Link to={isAuthenticated ? path : "/auth"} className="flex items-center gap-1">
+                {isAuthenticated ? "Read full story" : "Read more → Login"}
+                <ArrowRight className="h-4 w-4" />
+              </Link>
+            </Button>
+
+            {/* Engagement */}
+            {likeCount !== undefined && (
+              <span className="flex items-center gap-1 text-sm text-muted-foreground">
+                <Heart className="h-4 w-4" />
+                {likeCount}
+                <span className="sr-only">{likeCount === 1 ? "like" : "likes"}</span>
+              </span>
+            )}
+            {commentCount !== undefined && (
+              <span className="flex items-center gap-1 text-sm text-muted-foreground">
+                <MessageCircle className="h-4 w-4" />
+                {commentCount}
+                <span className="sr-only">{commentCount === 1 ? "response" : "responses"}</span>
+              </span>
+            )}
+          </div>
         </div>
 
         {/* Image thumbnail */}
         {imageUrl && (
           <div className="hidden sm:block flex-shrink-0">
-            <Link to={`/post/${id}`}>
+            <Link to={path}>
               <div className="w-28 h-28 rounded-md overflow-hidden bg-muted">
                 <img
                   src={imageUrl}
@@ -0,0 +1,48 @@
+import { Globe, Instagram, Twitter } from "lucide-react";
+
+interface ProfileLinksProps {
+  websiteUrl: string | null;
+  twitterHandle: string | null;
+  instagramHandle: string | null;
+}
+
+// Shows the website and social accounts an author has added to their profile
+export function ProfileLinks({ websiteUrl, twitterHandle, instagramHandle }: ProfileLinksProps) {
+  const links = [
+    websiteUrl && {
+      href: websiteUrl,
+      label: websiteUrl.replace(/^https?:\/\/(www\.)?/i, "").replace(/\/$/, ""),
+      icon: Globe,
+    },
+    twitterHandle && {
+      href: `https://x.com/${twitterHandle}`,
+      label: `@${twitterHandle}`,
+      icon: Twitter,
+    },
+    instagramHandle && {
+      href: `https://instagram.com/${instagramHandle}`,
+      label: `@${instagramHandle}`,
+      icon: Instagram,
+    },
+  ].filter((link) => !!link);
+
+  if (links.length === 0) return null;
+
+  return (
+    <ul className="mt-3 flex flex-wrap gap-x-4 gap-y-1 text-sm">
+      {links.map(({ href, label, icon: Icon }) => (
+        <li key={href}>
+          <a
+            href={href}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            className="inline-flex items-center gap-1 text-muted-foreground hover:text-primary transition-colors"
+          >
+            <Icon className="h-4 w-4" />
+            <span className="truncate max-w-[16rem]">{label}</span>
+          </a>
+        </li>
+      ))}
+    </ul>
+  );
+}
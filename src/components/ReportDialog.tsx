@@ -0,0 +1,146 @@
+import { useState } from "react";
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Textarea } from "@/components/ui/textarea";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  MAX_REPORT_DETAILS_LENGTH,
+  REPORT_REASONS,
+  REPORT_TARGET_COLUMNS,
+  REPORT_TARGET_LABELS,
+  type ReportReason,
+  type ReportTarget,
+} from "@/lib/reports";
+import { Loader2 } from "lucide-react";
+
+// Postgres unique_violation: the reader already has an open report on this target
+const DUPLICATE_REPORT_CODE = "23505";
+
+interface ReportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  target: ReportTarget;
+}
+
+export function ReportDialog({ open, onOpenChange, target }: ReportDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [reason, setReason] = useState<ReportReason | "">("");
+  const [details, setDetails] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const targetLabel = REPORT_TARGET_LABELS[target.type];
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setReason("");
+      setDetails("");
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const handleSubmit = async () => {
+    if (!user || !reason) return;
+
+    setIsSubmitting(true);
+    const { error } = await supabase.from("reports").insert({
+      reporter_id: user.id,
+      target_type: target.type,
+      [REPORT_TARGET_COLUMNS[target.type]]: target.id,
+      reason,
+      details: details.trim() || null,
+    });
+    setIsSubmitting(false);
+
+    if (error && error.code !== DUPLICATE_REPORT_CODE) {
+      toast({
+        title: "Failed to send report",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: error ? "Already reported" : "Report sent",
+      description: error
+        ? `You've already reported this ${targetLabel}. Our moderators will review it soon.`
+        : "Thanks for letting us know. Our moderators will review it soon.",
+    });
+    handleOpenChange(false);
+  };
+
+  return (
+    <AlertDialog open={open} onOpenChange={handleOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle className="font-serif">Report this {targetLabel}</AlertDialogTitle>
+          <AlertDialogDescription>
+            Reports are private. The {targetLabel === "account" ? "account owner" : "author"} won't
+            see who reported them.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <RadioGroup
+          value={reason}
+          onValueChange={(value) => setReason(value as ReportReason)}
+          className="gap-3"
+        >
+          {REPORT_REASONS.map((option) => (
+            <div key={option.value} className="flex items-start gap-3">
+              <RadioGroupItem value={option.value} id={`report-${option.value}`} className="mt-1" />
+              <Label htmlFor={`report-${option.value}`} className="cursor-pointer font-normal">
+                <span className="block font-medium text-foreground">{option.label}</span>
+                <span className="text-muted-foreground">{option.description}</span>
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+        <div className="space-y-2">
+          <Label htmlFor="report-details">Details (optional)</Label>
+          <Textarea
+            id="report-details"
+            value={details}
+            onChange={(e) => setDetails(e.target.value)}
+            placeholder="Anything that will help our moderators"
+            className="min-h-[80px] resize-y"
+            maxLength={MAX_REPORT_DETAILS_LENGTH}
+          />
+        </div>
+        <AlertDialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => handleOpenChange(false)}
+            disabled={isSubmitting}
+          >
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={handleSubmit}
+            disabled={!reason || isSubmitting}
+          >
+            {isSubmitting ? (
+              <>
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Sending...
+              </>
+            ) : (
+              "Report"
+            )}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,32 @@
+import type { ReactNode } from "react";
+import { Header } from "@/components/Header";
+import NotFound from "@/pages/NotFound";
+import { useAuth } from "@/hooks/useAuth";
+import { useRole, type AppRole } from "@/hooks/useRole";
+import { Loader2 } from "lucide-react";
+
+interface RequireRoleProps {
+  role: AppRole;
+  children: ReactNode;
+}
+
+// Guards a privileged page. Everyone without the role, including signed-out
+// visitors, gets the 404 page so the route isn't advertised.
+export function RequireRole({ role, children }: RequireRoleProps) {
+  const { user, loading: authLoading } = useAuth();
+  const { isAdmin, isEditor, loading: roleLoading } = useRole();
+
+  if (authLoading || (!!user && roleLoading)) {
+    return (
+      <>
+        <Header />
+        <main className="min-h-screen bg-background flex items-center justify-center">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </main>
+      </>
+    );
+  }
+
+  const allowed = role === "admin" ? isAdmin : isEditor;
+  return allowed ? <>{children}</> : <NotFound />;
+}
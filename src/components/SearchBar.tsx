@@ -6,11 +6,26 @@ interface SearchBarProps {
   value: string;
   onChange: (value: string) => void;
   placeholder?: string;
+  onSubmit?: (value: string) => void;
+  autoFocus?: boolean;
 }
 
-export function SearchBar({ value, onChange, placeholder = "Search stories..." }: SearchBarProps) {
+export function SearchBar({
+  value,
+  onChange,
+  placeholder = "Search stories...",
+  onSubmit,
+  autoFocus,
+}: SearchBarProps) {
   return (
-    <div className="relative">
+    <form
+      role="search"
+      className="relative"
+      onSubmit={(e) => {
+        e.preventDefault();
+        onSubmit?.(value);
+      }}
+    >
       <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
       <Input
         type="text"
@@ -18,9 +33,11 @@ export function SearchBar({ value, onChange, placeholder = "Search stories..." }
         value={value}
         onChange={(e) => onChange(e.target.value)}
         className="pl-10 pr-10"
+        autoFocus={autoFocus}
       />
       {value && (
         <Button
+          type="button"
           variant="ghost"
           size="sm"
           className="absolute right-1 top-1/2 -translate-y-1/2 h-7 w-7 p-0"
@@ -30,6 +47,6 @@ export function SearchBar({ value, onChange, placeholder = "Search stories..." }
           <span className="sr-only">Clear search</span>
         </Button>
       )}
-    </div>
+    </form>
   );
 }
@@ -0,0 +1,70 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/hooks/useAuth";
+import { useAuthorSeries } from "@/hooks/useSeries";
+
+const NO_SERIES = "none";
+export const NEW_SERIES = "new";
+
+export interface SeriesSelection {
+  // An existing series id, NEW_SERIES, or null for a standalone story
+  seriesId: string | null;
+  newSeriesTitle: string;
+}
+
+interface SeriesFieldProps {
+  idPrefix: string;
+  value: SeriesSelection;
+  onChange: (value: SeriesSelection) => void;
+  error?: string;
+}
+
+// Lets a writer publish a story as the next chapter of one of their series
+export function SeriesField({ idPrefix, value, onChange, error }: SeriesFieldProps) {
+  const { user } = useAuth();
+  const { seriesList } = useAuthorSeries(user?.id);
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={`${idPrefix}-series`}>Series</Label>
+      <Select
+        value={value.seriesId ?? NO_SERIES}
+        onValueChange={(seriesId) =>
+          onChange({ ...value, seriesId: seriesId === NO_SERIES ? null : seriesId })
+        }
+      >
+        <SelectTrigger id={`${idPrefix}-series`}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_SERIES}>Standalone story</SelectItem>
+          {seriesList.map((series) => (
+            <SelectItem key={series.id} value={series.id}>
+              {series.title}
+            </SelectItem>
+          ))}
+          <SelectItem value={NEW_SERIES}>Start a new series…</SelectItem>
+        </SelectContent>
+      </Select>
+      {value.seriesId === NEW_SERIES && (
+        <Input
+          id={`${idPrefix}-new-series`}
+          type="text"
+          placeholder="Series title"
+          value={value.newSeriesTitle}
+          onChange={(e) => onChange({ ...value, newSeriesTitle: e.target.value })}
+          className={error ? "border-destructive" : ""}
+          maxLength={200}
+        />
+      )}
+      {error ? (
+        <p className="text-sm text-destructive">{error}</p>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          Stories added to a series become its next chapter.
+        </p>
+      )}
+    </div>
+  );
+}
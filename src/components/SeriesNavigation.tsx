@@ -0,0 +1,78 @@
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import type { Series } from "@/hooks/useSeries";
+import { postPath } from "@/lib/slugs";
+import { ChevronLeft, ChevronRight, Layers } from "lucide-react";
+
+interface SeriesNavigationProps {
+  series: Series;
+  postId: string;
+}
+
+// Where a chapter sits among the published chapters of its series
+function getChapterPosition(series: Series, postId: string) {
+  const chapters = series.chapters.filter((chapter) => chapter.status === "published");
+  const index = chapters.findIndex((chapter) => chapter.id === postId);
+
+  return {
+    index,
+    total: chapters.length,
+    previous: index > 0 ? chapters[index - 1] : null,
+    next: index >= 0 && index < chapters.length - 1 ? chapters[index + 1] : null,
+  };
+}
+
+// "Part N of M" line shown above a chapter
+export function SeriesHeader({ series, postId }: SeriesNavigationProps) {
+  const { index, total } = getChapterPosition(series, postId);
+  if (index < 0) return null;
+
+  return (
+    <p className="flex items-center gap-2 text-sm text-muted-foreground mb-3">
+      <Layers className="h-4 w-4 text-primary" />
+      <span>
+        Part {index + 1} of {total} in{" "}
+        <Link to={`/series/${series.id}`} className="font-medium text-foreground hover:text-primary transition-colors">
+          {series.title}
+        </Link>
+      </span>
+    </p>
+  );
+}
+
+// Previous/next chapter links shown after a chapter
+export function ChapterNavigation({ series, postId }: SeriesNavigationProps) {
+  const { index, previous, next } = getChapterPosition(series, postId);
+  if (index < 0 || (!previous && !next)) return null;
+
+  return (
+    <nav className="grid grid-cols-2 gap-4 mt-12 pt-6 border-t border-border" aria-label="Chapters">
+      <div>
+        {previous && (
+          <Button variant="ghost" asChild className="h-auto w-full justify-start p-3 text-left">
+            <Link to={postPath(previous)}>
+              <ChevronLeft className="h-4 w-4 shrink-0" />
+              <span className="min-w-0">
+                <span className="block text-xs text-muted-foreground">Part {index}</span>
+                <span className="block truncate font-serif font-bold">{previous.title}</span>
+              </span>
+            </Link>
+          </Button>
+        )}
+      </div>
+      <div>
+        {next && (
+          <Button variant="ghost" asChild className="h-auto w-full justify-end p-3 text-right">
+            <Link to={postPath(next)}>
+              <span className="min-w-0">
+                <span className="block text-xs text-muted-foreground">Part {index + 2}</span>
+                <span className="block truncate font-serif font-bold">{next.title}</span>
+              </span>
+              <ChevronRight className="h-4 w-4 shrink-0" />
+            </Link>
+          </Button>
+        )}
+      </div>
+    </nav>
+  );
+}
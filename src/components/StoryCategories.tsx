@@ -0,0 +1,34 @@
+import { Link } from "react-router-dom";
+import { badgeVariants } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import type { Category } from "@/lib/posts";
+
+interface StoryCategoriesProps {
+  genre?: Category | null;
+  tags?: Category[];
+  className?: string;
+}
+
+// Genre and tag chips linking to their browsing pages
+export function StoryCategories({ genre, tags = [], className }: StoryCategoriesProps) {
+  if (!genre && tags.length === 0) return null;
+
+  return (
+    <div className={cn("flex flex-wrap items-center gap-1.5", className)}>
+      {genre && (
+        <Link to={`/genre/${genre.slug}`} className={badgeVariants({ variant: "secondary" })}>
+          {genre.name}
+        </Link>
+      )}
+      {tags.map((tag) => (
+        <Link
+          key={tag.slug}
+          to={`/tag/${tag.slug}`}
+          className={cn(badgeVariants({ variant: "outline" }), "font-normal text-muted-foreground hover:text-foreground")}
+        >
+          #{tag.name}
+        </Link>
+      ))}
+    </div>
+  );
+}
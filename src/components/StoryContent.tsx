@@ -0,0 +1,30 @@
+import ReactMarkdown from "react-markdown";
+import rehypeSanitize from "rehype-sanitize";
+import { cn } from "@/lib/utils";
+
+interface StoryContentProps {
+  content: string;
+  className?: string;
+}
+
+// Renders Markdown story text. Raw HTML is never rendered and the output is
+// passed through rehype-sanitize, so stories can't inject scripts or styles.
+export function StoryContent({ content, className }: StoryContentProps) {
+  return (
+    <div className={cn("story-content story-markdown", className)}>
+      <ReactMarkdown
+        rehypePlugins={[rehypeSanitize]}
+        components={{
+          a: ({ node, ...props }) => (
+            <a {...props} target="_blank" rel="noopener noreferrer nofollow" />
+          ),
+          img: ({ node, alt, ...props }) => (
+            <img {...props} alt={alt ?? ""} loading="lazy" />
+          ),
+        }}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+}
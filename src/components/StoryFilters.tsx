@@ -0,0 +1,73 @@
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useCategory, useGenres, usePopularTags } from "@/hooks/useCategories";
+import { X } from "lucide-react";
+
+const ALL_GENRES = "all";
+
+export interface StoryFilterValues {
+  genre: string | null;
+  tag: string | null;
+}
+
+interface StoryFiltersProps {
+  value: StoryFilterValues;
+  onChange: (value: StoryFilterValues) => void;
+}
+
+// Genre and popular-tag filters. Values are slugs so they can live in the URL.
+export function StoryFilters({ value, onChange }: StoryFiltersProps) {
+  const { genres } = useGenres();
+  const { tags } = usePopularTags();
+  const { category: selectedTag } = useCategory("tag", value.tag ?? undefined);
+
+  // Keep a tag selected from a link visible even if it isn't one of the popular ones
+  const tagOptions =
+    selectedTag && !tags.some((tag) => tag.slug === selectedTag.slug) ? [...tags, selectedTag] : tags;
+
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      <Select
+        value={value.genre ?? ALL_GENRES}
+        onValueChange={(genre) => onChange({ ...value, genre: genre === ALL_GENRES ? null : genre })}
+      >
+        <SelectTrigger className="h-9 w-44" aria-label="Filter by genre">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL_GENRES}>All genres</SelectItem>
+          {genres.map((genre) => (
+            <SelectItem key={genre.slug} value={genre.slug}>
+              {genre.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {tagOptions.length > 0 && (
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={value.tag ?? ""}
+          onValueChange={(tag) => onChange({ ...value, tag: tag || null })}
+          className="flex-wrap justify-start"
+          aria-label="Filter by tag"
+        >
+          {tagOptions.map((tag) => (
+            <ToggleGroupItem key={tag.slug} value={tag.slug} className="h-7 text-xs">
+              #{tag.name}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      )}
+
+      {(value.genre || value.tag) && (
+        <Button variant="ghost" size="sm" onClick={() => onChange({ genre: null, tag: null })}>
+          <X className="h-4 w-4" />
+          Clear filters
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,252 @@
+import { useEffect, useMemo, useState } from "react";
+import { diffWords } from "diff";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { generatePreview } from "@/lib/markdown";
+import { Loader2, RotateCcw } from "lucide-react";
+
+interface Revision {
+  id: string;
+  title: string;
+  content_full: string;
+  created_at: string;
+}
+
+interface StoryHistoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  story: {
+    id: string;
+    title: string;
+  };
+  onRestore: () => void;
+}
+
+const formatRevisionDate = (date: string) =>
+  new Date(date).toLocaleString("en-IN", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+export function StoryHistoryDialog({ open, onOpenChange, story, onRestore }: StoryHistoryDialogProps) {
+  const { toast } = useToast();
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [baseId, setBaseId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    const fetchRevisions = async () => {
+      const { data, error } = await supabase
+        .from("post_revisions")
+        .select("id, title, content_full, created_at")
+        .eq("post_id", story.id)
+        .order("created_at", { ascending: false });
+
+      if (error) {
+        toast({
+          title: "Failed to load history",
+          description: error.message,
+          variant: "destructive",
+        });
+      }
+
+      const revisionsData = data || [];
+      setRevisions(revisionsData);
+      // Default to comparing the latest version with the one before it
+      setCompareId(revisionsData[0]?.id ?? null);
+      setBaseId(revisionsData[1]?.id ?? revisionsData[0]?.id ?? null);
+      setLoading(false);
+    };
+
+    fetchRevisions();
+  }, [story.id, refreshKey, toast]);
+
+  const base = revisions.find((r) => r.id === baseId);
+  const compare = revisions.find((r) => r.id === compareId);
+
+  const contentDiff = useMemo(
+    () => (base && compare ? diffWords(base.content_full, compare.content_full) : []),
+    [base, compare]
+  );
+
+  const handleRestore = async (revision: Revision) => {
+    setRestoringId(revision.id);
+
+    try {
+      // Restoring is an ordinary edit, so the trigger records it as a new revision
+      const { error } = await supabase
+        .from("posts")
+        .update({
+          title: revision.title,
+          content_preview: generatePreview(revision.content_full),
+        })
+        .eq("id", story.id);
+
+      if (error) throw new Error(error.message);
+
+      const { error: contentError } = await supabase
+        .from("post_contents")
+        .update({ content_full: revision.content_full })
+        .eq("post_id", story.id);
+
+      if (contentError) throw new Error(contentError.message);
+
+      toast({
+        title: "Version restored",
+        description: `Restored the version from ${formatRevisionDate(revision.created_at)}`,
+      });
+
+      setRefreshKey((key) => key + 1);
+      onRestore();
+    } catch (error) {
+      toast({
+        title: "Failed to restore",
+        description: error instanceof Error ? error.message : "Something went wrong",
+        variant: "destructive",
+      });
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const revisionLabel = (revision: Revision, index: number) =>
+    `${formatRevisionDate(revision.created_at)}${index === 0 ? " (current)" : ""}`;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="font-serif text-xl">Revision history</DialogTitle>
+          <DialogDescription>{story.title}</DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="space-y-3 mt-4">
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-40 w-full" />
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="text-muted-foreground py-8 text-center">
+            No revisions recorded for this story yet.
+          </p>
+        ) : (
+          <div className="grid gap-6 mt-4 md:grid-cols-[220px_1fr]">
+            {/* Revision list */}
+            <ul className="space-y-1">
+              {revisions.map((revision, index) => (
+                <li
+                  key={revision.id}
+                  className={`flex items-center gap-2 rounded-md px-2 py-1.5 text-sm ${
+                    revision.id === compareId ? "bg-muted" : ""
+                  }`}
+                >
+                  <button
+                    type="button"
+                    onClick={() => setCompareId(revision.id)}
+                    className="flex-1 text-left text-foreground hover:text-primary transition-colors"
+                  >
+                    {revisionLabel(revision, index)}
+                  </button>
+                  {index > 0 && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0"
+                      onClick={() => handleRestore(revision)}
+                      disabled={restoringId !== null}
+                      title="Restore this version"
+                    >
+                      {restoringId === revision.id ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <RotateCcw className="h-4 w-4" />
+                      )}
+                      <span className="sr-only">Restore this version</span>
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+
+            {/* Word-level diff */}
+            <div className="min-w-0 space-y-4">
+              <div className="grid gap-3 sm:grid-cols-2">
+                <Select value={baseId ?? undefined} onValueChange={setBaseId}>
+                  <SelectTrigger aria-label="Compare from">
+                    <SelectValue placeholder="From" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {revisions.map((revision, index) => (
+                      <SelectItem key={revision.id} value={revision.id}>
+                        {revisionLabel(revision, index)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={compareId ?? undefined} onValueChange={setCompareId}>
+                  <SelectTrigger aria-label="Compare to">
+                    <SelectValue placeholder="To" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {revisions.map((revision, index) => (
+                      <SelectItem key={revision.id} value={revision.id}>
+                        {revisionLabel(revision, index)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {base && compare && base.title !== compare.title && (
+                <p className="text-sm">
+                  <span className="text-muted-foreground">Title: </span>
+                  <del className="bg-destructive/15 text-muted-foreground">{base.title}</del>{" "}
+                  <ins className="bg-primary/15 no-underline">{compare.title}</ins>
+                </p>
+              )}
+
+              <div className="story-content rounded-md border border-border p-4 text-base whitespace-pre-wrap">
+                {contentDiff.map((part, index) =>
+                  part.added ? (
+                    <ins key={index} className="bg-primary/15 no-underline">
+                      {part.value}
+                    </ins>
+                  ) : part.removed ? (
+                    <del key={index} className="bg-destructive/15 text-muted-foreground">
+                      {part.value}
+                    </del>
+                  ) : (
+                    <span key={index}>{part.value}</span>
+                  )
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
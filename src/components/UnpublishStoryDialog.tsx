@@ -0,0 +1,85 @@
+import { useState } from "react";
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2 } from "lucide-react";
+
+const MAX_NOTE_LENGTH = 1000;
+
+interface UnpublishStoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  storyTitle: string;
+  onConfirm: (note: string) => Promise<void>;
+}
+
+// Lets an editor send someone else's story back to the author's drafts, where
+// it stays until republishing is allowed. The unpublish and its note are kept
+// in the moderation log.
+export function UnpublishStoryDialog({ open, onOpenChange, storyTitle, onConfirm }: UnpublishStoryDialogProps) {
+  const [note, setNote] = useState("");
+  const [isUnpublishing, setIsUnpublishing] = useState(false);
+
+  const handleUnpublish = async () => {
+    setIsUnpublishing(true);
+    await onConfirm(note);
+    setIsUnpublishing(false);
+  };
+
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle className="font-serif">Unpublish Story?</AlertDialogTitle>
+          <AlertDialogDescription>
+            "{storyTitle}" will be taken off the site and moved back to the author's drafts, and
+            removed from featured stories. The author can't publish it again until republishing
+            is allowed from Moderation.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="unpublish-note">Note for the audit log (optional)</Label>
+          <Textarea
+            id="unpublish-note"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Why this story is being taken down"
+            className="min-h-[80px] resize-y"
+            maxLength={MAX_NOTE_LENGTH}
+          />
+        </div>
+        <AlertDialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={isUnpublishing}
+          >
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={handleUnpublish}
+            disabled={isUnpublishing}
+          >
+            {isUnpublishing ? (
+              <>
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Unpublishing...
+              </>
+            ) : (
+              "Unpublish"
+            )}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,98 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+
+export interface AccountSession {
+  id: string;
+  created_at: string;
+  last_active_at: string;
+  user_agent: string | null;
+  ip: string | null;
+  is_current: boolean;
+}
+
+// Devices the signed-in user is signed in on
+export function useSessions() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const userId = user?.id;
+
+  const query = useQuery({
+    queryKey: ["sessions", userId],
+    queryFn: async (): Promise<AccountSession[]> => {
+      const { data, error } = await supabase.rpc("get_my_sessions");
+
+      if (error) throw new Error(error.message);
+      return data;
+    },
+    enabled: !!userId,
+  });
+
+  const revokeSession = async (sessionId: string) => {
+    const { error } = await supabase.rpc("revoke_session", { target_session_id: sessionId });
+    if (error) return { error: new Error(error.message) };
+
+    queryClient.invalidateQueries({ queryKey: ["sessions", userId] });
+    return { error: null };
+  };
+
+  const revokeOtherSessions = async () => {
+    const { error } = await supabase.auth.signOut({ scope: "others" });
+    if (error) return { error: new Error(error.message) };
+
+    queryClient.invalidateQueries({ queryKey: ["sessions", userId] });
+    return { error: null };
+  };
+
+  return {
+    sessions: query.data ?? [],
+    loading: query.isPending && !!userId,
+    revokeSession,
+    revokeOtherSessions,
+  };
+}
+
+// A requested account deletion, which can be cancelled until purgeAfter
+export function useAccountDeletion() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const userId = user?.id;
+
+  const query = useQuery({
+    queryKey: ["account-deletion", userId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("account_deletions")
+        .select("purge_after")
+        .eq("user_id", userId ?? "")
+        .maybeSingle();
+
+      if (error) throw new Error(error.message);
+      return data?.purge_after ?? null;
+    },
+    enabled: !!userId,
+  });
+
+  const requestDeletion = async () => {
+    const { error } = await supabase.rpc("request_account_deletion");
+    if (error) return { error: new Error(error.message) };
+
+    queryClient.invalidateQueries({ queryKey: ["account-deletion", userId] });
+    return { error: null };
+  };
+
+  const cancelDeletion = async () => {
+    const { error } = await supabase.from("account_deletions").delete().eq("user_id", userId ?? "");
+    if (error) return { error: new Error(error.message) };
+
+    queryClient.invalidateQueries({ queryKey: ["account-deletion", userId] });
+    return { error: null };
+  };
+
+  return {
+    purgeAfter: query.data ?? null,
+    loading: query.isPending && !!userId,
+    requestDeletion,
+    cancelDeletion,
+  };
+}
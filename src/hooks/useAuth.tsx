@@ -1,13 +1,19 @@
 import { createContext, useContext, useEffect, useState, ReactNode } from "react";
 import { User, Session } from "@supabase/supabase-js";
 import { supabase } from "@/integrations/supabase/client";
+import { PUBLIC_PROFILE_COLUMNS } from "@/lib/profiles";
 
 interface Profile {
   id: string;
   user_id: string;
   username: string;
+  handle: string;
   phone_number: string;
   profile_pic_url: string;
+  bio: string | null;
+  website_url: string | null;
+  twitter_handle: string | null;
+  instagram_handle: string | null;
   created_at: string;
 }
 
@@ -16,13 +22,24 @@ interface AuthContextType {
   session: Session | null;
   profile: Profile | null;
   loading: boolean;
-  signUp: (phone: string, password: string, username: string) => Promise<{ error: Error | null }>;
+  signUp: (phone: string, password: string, username: string, handle: string) => Promise<{ error: Error | null }>;
   signIn: (phone: string, password: string) => Promise<{ error: Error | null }>;
+  sendSignInCode: (phone: string) => Promise<{ error: Error | null }>;
+  resendSignUpCode: (phone: string) => Promise<{ error: Error | null }>;
+  verifyPhone: (phone: string, code: string) => Promise<{ error: Error | null }>;
+  sendReauthenticationCode: () => Promise<{ error: Error | null }>;
+  updatePassword: (password: string, code?: string) => Promise<{ error: Error | null }>;
+  changePhone: (phone: string) => Promise<{ error: Error | null }>;
+  verifyPhoneChange: (phone: string, code: string) => Promise<{ error: Error | null }>;
   signOut: () => Promise<void>;
+  refreshProfile: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+// Numbers are entered as 10-digit Indian mobile numbers
+const toE164 = (phone: string) => `+91${phone}`;
+
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
@@ -58,29 +75,29 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   }, []);
 
   const fetchProfile = async (userId: string) => {
+    // The phone number is only readable by its owner (RLS on private_profiles)
     const { data, error } = await supabase
       .from("profiles")
-      .select("*")
+      .select(`${PUBLIC_PROFILE_COLUMNS}, private_profiles(phone_number)`)
       .eq("user_id", userId)
       .maybeSingle();
 
     if (!error && data) {
-      setProfile(data);
+      const { private_profiles: privateProfile, ...publicProfile } = data;
+      setProfile({ ...publicProfile, phone_number: privateProfile?.phone_number ?? "" });
     }
   };
 
-  const signUp = async (phone: string, password: string, username: string) => {
-    const email = `${phone}@storypeek.local`;
-    const redirectUrl = `${window.location.origin}/`;
-
+  // Creates the account and texts a code to the number; the account can be
+  // used once the code has been entered (see verifyPhone)
+  const signUp = async (phone: string, password: string, username: string, handle: string) => {
     const { error } = await supabase.auth.signUp({
-      email,
+      phone: toE164(phone),
       password,
       options: {
-        emailRedirectTo: redirectUrl,
         data: {
           username,
-          phone_number: phone,
+          handle,
         },
       },
     });
@@ -89,16 +106,97 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   };
 
   const signIn = async (phone: string, password: string) => {
-    const email = `${phone}@storypeek.local`;
-
     const { error } = await supabase.auth.signInWithPassword({
-      email,
+      phone: toE164(phone),
       password,
     });
 
     return { error: error as Error | null };
   };
 
+  // Passwordless sign-in for existing accounts
+  const sendSignInCode = async (phone: string) => {
+    const { error } = await supabase.auth.signInWithOtp({
+      phone: toE164(phone),
+      options: { shouldCreateUser: false },
+    });
+
+    return { error: error as Error | null };
+  };
+
+  const resendSignUpCode = async (phone: string) => {
+    const { error } = await supabase.auth.resend({
+      type: "sms",
+      phone: toE164(phone),
+    });
+
+    return { error: error as Error | null };
+  };
+
+  // Confirms the number and signs in, for both sign-up and sign-in codes
+  const verifyPhone = async (phone: string, code: string) => {
+    const { error } = await supabase.auth.verifyOtp({
+      phone: toE164(phone),
+      token: code,
+      type: "sms",
+    });
+
+    return { error: error as Error | null };
+  };
+
+  // Texts a code to the signed-in user's number. Passing it to updatePassword
+  // confirms it's really them without signing in again, which would start
+  // another session
+  const sendReauthenticationCode = async () => {
+    const { error } = await supabase.auth.reauthenticate();
+
+    return { error: error as Error | null };
+  };
+
+  // Sets a new password for the signed-in user and signs out every other
+  // session, so a lost or stolen device can't keep using the account. Needs a
+  // reauthentication code unless the session just signed in with a texted
+  // code, as after a password reset
+  const updatePassword = async (password: string, code?: string) => {
+    const { error } = await supabase.auth.updateUser({ password, nonce: code });
+    if (error) {
+      return { error: error as Error };
+    }
+
+    const { error: signOutError } = await supabase.auth.signOut({ scope: "others" });
+    return { error: signOutError as Error | null };
+  };
+
+  // Texts a code to the new number; the account keeps the old number until
+  // the code is entered (see verifyPhoneChange)
+  const changePhone = async (phone: string) => {
+    const { error } = await supabase.auth.updateUser({ phone: toE164(phone) });
+
+    return { error: error as Error | null };
+  };
+
+  const verifyPhoneChange = async (phone: string, code: string) => {
+    const { error } = await supabase.auth.verifyOtp({
+      phone: toE164(phone),
+      token: code,
+      type: "phone_change",
+    });
+
+    if (!error && user) {
+      // private_profiles.phone_number is updated by a trigger on the auth user
+      await fetchProfile(user.id);
+    }
+
+    return { error: error as Error | null };
+  };
+
+  // Reload the signed-in user's profile after it has been edited
+  const refreshProfile = async () => {
+    if (user) {
+      await fetchProfile(user.id);
+    }
+  };
+
   const signOut = async () => {
     await supabase.auth.signOut();
     setUser(null);
@@ -115,7 +213,15 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         loading,
         signUp,
         signIn,
+        sendSignInCode,
+        resendSignUpCode,
+        verifyPhone,
+        sendReauthenticationCode,
+        updatePassword,
+        changePhone,
+        verifyPhoneChange,
         signOut,
+        refreshProfile,
       }}
     >
       {children}
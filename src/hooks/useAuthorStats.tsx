@@ -0,0 +1,74 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+type Functions = Database["public"]["Functions"];
+
+export type DailyStats = Functions["get_author_daily_stats"]["Returns"][number];
+export type PostStats = Functions["get_author_post_stats"]["Returns"][number];
+
+export interface StatsTotals {
+  views: number;
+  reads: number;
+  likes: number;
+  newFollowers: number;
+  followers: number;
+  // Share of signed-in views that reached the end of the story, 0 to 1, or
+  // null before anyone signed in has opened one
+  completionRate: number | null;
+}
+
+// Only signed-in readers can see a whole story, so anonymous views are left
+// out of the completion rate
+export function completionRate(stats: { reads: number; member_views: number }) {
+  return stats.member_views > 0 ? Math.min(stats.reads / stats.member_views, 1) : null;
+}
+
+function sumDailyStats(days: DailyStats[]): StatsTotals {
+  const sum = (key: keyof Omit<DailyStats, "day">) => days.reduce((total, day) => total + day[key], 0);
+  const reads = sum("reads");
+  const memberViews = sum("member_views");
+
+  return {
+    views: sum("views"),
+    reads,
+    likes: sum("likes"),
+    newFollowers: sum("new_followers"),
+    followers: days.length > 0 ? days[days.length - 1].followers : 0,
+    completionRate: completionRate({ reads, member_views: memberViews }),
+  };
+}
+
+// The signed-in author's numbers over the last periodDays days: one entry per
+// day, oldest first, and one per published story, most viewed first
+export function useAuthorStats(periodDays: number) {
+  const { user } = useAuth();
+  const userId = user?.id;
+
+  const query = useQuery({
+    queryKey: ["author-stats", userId, periodDays],
+    queryFn: async () => {
+      const [dailyResult, postsResult] = await Promise.all([
+        supabase.rpc("get_author_daily_stats", { period_days: periodDays }),
+        supabase.rpc("get_author_post_stats", { period_days: periodDays }),
+      ]);
+
+      if (dailyResult.error) throw new Error(dailyResult.error.message);
+      if (postsResult.error) throw new Error(postsResult.error.message);
+
+      return { days: dailyResult.data, posts: postsResult.data };
+    },
+    enabled: !!userId,
+  });
+
+  const days = query.data?.days ?? [];
+
+  return {
+    days,
+    posts: query.data?.posts ?? [],
+    totals: sumDailyStats(days),
+    loading: query.isPending && !!userId,
+    error: query.error,
+  };
+}
@@ -0,0 +1,68 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+export type AutosaveStatus = "idle" | "saving" | "saved" | "error";
+
+interface UseAutosaveOptions<T> {
+  data: T;
+  onSave: (data: T) => Promise<void>;
+  enabled?: boolean;
+  delay?: number;
+}
+
+// Saves `data` once it has stopped changing for `delay` ms. Saves never overlap:
+// a change made while a save is running is written after it finishes.
+// Changes made while disabled (e.g. loading an existing draft) count as saved.
+export function useAutosave<T>({ data, onSave, enabled = true, delay = 3000 }: UseAutosaveOptions<T>) {
+  const [status, setStatus] = useState<AutosaveStatus>("idle");
+  const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null);
+
+  const serialized = JSON.stringify(data);
+  const lastSavedRef = useRef(serialized);
+  const onSaveRef = useRef(onSave);
+  const pendingRef = useRef<Promise<void>>(Promise.resolve());
+  const timerRef = useRef<ReturnType<typeof setTimeout>>();
+
+  useEffect(() => {
+    onSaveRef.current = onSave;
+  }, [onSave]);
+
+  useEffect(() => {
+    if (!enabled) {
+      lastSavedRef.current = serialized;
+      return;
+    }
+
+    if (serialized === lastSavedRef.current) return;
+
+    const timer = setTimeout(() => {
+      timerRef.current = undefined;
+      pendingRef.current = pendingRef.current.then(async () => {
+        if (serialized === lastSavedRef.current) return;
+
+        setStatus("saving");
+        try {
+          await onSaveRef.current(JSON.parse(serialized) as T);
+          lastSavedRef.current = serialized;
+          setLastSavedAt(new Date());
+          setStatus("saved");
+        } catch {
+          setStatus("error");
+        }
+      });
+    }, delay);
+    timerRef.current = timer;
+
+    return () => clearTimeout(timer);
+  }, [serialized, enabled, delay]);
+
+  // Drops a save that is still waiting out its delay, so it can't run after
+  // the caller has written the data itself, and resolves once any save that
+  // is already running has finished
+  const cancelPendingSave = useCallback(() => {
+    clearTimeout(timerRef.current);
+    timerRef.current = undefined;
+    return pendingRef.current;
+  }, []);
+
+  return { status, lastSavedAt, cancelPendingSave };
+}
@@ -0,0 +1,80 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+
+export interface Genre {
+  id: string;
+  name: string;
+  slug: string;
+}
+
+export interface Tag {
+  id: string;
+  name: string;
+  slug: string;
+}
+
+export const MAX_TAGS = 5;
+export const MAX_TAG_LENGTH = 30;
+
+// The genre list rarely changes, so it is fetched once per session
+export function useGenres() {
+  const query = useQuery({
+    queryKey: ["genres"],
+    queryFn: async (): Promise<Genre[]> => {
+      const { data, error } = await supabase.from("genres").select("id, name, slug").order("name");
+      if (error) throw new Error(error.message);
+      return data;
+    },
+    staleTime: Infinity,
+  });
+
+  return { genres: query.data ?? [], loading: query.isPending };
+}
+
+// Tags used by the most published stories
+export function usePopularTags(limit = 12) {
+  const query = useQuery({
+    queryKey: ["tags", "popular", limit],
+    queryFn: async (): Promise<Tag[]> => {
+      const { data, error } = await supabase.rpc("get_popular_tags", { result_limit: limit });
+      if (error) throw new Error(error.message);
+      return data;
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+
+  return { tags: query.data ?? [], loading: query.isPending };
+}
+
+// Look up a genre or tag from the slug in a URL
+export function useCategory(kind: "genre" | "tag", slug: string | undefined) {
+  const query = useQuery({
+    queryKey: [kind === "genre" ? "genres" : "tags", "slug", slug],
+    queryFn: async (): Promise<Genre | Tag | null> => {
+      const { data, error } = await supabase
+        .from(kind === "genre" ? "genres" : "tags")
+        .select("id, name, slug")
+        .eq("slug", slug ?? "")
+        .maybeSingle();
+      if (error) throw new Error(error.message);
+      return data;
+    },
+    enabled: !!slug,
+  });
+
+  return { category: query.data ?? null, loading: query.isPending };
+}
+
+// Fetch a story's genre and tag names, e.g. to prefill the editor
+export async function fetchPostCategories(postId: string) {
+  const { data } = await supabase
+    .from("posts")
+    .select("genre_id, post_tags(tags(name))")
+    .eq("id", postId)
+    .maybeSingle();
+
+  return {
+    genreId: data?.genre_id ?? null,
+    tagNames: data?.post_tags.map((postTag) => postTag.tags.name) ?? [],
+  };
+}
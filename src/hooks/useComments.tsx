@@ -0,0 +1,231 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+
+interface CommentRow {
+  id: string;
+  post_id: string;
+  user_id: string;
+  parent_id: string | null;
+  root_id: string | null;
+  body: string;
+  created_at: string;
+  updated_at: string;
+  username: string;
+  profile_pic_url: string;
+}
+
+export interface Comment extends CommentRow {
+  replies: Comment[];
+}
+
+const THREADS_PER_PAGE = 10;
+
+// Each comment embeds its author through the comments -> profiles foreign key
+const COMMENT_COLUMNS =
+  "id, post_id, user_id, parent_id, root_id, body, created_at, updated_at, author:profiles(username, profile_pic_url)";
+
+function toCommentRows<T extends { author: { username: string; profile_pic_url: string | null } }>(
+  rows: T[]
+) {
+  return rows.map(({ author, ...comment }) => ({
+    ...comment,
+    username: author.username,
+    profile_pic_url: author.profile_pic_url ?? "",
+  }));
+}
+
+// Nest replies under their parents. Threads are newest first, replies oldest first.
+function buildThreads(rows: CommentRow[]): Comment[] {
+  const byId = new Map<string, Comment>(rows.map((row) => [row.id, { ...row, replies: [] }]));
+  const threads: Comment[] = [];
+
+  [...byId.values()]
+    .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+    .forEach((comment) => {
+      const parent = comment.parent_id ? byId.get(comment.parent_id) : undefined;
+      if (parent) {
+        parent.replies.push(comment);
+      } else if (!comment.parent_id) {
+        threads.push(comment);
+      }
+    });
+
+  return threads.reverse();
+}
+
+export function useComments(postId: string | undefined) {
+  const { user, profile } = useAuth();
+  const [rows, setRows] = useState<CommentRow[]>([]);
+  const [threadCount, setThreadCount] = useState(0);
+  const [totalCount, setTotalCount] = useState(0);
+  const [loadedThreads, setLoadedThreads] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const fetchThreads = useCallback(
+    async (offset: number) => {
+      if (!postId) return [];
+
+      const { data: threadsData, error: threadsError, count } = await supabase
+        .from("comments")
+        .select(COMMENT_COLUMNS, { count: "exact" })
+        .eq("post_id", postId)
+        .is("parent_id", null)
+        .order("created_at", { ascending: false })
+        .range(offset, offset + THREADS_PER_PAGE - 1);
+
+      if (threadsError) throw new Error(threadsError.message);
+
+      if (threadsData.length === 0) {
+        setThreadCount(count ?? 0);
+        return [];
+      }
+
+      // Every reply in these threads, however deep, shares the thread's root_id
+      const { data: repliesData, error: repliesError } = await supabase
+        .from("comments")
+        .select(COMMENT_COLUMNS)
+        .in("root_id", threadsData.map((c) => c.id));
+
+      if (repliesError) throw new Error(repliesError.message);
+
+      setThreadCount(count ?? 0);
+      setLoadedThreads(offset + threadsData.length);
+
+      return toCommentRows([...threadsData, ...repliesData]);
+    },
+    [postId]
+  );
+
+  const fetchTotalCount = useCallback(async () => {
+    if (!postId) return;
+
+    const { count } = await supabase
+      .from("comments")
+      .select("id", { count: "exact", head: true })
+      .eq("post_id", postId);
+
+    setTotalCount(count ?? 0);
+  }, [postId]);
+
+  useEffect(() => {
+    setLoading(true);
+    setError(null);
+    setRows([]);
+    setLoadedThreads(0);
+
+    fetchThreads(0)
+      .then(setRows)
+      .catch(setError)
+      .finally(() => setLoading(false));
+    fetchTotalCount();
+  }, [fetchThreads, fetchTotalCount]);
+
+  const loadMore = async () => {
+    setLoadingMore(true);
+    try {
+      const nextPage = await fetchThreads(loadedThreads);
+      setRows((current) => [...current, ...nextPage.filter((c) => !current.some((r) => r.id === c.id))]);
+      return { error: null };
+    } catch (err) {
+      return { error: err instanceof Error ? err : new Error("Failed to load responses") };
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const addComment = async (body: string, parentId: string | null = null) => {
+    if (!user || !postId) return { error: new Error("You must be signed in to comment") };
+
+    const { data, error } = await supabase
+      .from("comments")
+      .insert({ post_id: postId, user_id: user.id, parent_id: parentId, body: body.trim() })
+      .select("id, post_id, user_id, parent_id, root_id, body, created_at, updated_at")
+      .single();
+
+    if (error || !data) {
+      return { error: new Error(error?.message || "Failed to post comment") };
+    }
+
+    // The signed-in reader's own profile is already loaded, no need to refetch it
+    setRows((current) => [
+      ...current,
+      {
+        ...data,
+        username: profile?.username || "Anonymous",
+        profile_pic_url: profile?.profile_pic_url || "",
+      },
+    ]);
+    setTotalCount((count) => count + 1);
+    if (!parentId) {
+      setThreadCount((count) => count + 1);
+      setLoadedThreads((count) => count + 1);
+    }
+
+    return { error: null };
+  };
+
+  const updateComment = async (commentId: string, body: string) => {
+    const { data, error } = await supabase
+      .from("comments")
+      .update({ body: body.trim() })
+      .eq("id", commentId)
+      .select("body, updated_at")
+      .single();
+
+    if (error || !data) {
+      return { error: new Error(error?.message || "Failed to update comment") };
+    }
+
+    setRows((current) => current.map((c) => (c.id === commentId ? { ...c, ...data } : c)));
+    return { error: null };
+  };
+
+  const deleteComment = async (commentId: string) => {
+    const { error } = await supabase.from("comments").delete().eq("id", commentId);
+
+    if (error) {
+      return { error: new Error(error.message) };
+    }
+
+    // Replies are removed by the ON DELETE CASCADE, mirror that locally
+    const removed = new Set([commentId]);
+    let foundMore = true;
+    while (foundMore) {
+      foundMore = false;
+      rows.forEach((c) => {
+        if (c.parent_id && removed.has(c.parent_id) && !removed.has(c.id)) {
+          removed.add(c.id);
+          foundMore = true;
+        }
+      });
+    }
+
+    const removedThread = rows.some((c) => c.id === commentId && !c.parent_id);
+    setRows((current) => current.filter((c) => !removed.has(c.id)));
+    setTotalCount((count) => Math.max(0, count - removed.size));
+    if (removedThread) {
+      setThreadCount((count) => Math.max(0, count - 1));
+      setLoadedThreads((count) => Math.max(0, count - 1));
+    }
+
+    return { error: null };
+  };
+
+  const threads = useMemo(() => buildThreads(rows), [rows]);
+
+  return {
+    threads,
+    totalCount,
+    loading,
+    error,
+    loadingMore,
+    hasMore: loadedThreads < threadCount,
+    loadMore,
+    addComment,
+    updateComment,
+    deleteComment,
+  };
+}
@@ -0,0 +1,96 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { FEED_COLUMNS, toFeedPosts, type FeedPost } from "@/lib/posts";
+
+export interface FeaturedPost {
+  post: FeedPost;
+  blurb: string | null;
+  starts_at: string;
+  ends_at: string | null;
+  featured_by: { username: string; handle: string } | null;
+}
+
+export interface FeatureDetails {
+  blurb: string | null;
+  startsAt: string;
+  endsAt: string | null;
+}
+
+// Whether a pick is inside its time window, i.e. shown on the front page
+export function isFeatureLive(featured: Pick<FeaturedPost, "starts_at" | "ends_at">, now = Date.now()) {
+  return (
+    new Date(featured.starts_at).getTime() <= now &&
+    (!featured.ends_at || new Date(featured.ends_at).getTime() > now)
+  );
+}
+
+// Every pick, including scheduled and ended ones, newest window first. Only
+// published stories are included: RLS still shows authors their own drafts and
+// admins hidden stories, and those don't belong on the front page.
+export function useFeaturedPosts() {
+  const query = useQuery({
+    queryKey: ["posts", "featured"],
+    queryFn: async (): Promise<FeaturedPost[]> => {
+      const { data, error } = await supabase
+        .from("featured_posts")
+        .select(
+          `blurb, starts_at, ends_at, featured_by:profiles(username, handle), post:posts!inner(${FEED_COLUMNS})`
+        )
+        .eq("post.status", "published")
+        .order("starts_at", { ascending: false });
+
+      if (error) throw new Error(error.message);
+
+      return data.map(({ post, ...featured }) => ({ ...featured, post: toFeedPosts([post])[0] }));
+    },
+  });
+
+  return { featuredPosts: query.data ?? [], loading: query.isPending };
+}
+
+// Editor actions on any story. The database checks the caller is an editor.
+export function useEditorialActions() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const refreshStories = () => queryClient.invalidateQueries({ queryKey: ["posts"] });
+
+  // Features the story, or updates the blurb and window if it already is
+  const featurePost = async (postId: string, details: FeatureDetails) => {
+    if (!user) return { error: new Error("You must be signed in to feature stories") };
+
+    const { error } = await supabase.from("featured_posts").upsert({
+      post_id: postId,
+      featured_by: user.id,
+      blurb: details.blurb,
+      starts_at: details.startsAt,
+      ends_at: details.endsAt,
+    });
+    if (error) return { error: new Error(error.message) };
+
+    refreshStories();
+    return { error: null };
+  };
+
+  const unfeaturePost = async (postId: string) => {
+    const { error } = await supabase.from("featured_posts").delete().eq("post_id", postId);
+    if (error) return { error: new Error(error.message) };
+
+    refreshStories();
+    return { error: null };
+  };
+
+  // Sends the story back to its author's drafts, noted in the moderation log
+  const unpublishPost = async (postId: string, note: string) => {
+    const { error } = await supabase.rpc("unpublish_post", { target_post_id: postId, note });
+    if (error) return { error: new Error(error.message) };
+
+    refreshStories();
+    queryClient.invalidateQueries({ queryKey: ["series"] });
+    queryClient.invalidateQueries({ queryKey: ["moderation-log"] });
+    return { error: null };
+  };
+
+  return { featurePost, unfeaturePost, unpublishPost };
+}
@@ -0,0 +1,81 @@
+import { useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+
+// Follower/following counts for an author and whether the signed-in reader follows them
+export function useFollow(authorId: string | undefined) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [followerCount, setFollowerCount] = useState(0);
+  const [followingCount, setFollowingCount] = useState(0);
+  const [isFollowing, setIsFollowing] = useState(false);
+
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!authorId) return;
+
+    const fetchCounts = async () => {
+      const [{ count: followers }, { count: following }] = await Promise.all([
+        supabase
+          .from("follows")
+          .select("follower_id", { count: "exact", head: true })
+          .eq("following_id", authorId),
+        supabase
+          .from("follows")
+          .select("following_id", { count: "exact", head: true })
+          .eq("follower_id", authorId),
+      ]);
+
+      setFollowerCount(followers ?? 0);
+      setFollowingCount(following ?? 0);
+    };
+
+    fetchCounts();
+  }, [authorId]);
+
+  useEffect(() => {
+    if (!authorId || !userId || authorId === userId) {
+      setIsFollowing(false);
+      return;
+    }
+
+    const fetchState = async () => {
+      const { data } = await supabase
+        .from("follows")
+        .select("following_id")
+        .eq("follower_id", userId)
+        .eq("following_id", authorId)
+        .maybeSingle();
+
+      setIsFollowing(!!data);
+    };
+
+    fetchState();
+  }, [authorId, userId]);
+
+  const toggleFollow = async () => {
+    if (!authorId || !userId) return { error: new Error("You must be signed in to follow authors") };
+    if (authorId === userId) return { error: new Error("You can't follow yourself") };
+
+    const wasFollowing = isFollowing;
+    setIsFollowing(!wasFollowing);
+    setFollowerCount((count) => count + (wasFollowing ? -1 : 1));
+
+    const { error } = wasFollowing
+      ? await supabase.from("follows").delete().eq("follower_id", userId).eq("following_id", authorId)
+      : await supabase.from("follows").insert({ follower_id: userId, following_id: authorId });
+
+    if (error) {
+      setIsFollowing(wasFollowing);
+      setFollowerCount((count) => count + (wasFollowing ? 1 : -1));
+      return { error: new Error(error.message) };
+    }
+
+    queryClient.invalidateQueries({ queryKey: ["posts", "following"] });
+    return { error: null };
+  };
+
+  return { followerCount, followingCount, isFollowing, toggleFollow };
+}
@@ -0,0 +1,53 @@
+import { useCallback, useEffect, useRef } from "react";
+
+interface UseInfiniteScrollOptions {
+  hasMore: boolean;
+  loading: boolean;
+  onLoadMore: () => void;
+}
+
+// Calls onLoadMore when an element placed after the list scrolls into view
+export function useInfiniteScroll({ hasMore, loading, onLoadMore }: UseInfiniteScrollOptions) {
+  const observerRef = useRef<IntersectionObserver | null>(null);
+  const nodeRef = useRef<HTMLElement | null>(null);
+  const canLoadRef = useRef(false);
+  const onLoadMoreRef = useRef(onLoadMore);
+
+  useEffect(() => {
+    onLoadMoreRef.current = onLoadMore;
+  }, [onLoadMore]);
+
+  useEffect(() => {
+    canLoadRef.current = hasMore && !loading;
+
+    // Observing again reports the current intersection, so a short page that
+    // leaves the sentinel on screen still loads the next one
+    const node = nodeRef.current;
+    if (canLoadRef.current && node && observerRef.current) {
+      observerRef.current.unobserve(node);
+      observerRef.current.observe(node);
+    }
+  }, [hasMore, loading]);
+
+  const sentinelRef = useCallback((node: HTMLElement | null) => {
+    observerRef.current?.disconnect();
+    nodeRef.current = node;
+    if (!node) return;
+
+    // Start loading a little before the reader reaches the end of the list
+    observerRef.current = new IntersectionObserver(
+      ([entry]) => {
+        if (entry.isIntersecting && canLoadRef.current) {
+          canLoadRef.current = false;
+          onLoadMoreRef.current();
+        }
+      },
+      { rootMargin: "400px" }
+    );
+    observerRef.current.observe(node);
+  }, []);
+
+  useEffect(() => () => observerRef.current?.disconnect(), []);
+
+  return { sentinelRef };
+}
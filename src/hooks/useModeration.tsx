@@ -0,0 +1,234 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import type { ReportReason, ReportTarget } from "@/lib/reports";
+
+export type ModerationAction = Database["public"]["Enums"]["moderation_action"];
+
+const REPORT_COLUMNS =
+  "id, target_type, post_id, comment_id, reported_user_id, reason, details, created_at, reporter:profiles!reports_reporter_id_fkey(username, handle), post:posts(id, short_id, title, status, user_id, author:profiles(username, handle)), comment:comments(id, body, user_id, post:posts(id, short_id, title), author:profiles(username, handle)), reported_user:profiles!reports_reported_user_id_fkey(user_id, username, handle, profile_pic_url)";
+
+interface AuthorSummary {
+  username: string;
+  handle: string;
+}
+
+export interface Report {
+  id: string;
+  reason: ReportReason;
+  details: string | null;
+  created_at: string;
+  reporter: AuthorSummary | null;
+}
+
+// The open reports about one story, response or account
+export interface ReportGroup {
+  key: string;
+  target: ReportTarget;
+  // Whose content it is, so they can be suspended from the queue
+  ownerId: string;
+  post: {
+    id: string;
+    short_id: string;
+    title: string;
+    status: Database["public"]["Enums"]["post_status"];
+    author: AuthorSummary;
+  } | null;
+  comment: {
+    id: string;
+    body: string;
+    post: { id: string; short_id: string; title: string };
+    author: AuthorSummary;
+  } | null;
+  user: (AuthorSummary & { user_id: string; profile_pic_url: string | null }) | null;
+  reports: Report[];
+}
+
+export interface SuspendedUser {
+  user_id: string;
+  username: string;
+  handle: string;
+  profile_pic_url: string;
+  suspended_until: string;
+}
+
+export type ModerationRequest =
+  | { kind: "dismiss"; target: ReportTarget }
+  | { kind: "hide" | "unhide" | "remove"; postId: string }
+  | { kind: "allow_republish"; postId: string }
+  | { kind: "remove_comment"; commentId: string }
+  | { kind: "suspend"; userId: string; days: number | null }
+  | { kind: "unsuspend"; userId: string };
+
+// Open reports grouped by what they're about, oldest first. Reports about
+// stories, responses or accounts that have since been deleted are left out:
+// there is nothing left to act on.
+export function useReportQueue() {
+  const query = useQuery({
+    queryKey: ["reports", "open"],
+    queryFn: async (): Promise<ReportGroup[]> => {
+      const { data, error } = await supabase
+        .from("reports")
+        .select(REPORT_COLUMNS)
+        .eq("status", "open")
+        .order("created_at", { ascending: true });
+
+      if (error) throw new Error(error.message);
+
+      const groups = new Map<string, ReportGroup>();
+      for (const row of data) {
+        const targetId = row.post_id ?? row.comment_id ?? row.reported_user_id;
+        const ownerId = row.post?.user_id ?? row.comment?.user_id ?? row.reported_user?.user_id;
+        if (!targetId || !ownerId) continue;
+
+        const key = `${row.target_type}:${targetId}`;
+        const group = groups.get(key) ?? {
+          key,
+          target: { type: row.target_type, id: targetId },
+          ownerId,
+          post: row.post,
+          comment: row.comment,
+          user: row.reported_user,
+          reports: [],
+        };
+        group.reports.push({
+          id: row.id,
+          reason: row.reason,
+          details: row.details,
+          created_at: row.created_at,
+          reporter: row.reporter,
+        });
+        groups.set(key, group);
+      }
+
+      return [...groups.values()];
+    },
+  });
+
+  return { groups: query.data ?? [], loading: query.isPending };
+}
+
+// Stories taken down by a moderator, so they can be restored
+export function useHiddenPosts() {
+  const query = useQuery({
+    queryKey: ["posts", "hidden"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("posts")
+        .select("id, short_id, title, created_at, author:profiles(username, handle)")
+        .eq("status", "hidden")
+        .order("created_at", { ascending: false });
+
+      if (error) throw new Error(error.message);
+      return data;
+    },
+  });
+
+  return { hiddenPosts: query.data ?? [], loading: query.isPending };
+}
+
+// Stories editors unpublished, which their authors can't publish again until
+// that's lifted
+export function useUnpublishedPosts() {
+  const query = useQuery({
+    queryKey: ["posts", "unpublished"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("posts")
+        .select("id, short_id, title, unpublished_at, author:profiles(username, handle)")
+        .not("unpublished_at", "is", null)
+        .order("unpublished_at", { ascending: false });
+
+      if (error) throw new Error(error.message);
+      return data;
+    },
+  });
+
+  return { unpublishedPosts: query.data ?? [], loading: query.isPending };
+}
+
+export function useSuspendedUsers() {
+  const query = useQuery({
+    queryKey: ["suspended-users"],
+    queryFn: async (): Promise<SuspendedUser[]> => {
+      const { data, error } = await supabase.rpc("get_suspended_users");
+
+      if (error) throw new Error(error.message);
+      return data;
+    },
+  });
+
+  return { suspendedUsers: query.data ?? [], loading: query.isPending };
+}
+
+// The most recent moderation decisions, newest first
+export function useModerationLog(limit = 100) {
+  const query = useQuery({
+    queryKey: ["moderation-log", limit],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("moderation_log")
+        .select("id, action, target_type, target_id, target_summary, note, created_at, moderator:profiles(username, handle)")
+        .order("created_at", { ascending: false })
+        .limit(limit);
+
+      if (error) throw new Error(error.message);
+      return data;
+    },
+  });
+
+  return { entries: query.data ?? [], loading: query.isPending };
+}
+
+// Carry out a moderation decision; the database checks the caller is an
+// admin and writes the audit log entry
+export function useModerate() {
+  const queryClient = useQueryClient();
+
+  const runRequest = (request: ModerationRequest, note: string | null) => {
+    const withNote = note ? { note } : {};
+
+    switch (request.kind) {
+      case "dismiss":
+        return supabase.rpc("dismiss_reports", {
+          target_kind: request.target.type,
+          target_id: request.target.id,
+          ...withNote,
+        });
+      case "hide":
+      case "unhide":
+      case "remove":
+        return supabase.rpc("moderate_post", {
+          target_post_id: request.postId,
+          action: request.kind,
+          ...withNote,
+        });
+      case "allow_republish":
+        return supabase.rpc("allow_republishing", { target_post_id: request.postId, ...withNote });
+      case "remove_comment":
+        return supabase.rpc("remove_comment", { target_comment_id: request.commentId, ...withNote });
+      case "suspend":
+        return supabase.rpc("suspend_user", {
+          target_user_id: request.userId,
+          ...(request.days !== null && { suspend_days: request.days }),
+          ...withNote,
+        });
+      case "unsuspend":
+        return supabase.rpc("unsuspend_user", { target_user_id: request.userId, ...withNote });
+    }
+  };
+
+  const moderate = async (request: ModerationRequest, note: string) => {
+    const { error } = await runRequest(request, note.trim() || null);
+    if (error) return { error: new Error(error.message) };
+
+    // Hidden and removed stories drop out of every feed
+    queryClient.invalidateQueries({ queryKey: ["reports"] });
+    queryClient.invalidateQueries({ queryKey: ["posts"] });
+    queryClient.invalidateQueries({ queryKey: ["suspended-users"] });
+    queryClient.invalidateQueries({ queryKey: ["moderation-log"] });
+    return { error: null };
+  };
+
+  return { moderate };
+}
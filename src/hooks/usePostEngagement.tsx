@@ -0,0 +1,87 @@
+import { useEffect, useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+
+// Like and bookmark state for one story, toggled optimistically
+export function usePostEngagement(postId: string | undefined, initialLikeCount = 0) {
+  const { user } = useAuth();
+  const [likeCount, setLikeCount] = useState(initialLikeCount);
+  const [isLiked, setIsLiked] = useState(false);
+  const [isBookmarked, setIsBookmarked] = useState(false);
+
+  const userId = user?.id;
+
+  useEffect(() => {
+    setLikeCount(initialLikeCount);
+  }, [initialLikeCount]);
+
+  useEffect(() => {
+    if (!postId || !userId) {
+      setIsLiked(false);
+      setIsBookmarked(false);
+      return;
+    }
+
+    const fetchState = async () => {
+      const [{ data: likeData }, { data: bookmarkData }] = await Promise.all([
+        supabase
+          .from("post_likes")
+          .select("post_id")
+          .eq("post_id", postId)
+          .eq("user_id", userId)
+          .maybeSingle(),
+        supabase
+          .from("bookmarks")
+          .select("post_id")
+          .eq("post_id", postId)
+          .eq("user_id", userId)
+          .maybeSingle(),
+      ]);
+
+      setIsLiked(!!likeData);
+      setIsBookmarked(!!bookmarkData);
+    };
+
+    fetchState();
+  }, [postId, userId]);
+
+  const toggleLike = async () => {
+    if (!postId || !userId) return { error: new Error("You must be signed in to like stories") };
+
+    const wasLiked = isLiked;
+    setIsLiked(!wasLiked);
+    setLikeCount((count) => count + (wasLiked ? -1 : 1));
+
+    const { error } = wasLiked
+      ? await supabase.from("post_likes").delete().eq("post_id", postId).eq("user_id", userId)
+      : await supabase.from("post_likes").insert({ post_id: postId, user_id: userId });
+
+    if (error) {
+      setIsLiked(wasLiked);
+      setLikeCount((count) => count + (wasLiked ? 1 : -1));
+      return { error: new Error(error.message) };
+    }
+
+    return { error: null };
+  };
+
+  const toggleBookmark = async () => {
+    if (!postId || !userId) return { error: new Error("You must be signed in to save stories") };
+
+    const wasBookmarked = isBookmarked;
+    setIsBookmarked(!wasBookmarked);
+
+    const { error } = wasBookmarked
+      ? await supabase.from("bookmarks").delete().eq("post_id", postId).eq("user_id", userId)
+      : await supabase.from("bookmarks").insert({ post_id: postId, user_id: userId });
+
+    if (error) {
+      setIsBookmarked(wasBookmarked);
+      return { error: new Error(error.message) };
+    }
+
+    return { error: null };
+  };
+
+  return { likeCount, isLiked, isBookmarked, toggleLike, toggleBookmark };
+}
@@ -0,0 +1,131 @@
+import { useMemo } from "react";
+import { InfiniteData, QueryClient, useInfiniteQuery, useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { FEED_COLUMNS, FeedPost, toFeedPosts } from "@/lib/posts";
+
+export const FEED_PAGE_SIZE = 10;
+
+export interface FeedFilters {
+  authorId?: string;
+  genreId?: string;
+  tagId?: string;
+}
+
+// The last story of a page; the next page starts strictly after it
+export interface FeedCursor {
+  created_at: string;
+  id: string;
+}
+
+interface FeedPage {
+  posts: FeedPost[];
+  // Total number of stories in the feed, only counted for the first page
+  totalCount: number | null;
+  nextCursor: FeedCursor | null;
+}
+
+const fetchFeedPage = async (filters: FeedFilters, cursor: FeedCursor | null): Promise<FeedPage> => {
+  let query = supabase
+    .from("posts")
+    .select(FEED_COLUMNS, { count: cursor ? undefined : "exact" })
+    .eq("status", "published")
+    .order("created_at", { ascending: false })
+    .order("id", { ascending: false })
+    .limit(FEED_PAGE_SIZE);
+
+  if (filters.authorId) {
+    query = query.eq("user_id", filters.authorId);
+  }
+
+  if (filters.genreId) {
+    query = query.eq("genre_id", filters.genreId);
+  }
+
+  // Only keep stories that have a link to the tag
+  if (filters.tagId) {
+    query = query.eq("tagged.tag_id", filters.tagId).not("tagged", "is", null);
+  }
+
+  // Keyset pagination on (created_at, id) so pages stay stable while new stories arrive
+  if (cursor) {
+    query = query.or(
+      `created_at.lt.${cursor.created_at},and(created_at.eq.${cursor.created_at},id.lt.${cursor.id})`
+    );
+  }
+
+  const { data: postsData, error, count } = await query;
+  if (error) throw new Error(error.message);
+
+  const posts = toFeedPosts(postsData);
+  const last = posts[posts.length - 1];
+
+  return {
+    posts,
+    totalCount: count,
+    nextCursor: posts.length === FEED_PAGE_SIZE ? { created_at: last.created_at, id: last.id } : null,
+  };
+};
+
+// Published stories, newest first, loaded a page at a time. Filters narrow the
+// feed to an author, genre and/or tag. Pages are cached under ["posts", "feed", ...]
+// so they are shared between pages and refreshed together after edits.
+export function usePostFeed(filters: FeedFilters = {}, enabled = true) {
+  const { authorId, genreId, tagId } = filters;
+
+  const query = useInfiniteQuery({
+    queryKey: ["posts", "feed", { authorId, genreId, tagId }],
+    queryFn: ({ pageParam }) => fetchFeedPage({ authorId, genreId, tagId }, pageParam),
+    initialPageParam: null as FeedCursor | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled,
+  });
+
+  const posts = useMemo(() => query.data?.pages.flatMap((page) => page.posts) ?? [], [query.data]);
+
+  return {
+    posts,
+    totalCount: query.data?.pages[0]?.totalCount ?? posts.length,
+    loading: query.isPending,
+    hasMore: query.hasNextPage,
+    loadingMore: query.isFetchingNextPage,
+    loadMore: query.fetchNextPage,
+  };
+}
+
+const fetchRecentPosts = async (limit: number): Promise<FeedPost[]> => {
+  const { data: postsData, error } = await supabase
+    .from("posts")
+    .select(FEED_COLUMNS)
+    .eq("status", "published")
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (error) throw new Error(error.message);
+  return toFeedPosts(postsData);
+};
+
+// A bounded set of the newest stories, e.g. as candidates for recommendations
+export function useRecentPosts(limit: number, enabled = true) {
+  const query = useQuery({
+    queryKey: ["posts", "recent", limit],
+    queryFn: () => fetchRecentPosts(limit),
+    enabled,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  return { posts: query.data ?? [], loading: query.isPending };
+}
+
+// Look a story up in the feeds already in the cache, so opening it from a list
+// can render straight away while the fresh copy loads
+export function findCachedPost(queryClient: QueryClient, shortId: string): FeedPost | undefined {
+  const cached = queryClient.getQueriesData<InfiniteData<FeedPage> | FeedPost[]>({ queryKey: ["posts"] });
+
+  for (const [, data] of cached) {
+    const posts = Array.isArray(data) ? data : data?.pages?.flatMap((page) => page.posts);
+    const post = posts?.find((p) => p.short_id === shortId);
+    if (post) return post;
+  }
+
+  return undefined;
+}
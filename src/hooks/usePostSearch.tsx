@@ -0,0 +1,63 @@
+import { useMemo } from "react";
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+
+const SEARCH_PAGE_SIZE = 20;
+
+export interface SearchFilters {
+  genre?: string | null;
+  tag?: string | null;
+}
+
+const fetchSearchPage = async (query: string, filters: SearchFilters, offset: number) => {
+  const { data, error } = await supabase.rpc("search_posts", {
+    search_query: query,
+    result_limit: SEARCH_PAGE_SIZE,
+    result_offset: offset,
+    genre_slug: filters.genre ?? undefined,
+    tag_slug: filters.tag ?? undefined,
+  });
+
+  if (error) throw new Error(error.message);
+
+  // Each result carries its author's name, handle and picture
+  const results = data;
+
+  return {
+    results,
+    totalCount: data[0]?.total_count ?? 0,
+    nextOffset: results.length === SEARCH_PAGE_SIZE ? offset + SEARCH_PAGE_SIZE : null,
+  };
+};
+
+export type SearchResult = Awaited<ReturnType<typeof fetchSearchPage>>["results"][number];
+
+// Ranked full-text search over all published stories, optionally narrowed to a
+// genre and/or tag slug, a page at a time
+export function usePostSearch(query: string, filters: SearchFilters = {}) {
+  const trimmedQuery = query.trim();
+  const { genre = null, tag = null } = filters;
+
+  const searchQuery = useInfiniteQuery({
+    queryKey: ["posts", "search", trimmedQuery, { genre, tag }],
+    queryFn: ({ pageParam }) => fetchSearchPage(trimmedQuery, { genre, tag }, pageParam),
+    initialPageParam: 0,
+    getNextPageParam: (lastPage) => lastPage.nextOffset,
+    enabled: trimmedQuery.length > 0,
+  });
+
+  const results = useMemo(
+    () => searchQuery.data?.pages.flatMap((page) => page.results) ?? [],
+    [searchQuery.data]
+  );
+
+  return {
+    results,
+    totalCount: searchQuery.data?.pages[0]?.totalCount ?? 0,
+    loading: searchQuery.isLoading,
+    error: searchQuery.error,
+    hasMore: searchQuery.hasNextPage,
+    loadingMore: searchQuery.isFetchingNextPage,
+    loadMore: searchQuery.fetchNextPage,
+  };
+}
@@ -0,0 +1,81 @@
+import { useCallback, useEffect, useRef } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+
+type PostEventType = "view" | "read";
+
+const RECORDED_EVENTS_STORAGE_KEY = "storypeek_recorded_events";
+
+// Events already sent in this tab, so reloads and back-and-forth navigation
+// don't send them again
+function getRecordedEvents(): string[] {
+  try {
+    return JSON.parse(sessionStorage.getItem(RECORDED_EVENTS_STORAGE_KEY) ?? "[]");
+  } catch {
+    return [];
+  }
+}
+
+// Records a view when a story opens and a read once the reader reaches the end
+// of it. Authors reading their own stories aren't counted. Beyond the session
+// check here, record_post_event keeps one event per reader, story and type per
+// day, telling readers apart by account or, for anonymous ones, by address.
+export function usePostTracking(postId: string | undefined, authorId: string | undefined) {
+  const { user, loading: authLoading } = useAuth();
+  const readRecordedRef = useRef(false);
+  const observerRef = useRef<IntersectionObserver | null>(null);
+
+  const userId = user?.id;
+
+  const recordEvent = useCallback(
+    async (eventType: PostEventType) => {
+      if (!postId || !authorId || authorId === userId) return;
+
+      const sessionKey = `${postId}:${eventType}`;
+      const recordedEvents = getRecordedEvents();
+      if (recordedEvents.includes(sessionKey)) return;
+
+      const { error } = await supabase.rpc("record_post_event", {
+        target_post_id: postId,
+        event_type: eventType,
+      });
+      if (!error) {
+        sessionStorage.setItem(
+          RECORDED_EVENTS_STORAGE_KEY,
+          JSON.stringify([...recordedEvents, sessionKey])
+        );
+      }
+    },
+    [postId, authorId, userId]
+  );
+
+  useEffect(() => {
+    // Wait for auth so a signed-in reader isn't also counted anonymously
+    if (!postId || authLoading) return;
+
+    readRecordedRef.current = false;
+    recordEvent("view");
+  }, [postId, authLoading, recordEvent]);
+
+  // Attach to an element placed after the story text
+  const storyEndRef = useCallback(
+    (node: HTMLElement | null) => {
+      observerRef.current?.disconnect();
+      if (!node || !userId || userId === authorId) return;
+
+      observerRef.current = new IntersectionObserver(([entry]) => {
+        if (entry.isIntersecting && !readRecordedRef.current) {
+          readRecordedRef.current = true;
+          recordEvent("read");
+          observerRef.current?.disconnect();
+        }
+      });
+      observerRef.current.observe(node);
+    },
+    [userId, authorId, recordEvent]
+  );
+
+  useEffect(() => () => observerRef.current?.disconnect(), []);
+
+  return { storyEndRef };
+}
@@ -0,0 +1,128 @@
+import { useCallback, useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+
+// Positions are saved once the reader stops scrolling for this long
+const SAVE_DELAY_MS = 2000;
+// Saved positions this close to either end aren't worth offering to resume
+const MIN_RESUME_PROGRESS = 0.05;
+const MAX_RESUME_PROGRESS = 0.95;
+
+// How far the story text has been scrolled through, from 0 while its top is in
+// view to 1 once its end is
+function measureProgress(element: HTMLElement) {
+  const rect = element.getBoundingClientRect();
+  const scrollable = rect.height - window.innerHeight;
+  if (scrollable <= 0) return rect.bottom <= window.innerHeight ? 1 : 0;
+
+  return Math.min(Math.max(-rect.top / scrollable, 0), 1);
+}
+
+// Tracks how far the reader is through a story and, for signed-in readers,
+// saves it so they can continue where they left off next time. Only scrolling
+// saves a position, so opening a story doesn't overwrite where they were.
+export function useReadingProgress(postId: string | undefined) {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [storyElement, setStoryElement] = useState<HTMLElement | null>(null);
+  const [progress, setProgress] = useState(0);
+  const [resumed, setResumed] = useState(false);
+
+  const { data: savedProgress } = useQuery({
+    queryKey: ["reading-position", userId, postId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("reading_positions")
+        .select("progress")
+        .eq("user_id", userId ?? "")
+        .eq("post_id", postId ?? "")
+        .maybeSingle();
+
+      if (error) throw new Error(error.message);
+      return data?.progress ?? null;
+    },
+    enabled: !!userId && !!postId,
+    // Only where they were when the story opened; their current position
+    // isn't something to offer back to them mid-read
+    refetchOnWindowFocus: false,
+  });
+
+  useEffect(() => {
+    setProgress(0);
+    setResumed(false);
+  }, [postId]);
+
+  useEffect(() => {
+    if (!storyElement) return;
+
+    let frame = 0;
+    let saveTimer: number | undefined;
+    let pendingProgress: number | null = null;
+
+    const savePosition = async () => {
+      if (pendingProgress === null || !userId || !postId) return;
+
+      const position = pendingProgress;
+      pendingProgress = null;
+      // Losing a position isn't worth interrupting the reader for
+      await supabase
+        .from("reading_positions")
+        .upsert({ user_id: userId, post_id: postId, progress: position });
+    };
+
+    const update = (isScroll: boolean) => {
+      frame = 0;
+      const next = measureProgress(storyElement);
+      setProgress(next);
+
+      if (isScroll && userId) {
+        pendingProgress = next;
+        window.clearTimeout(saveTimer);
+        saveTimer = window.setTimeout(savePosition, SAVE_DELAY_MS);
+      }
+    };
+
+    const handleScroll = () => {
+      if (!frame) frame = requestAnimationFrame(() => update(true));
+    };
+    const handleResize = () => update(false);
+
+    update(false);
+    window.addEventListener("scroll", handleScroll, { passive: true });
+    window.addEventListener("resize", handleResize);
+
+    return () => {
+      window.removeEventListener("scroll", handleScroll);
+      window.removeEventListener("resize", handleResize);
+      cancelAnimationFrame(frame);
+      window.clearTimeout(saveTimer);
+      // Leaving the story saves straight away
+      savePosition();
+    };
+  }, [storyElement, postId, userId]);
+
+  const resumeProgress =
+    !resumed &&
+    savedProgress != null &&
+    savedProgress > MIN_RESUME_PROGRESS &&
+    savedProgress < MAX_RESUME_PROGRESS &&
+    progress < savedProgress
+      ? savedProgress
+      : null;
+
+  const resume = useCallback(() => {
+    setResumed(true);
+    if (!storyElement || resumeProgress === null) return;
+
+    const rect = storyElement.getBoundingClientRect();
+    const scrollable = rect.height - window.innerHeight;
+    window.scrollTo({
+      top: window.scrollY + rect.top + Math.max(scrollable, 0) * resumeProgress,
+      behavior: "smooth",
+    });
+  }, [storyElement, resumeProgress]);
+
+  // Attach storyRef to the element holding the story text
+  return { progress, resumeProgress, resume, storyRef: setStoryElement };
+}
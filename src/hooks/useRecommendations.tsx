@@ -79,27 +79,3 @@ export function useRecommendations<T extends RecommendablePost>(
     return scored.slice(0, limit).map((item) => item.post);
   }, [currentPost, allPosts, limit]);
 }
-
-// Hook to get trending posts based on recency
-export function useTrendingPosts<T extends RecommendablePost>(
-  posts: T[],
-  limit: number = 5
-): T[] {
-  return useMemo(() => {
-    const now = new Date().getTime();
-    const hourMs = 1000 * 60 * 60;
-
-    // Score based on recency (exponential decay)
-    const scored = posts.map((post) => {
-      const ageHours = (now - new Date(post.created_at).getTime()) / hourMs;
-      // Higher score for newer posts
-      const recencyScore = Math.exp(-ageHours / 168); // Decay over ~1 week
-      return { post, score: recencyScore };
-    });
-
-    return scored
-      .sort((a, b) => b.score - a.score)
-      .slice(0, limit)
-      .map((item) => item.post);
-  }, [posts, limit]);
-}
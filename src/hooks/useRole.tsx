@@ -0,0 +1,38 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type AppRole = Database["public"]["Enums"]["app_role"];
+
+// Roles granted to the signed-in user. Admins can do everything editors can,
+// matching is_editor() in the database. This only decides what to show; RLS
+// and the database functions enforce the permissions.
+export function useRole() {
+  const { user } = useAuth();
+  const userId = user?.id;
+
+  const query = useQuery({
+    queryKey: ["roles", userId],
+    queryFn: async (): Promise<AppRole[]> => {
+      const { data, error } = await supabase
+        .from("user_roles")
+        .select("role")
+        .eq("user_id", userId ?? "");
+
+      if (error) throw new Error(error.message);
+      return data.map((row) => row.role);
+    },
+    enabled: !!userId,
+  });
+
+  const roles = query.data ?? [];
+  const isAdmin = roles.includes("admin");
+
+  return {
+    roles,
+    isAdmin,
+    isEditor: isAdmin || roles.includes("editor"),
+    loading: query.isPending && !!userId,
+  };
+}
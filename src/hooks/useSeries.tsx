@@ -0,0 +1,81 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+
+export interface SeriesChapter {
+  id: string;
+  short_id: string;
+  title: string;
+  content_preview: string;
+  status: "draft" | "scheduled" | "published" | "hidden";
+  series_position: number | null;
+  created_at: string;
+}
+
+export interface Series {
+  id: string;
+  user_id: string;
+  title: string;
+  description: string | null;
+  created_at: string;
+  chapters: SeriesChapter[];
+}
+
+// Readers only see published chapters (RLS on posts); the author also sees
+// their drafts, scheduled chapters and chapters hidden by moderators
+const SERIES_COLUMNS =
+  "id, user_id, title, description, created_at, chapters:posts(id, short_id, title, content_preview, status, series_position, created_at)";
+
+export function useSeries(seriesId: string | null | undefined) {
+  const query = useQuery({
+    queryKey: ["series", seriesId],
+    queryFn: async (): Promise<Series | null> => {
+      const { data, error } = await supabase
+        .from("series")
+        .select(SERIES_COLUMNS)
+        .eq("id", seriesId ?? "")
+        .order("series_position", { referencedTable: "chapters" })
+        .maybeSingle();
+
+      if (error) throw new Error(error.message);
+      return data;
+    },
+    enabled: !!seriesId,
+  });
+
+  return { series: query.data ?? null, loading: query.isPending && !!seriesId };
+}
+
+export function useAuthorSeries(userId: string | undefined) {
+  const query = useQuery({
+    queryKey: ["series", "author", userId],
+    queryFn: async (): Promise<Series[]> => {
+      const { data, error } = await supabase
+        .from("series")
+        .select(SERIES_COLUMNS)
+        .eq("user_id", userId ?? "")
+        .order("created_at", { ascending: false })
+        .order("series_position", { referencedTable: "chapters" });
+
+      if (error) throw new Error(error.message);
+      return data;
+    },
+    enabled: !!userId,
+  });
+
+  return { seriesList: query.data ?? [], loading: query.isPending && !!userId };
+}
+
+// Create a series for the signed-in author and return its id
+export async function createSeries(userId: string, title: string) {
+  const { data, error } = await supabase
+    .from("series")
+    .insert({ user_id: userId, title: title.trim() })
+    .select("id")
+    .single();
+
+  if (error || !data) {
+    throw new Error(error?.message || "Failed to create series");
+  }
+
+  return data.id;
+}
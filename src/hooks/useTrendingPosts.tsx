@@ -0,0 +1,36 @@
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+
+export type TrendingWindow = "today" | "week" | "all";
+
+export interface TrendingPost {
+  id: string;
+  short_id: string;
+  user_id: string;
+  title: string;
+  content_preview: string;
+  image_url: string | null;
+  created_at: string;
+  score: number;
+}
+
+// Trending stories are ranked server-side (see the trending_posts materialized
+// view) so every reader sees the same list for a given window
+export function useTrendingPosts(timeWindow: TrendingWindow, limit: number = 5) {
+  const query = useQuery({
+    queryKey: ["posts", "trending", timeWindow, limit],
+    queryFn: async (): Promise<TrendingPost[]> => {
+      const { data, error } = await supabase.rpc("get_trending_posts", {
+        time_window: timeWindow,
+        result_limit: limit,
+      });
+      if (error) throw new Error(error.message);
+      return data;
+    },
+    // Keep the current list up while another window loads, so the section
+    // doesn't vanish and reappear
+    placeholderData: keepPreviousData,
+  });
+
+  return { trendingPosts: query.data ?? [], loading: query.isPending };
+}
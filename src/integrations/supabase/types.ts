@@ -14,72 +14,1075 @@ export type Database = {
   }
   public: {
     Tables: {
-      posts: {
+      account_deletions: {
+        Row: {
+          purge_after: string
+          requested_at: string
+          user_id: string
+        }
+        Insert: {
+          purge_after?: string
+          requested_at?: string
+          user_id: string
+        }
+        Update: {
+          purge_after?: string
+          requested_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      bookmarks: {
+        Row: {
+          created_at: string
+          post_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          post_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          post_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bookmarks_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      comments: {
+        Row: {
+          body: string
+          created_at: string
+          id: string
+          parent_id: string | null
+          post_id: string
+          root_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          id?: string
+          parent_id?: string | null
+          post_id: string
+          root_id?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          id?: string
+          parent_id?: string | null
+          post_id?: string
+          root_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "comments_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "comments_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "comments_root_id_fkey"
+            columns: ["root_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "comments_user_id_profiles_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      featured_posts: {
+        Row: {
+          blurb: string | null
+          created_at: string
+          ends_at: string | null
+          featured_by: string | null
+          post_id: string
+          starts_at: string
+        }
+        Insert: {
+          blurb?: string | null
+          created_at?: string
+          ends_at?: string | null
+          featured_by?: string | null
+          post_id: string
+          starts_at?: string
+        }
+        Update: {
+          blurb?: string | null
+          created_at?: string
+          ends_at?: string | null
+          featured_by?: string | null
+          post_id?: string
+          starts_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "featured_posts_featured_by_fkey"
+            columns: ["featured_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "featured_posts_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: true
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      follows: {
+        Row: {
+          created_at: string
+          follower_id: string
+          following_id: string
+        }
+        Insert: {
+          created_at?: string
+          follower_id: string
+          following_id: string
+        }
+        Update: {
+          created_at?: string
+          follower_id?: string
+          following_id?: string
+        }
+        Relationships: []
+      }
+      genres: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          slug: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          slug: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          slug?: string
+        }
+        Relationships: []
+      }
+      moderation_log: {
+        Row: {
+          action: Database["public"]["Enums"]["moderation_action"]
+          created_at: string
+          id: string
+          moderator_id: string | null
+          note: string | null
+          target_id: string
+          target_summary: string
+          target_type: Database["public"]["Enums"]["report_target"]
+        }
+        Insert: {
+          action: Database["public"]["Enums"]["moderation_action"]
+          created_at?: string
+          id?: string
+          moderator_id?: string | null
+          note?: string | null
+          target_id: string
+          target_summary: string
+          target_type: Database["public"]["Enums"]["report_target"]
+        }
+        Update: {
+          action?: Database["public"]["Enums"]["moderation_action"]
+          created_at?: string
+          id?: string
+          moderator_id?: string | null
+          note?: string | null
+          target_id?: string
+          target_summary?: string
+          target_type?: Database["public"]["Enums"]["report_target"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "moderation_log_moderator_id_fkey"
+            columns: ["moderator_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      post_contents: {
+        Row: {
+          content_full: string
+          post_id: string
+          user_id: string
+        }
+        Insert: {
+          content_full: string
+          post_id: string
+          user_id: string
+        }
+        Update: {
+          content_full?: string
+          post_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "post_contents_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: true
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      post_daily_stats: {
+        Row: {
+          day: string
+          member_views: number
+          post_id: string
+          reads: number
+          views: number
+        }
+        Insert: {
+          day: string
+          member_views?: number
+          post_id: string
+          reads?: number
+          views?: number
+        }
+        Update: {
+          day?: string
+          member_views?: number
+          post_id?: string
+          reads?: number
+          views?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "post_daily_stats_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      post_events: {
+        Row: {
+          created_at: string
+          event_date: string
+          event_type: Database["public"]["Enums"]["post_event_type"]
+          id: string
+          post_id: string
+          reader_key: string
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          event_date?: string
+          event_type: Database["public"]["Enums"]["post_event_type"]
+          id?: string
+          post_id: string
+          reader_key: string
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          event_date?: string
+          event_type?: Database["public"]["Enums"]["post_event_type"]
+          id?: string
+          post_id?: string
+          reader_key?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "post_events_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      post_likes: {
+        Row: {
+          created_at: string
+          post_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          post_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          post_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "post_likes_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      post_revisions: {
         Row: {
           content_full: string
+          created_at: string
+          id: string
+          post_id: string
+          title: string
+          user_id: string
+        }
+        Insert: {
+          content_full: string
+          created_at?: string
+          id?: string
+          post_id: string
+          title: string
+          user_id: string
+        }
+        Update: {
+          content_full?: string
+          created_at?: string
+          id?: string
+          post_id?: string
+          title?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "post_revisions_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      post_search_documents: {
+        Row: {
+          document: unknown
+          post_id: string
+        }
+        Insert: {
+          document: unknown
+          post_id: string
+        }
+        Update: {
+          document?: unknown
+          post_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "post_search_documents_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: true
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      post_tags: {
+        Row: {
+          post_id: string
+          tag_id: string
+        }
+        Insert: {
+          post_id: string
+          tag_id: string
+        }
+        Update: {
+          post_id?: string
+          tag_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "post_tags_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "post_tags_tag_id_fkey"
+            columns: ["tag_id"]
+            isOneToOne: false
+            referencedRelation: "tags"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      posts: {
+        Row: {
+          comment_count: number
           content_preview: string
           created_at: string
+          genre_id: string | null
           id: string
           image_url: string | null
+          like_count: number
+          publish_at: string | null
+          reading_minutes: number
+          series_id: string | null
+          series_position: number | null
+          short_id: string
+          status: Database["public"]["Enums"]["post_status"]
           title: string
+          unpublished_at: string | null
           user_id: string
+          word_count: number
         }
         Insert: {
-          content_full: string
+          comment_count?: number
           content_preview: string
           created_at?: string
+          genre_id?: string | null
           id?: string
           image_url?: string | null
+          like_count?: number
+          publish_at?: string | null
+          reading_minutes?: number
+          series_id?: string | null
+          series_position?: number | null
+          short_id?: string
+          status?: Database["public"]["Enums"]["post_status"]
           title: string
+          unpublished_at?: string | null
           user_id: string
+          word_count?: number
         }
         Update: {
-          content_full?: string
+          comment_count?: number
           content_preview?: string
           created_at?: string
+          genre_id?: string | null
           id?: string
           image_url?: string | null
+          like_count?: number
+          publish_at?: string | null
+          reading_minutes?: number
+          series_id?: string | null
+          series_position?: number | null
+          short_id?: string
+          status?: Database["public"]["Enums"]["post_status"]
           title?: string
+          unpublished_at?: string | null
           user_id?: string
+          word_count?: number
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "posts_genre_id_fkey"
+            columns: ["genre_id"]
+            isOneToOne: false
+            referencedRelation: "genres"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "posts_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "series"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "posts_user_id_profiles_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      private_profiles: {
+        Row: {
+          phone_number: string
+          user_id: string
+        }
+        Insert: {
+          phone_number: string
+          user_id: string
+        }
+        Update: {
+          phone_number?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "private_profiles_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
       }
       profiles: {
         Row: {
+          bio: string | null
           created_at: string
+          handle: string
           id: string
-          phone_number: string
+          instagram_handle: string | null
           profile_pic_url: string | null
+          twitter_handle: string | null
+          updated_at: string
           user_id: string
           username: string
+          website_url: string | null
         }
         Insert: {
+          bio?: string | null
           created_at?: string
+          handle: string
           id?: string
-          phone_number: string
+          instagram_handle?: string | null
           profile_pic_url?: string | null
+          twitter_handle?: string | null
+          updated_at?: string
           user_id: string
           username: string
+          website_url?: string | null
         }
         Update: {
+          bio?: string | null
           created_at?: string
+          handle?: string
           id?: string
-          phone_number?: string
+          instagram_handle?: string | null
           profile_pic_url?: string | null
+          twitter_handle?: string | null
+          updated_at?: string
           user_id?: string
           username?: string
+          website_url?: string | null
+        }
+        Relationships: []
+      }
+      reading_positions: {
+        Row: {
+          post_id: string
+          progress: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          post_id: string
+          progress: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          post_id?: string
+          progress?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reading_positions_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reports: {
+        Row: {
+          comment_id: string | null
+          created_at: string
+          details: string | null
+          id: string
+          post_id: string | null
+          reason: Database["public"]["Enums"]["report_reason"]
+          reported_user_id: string | null
+          reporter_id: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          status: Database["public"]["Enums"]["report_status"]
+          target_type: Database["public"]["Enums"]["report_target"]
+        }
+        Insert: {
+          comment_id?: string | null
+          created_at?: string
+          details?: string | null
+          id?: string
+          post_id?: string | null
+          reason: Database["public"]["Enums"]["report_reason"]
+          reported_user_id?: string | null
+          reporter_id?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: Database["public"]["Enums"]["report_status"]
+          target_type: Database["public"]["Enums"]["report_target"]
+        }
+        Update: {
+          comment_id?: string | null
+          created_at?: string
+          details?: string | null
+          id?: string
+          post_id?: string | null
+          reason?: Database["public"]["Enums"]["report_reason"]
+          reported_user_id?: string | null
+          reporter_id?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: Database["public"]["Enums"]["report_status"]
+          target_type?: Database["public"]["Enums"]["report_target"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reports_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reports_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reports_reported_user_id_fkey"
+            columns: ["reported_user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "reports_reporter_id_fkey"
+            columns: ["reporter_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      reserved_handles: {
+        Row: {
+          handle: string
+        }
+        Insert: {
+          handle: string
+        }
+        Update: {
+          handle?: string
+        }
+        Relationships: []
+      }
+      series: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          title: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      sms_outbox: {
+        Row: {
+          body: string
+          created_at: string
+          id: string
+          phone: string
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          id?: string
+          phone: string
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          id?: string
+          phone?: string
+        }
+        Relationships: []
+      }
+      tags: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          slug: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          slug: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          slug?: string
+        }
+        Relationships: []
+      }
+      user_roles: {
+        Row: {
+          created_at: string
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
         }
         Relationships: []
       }
     }
     Views: {
-      [_ in never]: never
+      trending_posts: {
+        Row: {
+          comments: number | null
+          likes: number | null
+          post_id: string | null
+          reads: number | null
+          score: number | null
+          time_window: string | null
+          views: number | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
-      [_ in never]: never
+      allow_republishing: {
+        Args: { note?: string; target_post_id: string }
+        Returns: undefined
+      }
+      build_search_query: { Args: { search_query: string }; Returns: unknown }
+      count_words: { Args: { content: string }; Returns: number }
+      dismiss_reports: {
+        Args: {
+          note?: string
+          target_id: string
+          target_kind: Database["public"]["Enums"]["report_target"]
+        }
+        Returns: undefined
+      }
+      generate_handle: { Args: { base: string }; Returns: string }
+      get_author_daily_stats: {
+        Args: { period_days?: number }
+        Returns: {
+          day: string
+          followers: number
+          likes: number
+          member_views: number
+          new_followers: number
+          reads: number
+          views: number
+        }[]
+      }
+      get_author_post_stats: {
+        Args: { period_days?: number }
+        Returns: {
+          comment_count: number
+          created_at: string
+          like_count: number
+          member_views: number
+          post_id: string
+          reads: number
+          short_id: string
+          title: string
+          views: number
+        }[]
+      }
+      get_following_feed: {
+        Args: {
+          before_created_at?: string
+          before_id?: string
+          page_size?: number
+        }
+        Returns: {
+          comment_count: number
+          content_preview: string
+          created_at: string
+          genre_id: string | null
+          id: string
+          image_url: string | null
+          like_count: number
+          publish_at: string | null
+          reading_minutes: number
+          series_id: string | null
+          series_position: number | null
+          short_id: string
+          status: Database["public"]["Enums"]["post_status"]
+          title: string
+          user_id: string
+          word_count: number
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "posts"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      get_my_sessions: {
+        Args: never
+        Returns: {
+          created_at: string
+          id: string
+          ip: string
+          is_current: boolean
+          last_active_at: string
+          user_agent: string
+        }[]
+      }
+      get_popular_tags: {
+        Args: { result_limit?: number }
+        Returns: {
+          id: string
+          name: string
+          post_count: number
+          slug: string
+        }[]
+      }
+      get_suspended_users: {
+        Args: never
+        Returns: {
+          handle: string
+          profile_pic_url: string
+          suspended_until: string
+          user_id: string
+          username: string
+        }[]
+      }
+      get_trending_posts: {
+        Args: { result_limit?: number; time_window?: string }
+        Returns: {
+          content_preview: string
+          created_at: string
+          id: string
+          image_url: string
+          score: number
+          short_id: string
+          title: string
+          user_id: string
+        }[]
+      }
+      has_role: {
+        Args: {
+          _role: Database["public"]["Enums"]["app_role"]
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      is_editor: { Args: { _user_id: string }; Returns: boolean }
+      is_handle_available: { Args: { candidate: string }; Returns: boolean }
+      is_phone_available: { Args: { candidate: string }; Returns: boolean }
+      match_post_documents: {
+        Args: {
+          genre_slug?: string
+          result_limit?: number
+          result_offset?: number
+          search_query: string
+          tag_slug?: string
+        }
+        Returns: {
+          post_id: string
+          rank: number
+          total_count: number
+        }[]
+      }
+      moderate_post: {
+        Args: { action: string; note?: string; target_post_id: string }
+        Returns: undefined
+      }
+      post_search_document: {
+        Args: { content_full: string; content_preview: string; title: string }
+        Returns: unknown
+      }
+      publish_scheduled_posts: { Args: never; Returns: undefined }
+      record_editorial_action: {
+        Args: {
+          _action: Database["public"]["Enums"]["moderation_action"]
+          _note: string
+          _target_id: string
+          _target_summary: string
+          _target_type: Database["public"]["Enums"]["report_target"]
+        }
+        Returns: undefined
+      }
+      record_moderation: {
+        Args: {
+          _action: Database["public"]["Enums"]["moderation_action"]
+          _note: string
+          _report_status?: Database["public"]["Enums"]["report_status"]
+          _target_id: string
+          _target_summary: string
+          _target_type: Database["public"]["Enums"]["report_target"]
+        }
+        Returns: undefined
+      }
+      record_post_event: {
+        Args: {
+          event_type: Database["public"]["Enums"]["post_event_type"]
+          target_post_id: string
+        }
+        Returns: undefined
+      }
+      refresh_post_search_document: {
+        Args: { target_post_id: string }
+        Returns: undefined
+      }
+      refresh_trending_posts: { Args: never; Returns: undefined }
+      remove_comment: {
+        Args: { note?: string; target_comment_id: string }
+        Returns: undefined
+      }
+      reorder_series_chapters: {
+        Args: { chapter_ids: string[]; target_series_id: string }
+        Returns: undefined
+      }
+      request_account_deletion: { Args: never; Returns: string }
+      revoke_session: {
+        Args: { target_session_id: string }
+        Returns: undefined
+      }
+      search_posts: {
+        Args: {
+          genre_slug?: string
+          result_limit?: number
+          result_offset?: number
+          search_query: string
+          tag_slug?: string
+        }
+        Returns: {
+          comment_count: number
+          content_preview: string
+          created_at: string
+          handle: string
+          id: string
+          image_url: string
+          like_count: number
+          profile_pic_url: string
+          rank: number
+          short_id: string
+          snippet: string
+          title: string
+          title_highlight: string
+          total_count: number
+          user_id: string
+          username: string
+        }[]
+      }
+      set_post_tags: {
+        Args: { tag_names: string[]; target_post_id: string }
+        Returns: undefined
+      }
+      slugify: { Args: { value: string }; Returns: string }
+      suspend_user: {
+        Args: { note?: string; suspend_days?: number; target_user_id: string }
+        Returns: undefined
+      }
+      unpublish_post: {
+        Args: { note?: string; target_post_id: string }
+        Returns: undefined
+      }
+      unsuspend_user: {
+        Args: { note?: string; target_user_id: string }
+        Returns: undefined
+      }
     }
     Enums: {
-      [_ in never]: never
+      app_role: "admin" | "editor"
+      moderation_action:
+        | "dismiss_reports"
+        | "hide_post"
+        | "unhide_post"
+        | "remove_post"
+        | "remove_comment"
+        | "suspend_user"
+        | "unsuspend_user"
+        | "unpublish_post"
+        | "allow_republish"
+      post_event_type: "view" | "read"
+      post_status: "draft" | "scheduled" | "published" | "hidden"
+      report_reason:
+        | "spam"
+        | "harassment"
+        | "hate_speech"
+        | "sexual_content"
+        | "violence"
+        | "plagiarism"
+        | "other"
+      report_status: "open" | "resolved" | "dismissed"
+      report_target: "post" | "comment" | "user"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -206,6 +1209,32 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      app_role: ["admin", "editor"],
+      moderation_action: [
+        "dismiss_reports",
+        "hide_post",
+        "unhide_post",
+        "remove_post",
+        "remove_comment",
+        "suspend_user",
+        "unsuspend_user",
+        "unpublish_post",
+        "allow_republish",
+      ],
+      post_event_type: ["view", "read"],
+      post_status: ["draft", "scheduled", "published", "hidden"],
+      report_reason: [
+        "spam",
+        "harassment",
+        "hate_speech",
+        "sexual_content",
+        "violence",
+        "plagiarism",
+        "other",
+      ],
+      report_status: ["open", "resolved", "dismissed"],
+      report_target: ["post", "comment", "user"],
+    },
   },
 } as const
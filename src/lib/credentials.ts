@@ -0,0 +1,14 @@
+import { z } from "zod";
+
+// Accounts are tied to Indian mobile numbers, entered without the +91
+export const phoneSchema = z.string().regex(/^[6-9][0-9]{9}$/, {
+  message: "Enter a valid 10-digit Indian mobile number starting with 6-9",
+});
+
+export const passwordSchema = z
+  .string()
+  .min(8, { message: "Password must be at least 8 characters" })
+  .regex(/[0-9]/, { message: "Password must contain at least 1 number" })
+  .regex(/[!@#$%^&*(),.?":{}|<>]/, {
+    message: "Password must contain at least 1 special character",
+  });
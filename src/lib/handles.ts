@@ -0,0 +1,31 @@
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+
+// Handles are stored lowercased, so "Rahul" and "rahul" are the same handle
+export const handleSchema = z
+  .string()
+  .trim()
+  .transform((value) => value.replace(/^@/, "").toLowerCase())
+  .pipe(
+    z
+      .string()
+      .min(3, { message: "Handle must be at least 3 characters" })
+      .max(30, { message: "Handle must be at most 30 characters" })
+      .regex(/^[a-z0-9_]+$/, {
+        message: "Handle can only contain letters, numbers and underscores",
+      })
+  );
+
+// Reserved words and taken handles are only known to the database
+export async function isHandleAvailable(handle: string) {
+  const { data, error } = await supabase.rpc("is_handle_available", { candidate: handle });
+
+  if (error) throw new Error(error.message);
+  return data;
+}
+
+// Profile URLs use the handle when it is known and fall back to the user id,
+// which redirects to the handle URL
+export function authorPath(handle: string | null | undefined, userId: string) {
+  return handle ? `/@${handle}` : `/author/${userId}`;
+}
@@ -0,0 +1,36 @@
+// Convert Markdown story text into plain text for previews, cards and search
+export function stripMarkdown(markdown: string): string {
+  return (
+    markdown
+      // Images are dropped entirely, links keep their label
+      .replace(/!\[[^\]]*\]\([^)]*\)/g, "")
+      .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+      // Scene breaks / horizontal rules
+      .replace(/^\s*([-*_])(\s*\1){2,}\s*$/gm, "")
+      // Headings, block quotes and list markers
+      .replace(/^\s{0,3}#{1,6}\s+/gm, "")
+      .replace(/^\s{0,3}>\s?/gm, "")
+      .replace(/^\s*([-*+]|\d+\.)\s+/gm, "")
+      // Inline code, bold, italic and strikethrough
+      .replace(/`([^`]*)`/g, "$1")
+      .replace(/(\*\*|__)(.*?)\1/g, "$2")
+      .replace(/(\*|_)(.*?)\1/g, "$2")
+      .replace(/~~(.*?)~~/g, "$1")
+      // Any raw HTML that slipped in
+      .replace(/<[^>]+>/g, "")
+      .replace(/\n{3,}/g, "\n\n")
+      .trim()
+  );
+}
+
+// Take approximately 25% of the story (at least 30 words) as plain-text preview
+export function generatePreview(markdown: string): string {
+  const words = stripMarkdown(markdown).split(/\s+/).filter(Boolean);
+  const previewWordCount = Math.max(30, Math.floor(words.length * 0.25));
+
+  if (words.length <= previewWordCount) {
+    return words.join(" ");
+  }
+
+  return words.slice(0, previewWordCount).join(" ") + "...";
+}
@@ -0,0 +1,87 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { PostRef } from "@/lib/slugs";
+
+// Story cards everywhere (feeds, the story page, the reading list) are loaded
+// with the same columns and shaped the same way, in a single request: the
+// author comes from the posts -> profiles foreign key and the genre and tags
+// from their link tables. "tagged" is a second copy of the tag links that is
+// only used to filter feeds by tag.
+export const FEED_COLUMNS =
+  "id, short_id, user_id, title, content_preview, image_url, created_at, like_count, comment_count, word_count, reading_minutes, series_id, author:profiles(user_id, username, handle, profile_pic_url), genres(name, slug), post_tags(tags(name, slug)), tagged:post_tags(tag_id)";
+
+export interface Category {
+  name: string;
+  slug: string;
+}
+
+export interface FeedPost {
+  id: string;
+  short_id: string;
+  user_id: string;
+  title: string;
+  content_preview: string;
+  image_url: string | null;
+  created_at: string;
+  like_count: number;
+  comment_count: number;
+  word_count: number;
+  reading_minutes: number;
+  series_id: string | null;
+  genre: Category | null;
+  tags: Category[];
+  username: string;
+  handle: string;
+  profile_pic_url: string;
+}
+
+interface FeedRow {
+  author: { username: string; handle: string; profile_pic_url: string | null };
+  genres: Category | null;
+  post_tags: { tags: Category }[];
+  tagged: { tag_id: string }[];
+}
+
+// "6 min read". Stories are counted at 200 words a minute when saved.
+export const formatReadingTime = (minutes: number) => `${minutes} min read`;
+
+// Flatten the embedded author, genre and tag rows onto each story
+export function toFeedPosts<T extends FeedRow>(rows: T[]) {
+  return rows.map(({ author, genres, post_tags, tagged: _tagged, ...post }) => ({
+    ...post,
+    genre: genres,
+    tags: post_tags.map((postTag) => postTag.tags),
+    username: author.username,
+    handle: author.handle,
+    profile_pic_url: author.profile_pic_url ?? "",
+  }));
+}
+
+// A published story by its short id or, for old links, its full id
+export async function fetchPost(ref: PostRef): Promise<FeedPost | null> {
+  const query = supabase.from("posts").select(FEED_COLUMNS).eq("status", "published");
+
+  const { data, error } = await ("shortId" in ref
+    ? query.eq("short_id", ref.shortId)
+    : query.eq("id", ref.id)
+  ).maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return data ? toFeedPosts([data])[0] : null;
+}
+
+// Published stories in the order of the given ids; ids of stories that are
+// gone or no longer published are skipped
+export async function fetchPostsByIds(ids: string[]): Promise<FeedPost[]> {
+  if (ids.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from("posts")
+    .select(FEED_COLUMNS)
+    .in("id", ids)
+    .eq("status", "published");
+
+  if (error) throw new Error(error.message);
+
+  const postsById = new Map(toFeedPosts(data).map((post) => [post.id, post]));
+  return ids.map((id) => postsById.get(id)).filter((post) => !!post);
+}
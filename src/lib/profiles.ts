@@ -0,0 +1,10 @@
+// Profiles are public, so queries list their columns instead of using "*".
+// Private details such as the phone number live in private_profiles, which
+// only the owner can read.
+
+// Enough to show an author's byline and link to their page
+export const AUTHOR_COLUMNS = "user_id, username, handle, profile_pic_url";
+
+// Everything shown on an author page
+export const PUBLIC_PROFILE_COLUMNS =
+  "id, user_id, username, handle, profile_pic_url, bio, website_url, twitter_handle, instagram_handle, created_at";
@@ -0,0 +1,38 @@
+import type { Database } from "@/integrations/supabase/types";
+
+export type ReportReason = Database["public"]["Enums"]["report_reason"];
+export type ReportTargetType = Database["public"]["Enums"]["report_target"];
+
+export interface ReportTarget {
+  type: ReportTargetType;
+  id: string;
+}
+
+export const MAX_REPORT_DETAILS_LENGTH = 1000;
+
+// The reports column that holds the id of each kind of target
+export const REPORT_TARGET_COLUMNS = {
+  post: "post_id",
+  comment: "comment_id",
+  user: "reported_user_id",
+} as const;
+
+export const REPORT_TARGET_LABELS: Record<ReportTargetType, string> = {
+  post: "story",
+  comment: "response",
+  user: "account",
+};
+
+export const REPORT_REASONS: { value: ReportReason; label: string; description: string }[] = [
+  { value: "spam", label: "Spam", description: "Advertising, scams or repeated posts" },
+  { value: "harassment", label: "Harassment", description: "Bullying, threats or targeting someone" },
+  { value: "hate_speech", label: "Hate speech", description: "Attacks on people for who they are" },
+  { value: "sexual_content", label: "Sexual content", description: "Explicit or sexualised material" },
+  { value: "violence", label: "Violence", description: "Graphic violence or encouraging harm" },
+  { value: "plagiarism", label: "Plagiarism", description: "Someone else's work posted as their own" },
+  { value: "other", label: "Something else", description: "Tell us what's wrong in the details" },
+];
+
+export function reportReasonLabel(reason: ReportReason) {
+  return REPORT_REASONS.find((option) => option.value === reason)?.label ?? reason;
+}
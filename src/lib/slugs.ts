@@ -0,0 +1,127 @@
+// Story URLs look like /post/<title-slug>-<short_id>. Only the short id is
+// used to find the story; the slug is rebuilt from the current title so links
+// read well and old slugs can be redirected after a title edit.
+
+const MAX_SLUG_LENGTH = 60;
+const SHORT_ID_PATTERN = /^[0-9a-z]{8}$/;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Devanagari consonants without their inherent vowel
+const CONSONANTS: Record<string, string> = {
+  क: "k", ख: "kh", ग: "g", घ: "gh", ङ: "n",
+  च: "ch", छ: "chh", ज: "j", झ: "jh", ञ: "n",
+  ट: "t", ठ: "th", ड: "d", ढ: "dh", ण: "n",
+  त: "t", थ: "th", द: "d", ध: "dh", न: "n",
+  प: "p", फ: "ph", ब: "b", भ: "bh", म: "m",
+  य: "y", र: "r", ल: "l", ळ: "l", व: "v",
+  श: "sh", ष: "sh", स: "s", ह: "h",
+  क़: "q", ख़: "kh", ग़: "gh", ज़: "z", ड़: "r", ढ़: "rh", फ़: "f", य़: "y",
+};
+
+const VOWELS: Record<string, string> = {
+  अ: "a", आ: "a", इ: "i", ई: "i", उ: "u", ऊ: "u", ऋ: "ri",
+  ए: "e", ऐ: "ai", ओ: "o", औ: "au", ऑ: "o", ऍ: "e",
+};
+
+// Vowel signs that replace a consonant's inherent "a"
+const VOWEL_SIGNS: Record<string, string> = {
+  "ा": "a", "ि": "i", "ी": "i", "ु": "u", "ू": "u", "ृ": "ri",
+  "े": "e", "ै": "ai", "ो": "o", "ौ": "au", "ॉ": "o", "ॅ": "e",
+};
+
+const DEVANAGARI = /[\u0900-\u097F]/;
+const VIRAMA = "्";
+const NUKTA = "़";
+// Anusvara, chandrabindu and visarga
+const MARKS: Record<string, string> = { "ं": "n", "ँ": "n", "ः": "h" };
+
+// Romanise Devanagari (Hindi, Marathi, ...) the way it is commonly typed, e.g.
+// "मेरी कहानी" -> "meri kahani": long and short vowels are spelled alike and
+// the inherent "a" is dropped at the end of a word, which is right for Hindi
+// far more often than not.
+export function transliterateDevanagari(text: string): string {
+  const chars = [...text.normalize("NFC")];
+  let result = "";
+
+  for (let i = 0; i < chars.length; i++) {
+    const startsWord = i === 0 || !DEVANAGARI.test(chars[i - 1]);
+    let char = chars[i];
+
+    // Combine a consonant with a following nukta (e.g. ज + ़ = ज़)
+    if (chars[i + 1] === NUKTA && CONSONANTS[char + NUKTA]) {
+      char += NUKTA;
+      i++;
+    }
+
+    const consonant = CONSONANTS[char];
+    if (consonant !== undefined) {
+      const next = chars[i + 1];
+      if (next === VIRAMA) {
+        result += consonant;
+        i++;
+      } else if (next !== undefined && VOWEL_SIGNS[next] !== undefined) {
+        result += consonant + VOWEL_SIGNS[next];
+        i++;
+      } else {
+        const endsWord =
+          next === undefined ||
+          (CONSONANTS[next] === undefined && VOWELS[next] === undefined && MARKS[next] === undefined);
+        // Single-letter words such as "न" keep their vowel
+        result += endsWord && !startsWord ? consonant : consonant + "a";
+      }
+      continue;
+    }
+
+    if (VOWELS[char] !== undefined) {
+      result += VOWELS[char];
+    } else if (MARKS[char] !== undefined) {
+      result += MARKS[char];
+    } else if (char >= "०" && char <= "९") {
+      result += String(char.charCodeAt(0) - "०".charCodeAt(0));
+    } else if (char === "।" || char === "॥") {
+      result += " ";
+    } else if (char !== NUKTA && char !== VIRAMA) {
+      result += char;
+    }
+  }
+
+  return result;
+}
+
+// URL-safe slug from a story title. Accents are stripped from Latin letters,
+// Devanagari is romanised and anything else (other scripts, emoji) is dropped,
+// falling back to "story" when nothing readable is left.
+export function slugify(title: string): string {
+  const slug = transliterateDevanagari(title)
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/['’]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+  if (!slug) return "story";
+  if (slug.length <= MAX_SLUG_LENGTH) return slug;
+
+  // Cut at a word boundary where possible
+  const cut = slug.slice(0, MAX_SLUG_LENGTH);
+  const lastDash = cut.lastIndexOf("-");
+  return lastDash > MAX_SLUG_LENGTH / 2 ? cut.slice(0, lastDash) : cut;
+}
+
+export function postPath(post: { title: string; short_id: string }) {
+  return `/post/${slugify(post.title)}-${post.short_id}`;
+}
+
+export type PostRef = { shortId: string } | { id: string };
+
+// Work out which story a /post/:slugId URL points to. Links from before
+// slugs existed use the full story id.
+export function parsePostParam(param: string): PostRef | null {
+  if (UUID_PATTERN.test(param)) {
+    return { id: param.toLowerCase() };
+  }
+
+  const shortId = param.slice(param.lastIndexOf("-") + 1).toLowerCase();
+  return SHORT_ID_PATTERN.test(shortId) ? { shortId } : null;
+}
@@ -0,0 +1,469 @@
+import { useEffect, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
+import { z } from "zod";
+import { Header } from "@/components/Header";
+import { DeleteAccountDialog } from "@/components/DeleteAccountDialog";
+import { PhoneCodeForm } from "@/components/PhoneCodeForm";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useAuth } from "@/hooks/useAuth";
+import { useAccountDeletion, useSessions } from "@/hooks/useAccount";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { passwordSchema, phoneSchema } from "@/lib/credentials";
+import { Loader2, Monitor, Smartphone } from "lucide-react";
+
+const changePasswordSchema = z
+  .object({
+    newPassword: passwordSchema,
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.newPassword === data.confirmPassword, {
+    message: "Passwords don't match",
+    path: ["confirmPassword"],
+  });
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleString("en-IN", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+// Checked in order: Edge and Opera also claim to be Chrome, Chrome claims Safari
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, "Edge"],
+  [/OPR\//, "Opera"],
+  [/Firefox\//, "Firefox"],
+  [/Chrome\//, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+
+const PLATFORMS: [RegExp, string][] = [
+  [/Android/, "Android"],
+  [/iPhone|iPad/, "iOS"],
+  [/Windows/, "Windows"],
+  [/Mac OS X/, "macOS"],
+  [/Linux/, "Linux"],
+];
+
+// "Chrome on Android" from a user agent string, good enough to recognise a device
+function describeDevice(userAgent: string | null) {
+  if (!userAgent) return "Unknown device";
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1] ?? "Browser";
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  return platform ? `${browser} on ${platform}` : browser;
+}
+
+const isMobile = (userAgent: string | null) => !!userAgent && /Android|iPhone|iPad|Mobile/.test(userAgent);
+
+export default function AccountSettings() {
+  const {
+    user,
+    profile,
+    loading: authLoading,
+    signOut,
+    sendReauthenticationCode,
+    updatePassword,
+    changePhone,
+    verifyPhoneChange,
+  } = useAuth();
+  const { sessions, loading: sessionsLoading, revokeSession, revokeOtherSessions } = useSessions();
+  const { purgeAfter, requestDeletion } = useAccountDeletion();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [passwordErrors, setPasswordErrors] = useState<Record<string, string>>({});
+  const [isSendingPasswordCode, setIsSendingPasswordCode] = useState(false);
+  const [passwordCodeSent, setPasswordCodeSent] = useState(false);
+
+  const [newPhone, setNewPhone] = useState("");
+  const [phoneError, setPhoneError] = useState("");
+  const [isSendingCode, setIsSendingCode] = useState(false);
+  const [pendingPhone, setPendingPhone] = useState<string | null>(null);
+
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [deleteOpen, setDeleteOpen] = useState(false);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate("/auth");
+    }
+  }, [user, authLoading, navigate]);
+
+  // The new password is only set once the code texted to the account's number
+  // is entered (see handleVerifyPassword)
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const result = changePasswordSchema.safeParse({ newPassword, confirmPassword });
+    if (!result.success) {
+      const fieldErrors: Record<string, string> = {};
+      result.error.errors.forEach((err) => {
+        const field = err.path[0] as string;
+        fieldErrors[field] = err.message;
+      });
+      setPasswordErrors(fieldErrors);
+      return;
+    }
+
+    setPasswordErrors({});
+    setIsSendingPasswordCode(true);
+
+    const { error } = await sendReauthenticationCode();
+    if (error) {
+      toast({
+        title: "Couldn't send a code",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      setPasswordCodeSent(true);
+    }
+
+    setIsSendingPasswordCode(false);
+  };
+
+  const handleVerifyPassword = async (code: string) => {
+    const result = await updatePassword(newPassword, code);
+    if (!result.error) {
+      queryClient.invalidateQueries({ queryKey: ["sessions"] });
+      setPasswordCodeSent(false);
+      setNewPassword("");
+      setConfirmPassword("");
+      toast({
+        title: "Password changed",
+        description: "You've been signed out everywhere else",
+      });
+    }
+    return result;
+  };
+
+  const handleChangePhone = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const result = phoneSchema.safeParse(newPhone);
+    if (!result.success) {
+      setPhoneError(result.error.errors[0].message);
+      return;
+    }
+    if (newPhone === profile?.phone_number) {
+      setPhoneError("This is already your number");
+      return;
+    }
+
+    setPhoneError("");
+    setIsSendingCode(true);
+
+    try {
+      const { data: available, error: availabilityError } = await supabase.rpc("is_phone_available", {
+        candidate: newPhone,
+      });
+      if (availabilityError) throw new Error(availabilityError.message);
+      if (!available) {
+        setPhoneError("Another account already uses this number");
+        return;
+      }
+
+      const { error } = await changePhone(newPhone);
+      if (error) throw error;
+
+      setPendingPhone(newPhone);
+    } catch (error) {
+      toast({
+        title: "Couldn't send a code",
+        description: error instanceof Error ? error.message : "Something went wrong",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSendingCode(false);
+    }
+  };
+
+  const handleVerifyPhone = async (code: string) => {
+    if (!pendingPhone) return { error: null };
+
+    const result = await verifyPhoneChange(pendingPhone, code);
+    if (!result.error) {
+      setPendingPhone(null);
+      setNewPhone("");
+      toast({
+        title: "Phone number changed",
+        description: `Use +91 ${pendingPhone} to sign in from now on`,
+      });
+    }
+    return result;
+  };
+
+  const handleRevoke = async (sessionId: string | null) => {
+    setRevokingId(sessionId ?? "others");
+
+    const { error } = sessionId ? await revokeSession(sessionId) : await revokeOtherSessions();
+    if (error) {
+      toast({
+        title: "Couldn't sign out",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+
+    setRevokingId(null);
+  };
+
+  const handleRequestDeletion = async () => {
+    const { error } = await requestDeletion();
+    if (error) {
+      toast({
+        title: "Couldn't delete account",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Account scheduled for deletion",
+      description: "If you change your mind, sign back in within 14 days and choose Keep my account",
+    });
+    await signOut();
+    navigate("/");
+  };
+
+  if (authLoading || (user && !profile)) {
+    return (
+      <>
+        <Header />
+        <main className="min-h-screen bg-background flex items-center justify-center">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </main>
+      </>
+    );
+  }
+
+  if (!user || !profile) {
+    return null;
+  }
+
+  const otherSessionCount = sessions.filter((session) => !session.is_current).length;
+
+  return (
+    <>
+      <Header />
+      <main className="min-h-screen bg-background">
+        <div className="container max-w-2xl py-8">
+          <header className="mb-8">
+            <h1 className="font-serif text-3xl font-bold text-foreground mb-2">
+              Account Settings
+            </h1>
+            <p className="text-muted-foreground">
+              Sign-in details and devices. Your name, bio and picture are in{" "}
+              <Link to="/settings/profile" className="text-primary hover:underline">
+                your profile
+              </Link>
+            </p>
+          </header>
+
+          <div className="space-y-10">
+            {/* Password */}
+            <section>
+              <h2 className="font-serif text-xl font-semibold text-foreground mb-4">Password</h2>
+              {passwordCodeSent ? (
+                <PhoneCodeForm
+                  phone={profile.phone_number}
+                  onVerify={handleVerifyPassword}
+                  onResend={sendReauthenticationCode}
+                  onBack={() => setPasswordCodeSent(false)}
+                  backLabel="Edit password"
+                  submitLabel="Change password"
+                />
+              ) : (
+                <form onSubmit={handleChangePassword} className="space-y-4">
+                  <div className="grid gap-4 sm:grid-cols-2">
+                    <div className="space-y-2">
+                      <Label htmlFor="new-password">New password</Label>
+                      <Input
+                        id="new-password"
+                        type="password"
+                        placeholder="Min 8 chars, 1 number, 1 special"
+                        value={newPassword}
+                        onChange={(e) => setNewPassword(e.target.value)}
+                        className={passwordErrors.newPassword ? "border-destructive" : ""}
+                        autoComplete="new-password"
+                      />
+                      {passwordErrors.newPassword && (
+                        <p className="text-sm text-destructive">{passwordErrors.newPassword}</p>
+                      )}
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="confirm-password">Confirm new password</Label>
+                      <Input
+                        id="confirm-password"
+                        type="password"
+                        value={confirmPassword}
+                        onChange={(e) => setConfirmPassword(e.target.value)}
+                        className={passwordErrors.confirmPassword ? "border-destructive" : ""}
+                        autoComplete="new-password"
+                      />
+                      {passwordErrors.confirmPassword && (
+                        <p className="text-sm text-destructive">{passwordErrors.confirmPassword}</p>
+                      )}
+                    </div>
+                  </div>
+
+                  <div className="flex items-center justify-between gap-4">
+                    <p className="text-xs text-muted-foreground">
+                      We'll text a code to +91 {profile.phone_number} to confirm it's you
+                    </p>
+                    <Button type="submit" variant="cta" disabled={isSendingPasswordCode}>
+                      {isSendingPasswordCode ? <Loader2 className="h-4 w-4 animate-spin" /> : "Send code"}
+                    </Button>
+                  </div>
+                </form>
+              )}
+            </section>
+
+            {/* Phone number */}
+            <section>
+              <h2 className="font-serif text-xl font-semibold text-foreground mb-1">Phone number</h2>
+              <p className="text-sm text-muted-foreground mb-4">
+                You sign in with +91 {profile.phone_number}
+              </p>
+
+              {pendingPhone ? (
+                <PhoneCodeForm
+                  phone={pendingPhone}
+                  onVerify={handleVerifyPhone}
+                  onResend={() => changePhone(pendingPhone)}
+                  onBack={() => setPendingPhone(null)}
+                  submitLabel="Change number"
+                />
+              ) : (
+                <form onSubmit={handleChangePhone} className="space-y-2">
+                  <Label htmlFor="new-phone">New mobile number</Label>
+                  <div className="flex gap-2">
+                    <div className="flex items-center justify-center px-3 bg-muted border border-input rounded-md text-sm text-muted-foreground">
+                      +91
+                    </div>
+                    <Input
+                      id="new-phone"
+                      type="tel"
+                      placeholder="Enter 10-digit number"
+                      value={newPhone}
+                      onChange={(e) => setNewPhone(e.target.value.replace(/\D/g, "").slice(0, 10))}
+                      className={`flex-1 ${phoneError ? "border-destructive" : ""}`}
+                      maxLength={10}
+                    />
+                    <Button type="submit" variant="outline" disabled={isSendingCode}>
+                      {isSendingCode ? <Loader2 className="h-4 w-4 animate-spin" /> : "Send code"}
+                    </Button>
+                  </div>
+                  {phoneError ? (
+                    <p className="text-sm text-destructive">{phoneError}</p>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">
+                      We'll text a code to the new number to confirm it's yours
+                    </p>
+                  )}
+                </form>
+              )}
+            </section>
+
+            {/* Sessions */}
+            <section>
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="font-serif text-xl font-semibold text-foreground">Where you're signed in</h2>
+                {otherSessionCount > 0 && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRevoke(null)}
+                    disabled={revokingId !== null}
+                  >
+                    Sign out other devices
+                  </Button>
+                )}
+              </div>
+
+              {sessionsLoading ? (
+                <div className="flex justify-center py-6">
+                  <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                </div>
+              ) : (
+                <ul className="divide-y divide-border border border-border rounded-lg">
+                  {sessions.map((session) => {
+                    const DeviceIcon = isMobile(session.user_agent) ? Smartphone : Monitor;
+
+                    return (
+                      <li key={session.id} className="flex items-center gap-3 p-4">
+                        <DeviceIcon className="h-5 w-5 text-muted-foreground shrink-0" />
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm font-medium text-foreground">
+                            {describeDevice(session.user_agent)}
+                            {session.is_current && (
+                              <Badge variant="secondary" className="ml-2 align-middle">
+                                This device
+                              </Badge>
+                            )}
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            {session.ip && `${session.ip} · `}Last active {formatDate(session.last_active_at)}
+                          </p>
+                        </div>
+                        {!session.is_current && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleRevoke(session.id)}
+                            disabled={revokingId !== null}
+                          >
+                            {revokingId === session.id ? (
+                              <Loader2 className="h-4 w-4 animate-spin" />
+                            ) : (
+                              "Sign out"
+                            )}
+                          </Button>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </section>
+
+            {/* Delete account */}
+            {!purgeAfter && (
+              <section>
+                <h2 className="font-serif text-xl font-semibold text-foreground mb-1">Delete account</h2>
+                <p className="text-sm text-muted-foreground mb-4">
+                  Your stories, comments and uploaded images are removed 14 days after you ask,
+                  unless you sign back in and cancel.
+                </p>
+                <Button variant="destructive" onClick={() => setDeleteOpen(true)}>
+                  Delete my account
+                </Button>
+              </section>
+            )}
+          </div>
+        </div>
+      </main>
+
+      <DeleteAccountDialog
+        open={deleteOpen}
+        onOpenChange={setDeleteOpen}
+        handle={profile.handle}
+        onConfirm={handleRequestDeletion}
+      />
+    </>
+  );
+}
@@ -1,30 +1,22 @@
 import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { Link, useNavigate } from "react-router-dom";
 import { z } from "zod";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
+import { phoneSchema, passwordSchema } from "@/lib/credentials";
+import { handleSchema, isHandleAvailable } from "@/lib/handles";
 import { Header } from "@/components/Header";
+import { PhoneCodeForm } from "@/components/PhoneCodeForm";
 import { Eye, EyeOff } from "lucide-react";
 
-const phoneSchema = z.string().regex(/^[6-9][0-9]{9}$/, {
-  message: "Enter a valid 10-digit Indian mobile number starting with 6-9",
-});
-
-const passwordSchema = z
-  .string()
-  .min(8, { message: "Password must be at least 8 characters" })
-  .regex(/[0-9]/, { message: "Password must contain at least 1 number" })
-  .regex(/[!@#$%^&*(),.?":{}|<>]/, {
-    message: "Password must contain at least 1 special character",
-  });
-
 const signupSchema = z.object({
   phone: phoneSchema,
   password: passwordSchema,
   username: z.string().min(3, { message: "Username must be at least 3 characters" }),
+  handle: handleSchema,
 });
 
 const loginSchema = z.object({
@@ -32,16 +24,26 @@ const loginSchema = z.object({
   password: z.string().min(1, { message: "Password is required" }),
 });
 
+const codeLoginSchema = z.object({
+  phone: phoneSchema,
+});
+
+// Which flow a texted code belongs to
+type PendingCode = "signup" | "signin";
+
 export default function Auth() {
   const [isLogin, setIsLogin] = useState(true);
+  const [useCode, setUseCode] = useState(false);
+  const [pendingCode, setPendingCode] = useState<PendingCode | null>(null);
   const [phone, setPhone] = useState("");
   const [password, setPassword] = useState("");
   const [username, setUsername] = useState("");
+  const [handle, setHandle] = useState("");
   const [showPassword, setShowPassword] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
 
-  const { signIn, signUp, user } = useAuth();
+  const { signIn, signUp, sendSignInCode, resendSignUpCode, verifyPhone, user } = useAuth();
   const navigate = useNavigate();
   const { toast } = useToast();
 
@@ -52,8 +54,12 @@ export default function Auth() {
   }, [user, navigate]);
 
   const validateForm = () => {
-    const schema = isLogin ? loginSchema : signupSchema;
-    const data = isLogin ? { phone, password } : { phone, password, username };
+    const schema = !isLogin ? signupSchema : useCode ? codeLoginSchema : loginSchema;
+    const data = !isLogin
+      ? { phone, password, username, handle }
+      : useCode
+      ? { phone }
+      : { phone, password };
 
     const result = schema.safeParse(data);
     if (!result.success) {
@@ -78,10 +84,19 @@ export default function Auth() {
     setIsSubmitting(true);
 
     try {
-      if (isLogin) {
+      if (isLogin && useCode) {
+        await requestSignInCode();
+      } else if (isLogin) {
         const { error } = await signIn(phone, password);
         if (error) {
-          if (error.message.includes("Invalid login credentials")) {
+          if (error.message.includes("Phone not confirmed")) {
+            // Accounts from before phone verification confirm their number once
+            toast({
+              title: "Verify your number",
+              description: "Enter the code we text you to finish signing in",
+            });
+            await requestSignInCode();
+          } else if (error.message.includes("Invalid login credentials")) {
             toast({
               title: "Login failed",
               description: "Invalid phone number or password",
@@ -102,7 +117,13 @@ export default function Auth() {
           navigate("/");
         }
       } else {
-        const { error } = await signUp(phone, password, username);
+        const normalizedHandle = handleSchema.parse(handle);
+        if (!(await isHandleAvailable(normalizedHandle))) {
+          setErrors({ handle: "This handle is taken or reserved, try another" });
+          return;
+        }
+
+        const { error } = await signUp(phone, password, username, normalizedHandle);
         if (error) {
           if (error.message.includes("User already registered")) {
             toast({
@@ -118,18 +139,88 @@ export default function Auth() {
             });
           }
         } else {
-          toast({
-            title: "Account created!",
-            description: "Welcome to StoryPeek",
-          });
-          navigate("/");
+          setPendingCode("signup");
         }
       }
+    } catch (error) {
+      toast({
+        title: "Signup failed",
+        description: error instanceof Error ? error.message : "Something went wrong",
+        variant: "destructive",
+      });
     } finally {
       setIsSubmitting(false);
     }
   };
 
+  const requestSignInCode = async () => {
+    const { error } = await sendSignInCode(phone);
+    if (error) {
+      toast({
+        title: "Couldn't send a code",
+        description: error.message.includes("Signups not allowed")
+          ? "No account uses this number. Sign up instead."
+          : error.message,
+        variant: "destructive",
+      });
+    } else {
+      setPendingCode("signin");
+    }
+  };
+
+  const handleVerify = async (code: string) => {
+    const result = await verifyPhone(phone, code);
+    if (!result.error) {
+      toast(
+        pendingCode === "signup"
+          ? { title: "Account created!", description: "Welcome to StoryPeek" }
+          : { title: "Welcome back!", description: "You have successfully signed in" }
+      );
+      navigate("/");
+    }
+    return result;
+  };
+
+  const switchMode = () => {
+    setIsLogin(!isLogin);
+    setUseCode(false);
+    setErrors({});
+  };
+
+  if (pendingCode) {
+    return (
+      <>
+        <Header />
+        <main className="min-h-screen bg-background flex items-center justify-center py-12 px-4">
+          <div className="w-full max-w-md">
+            <div className="bg-card border border-border rounded-lg shadow-card p-8">
+              <div className="text-center mb-8">
+                <h1 className="font-serif text-2xl font-bold text-foreground mb-2">
+                  Check your phone
+                </h1>
+                <p className="text-muted-foreground">
+                  {pendingCode === "signup"
+                    ? "Verify your number to finish creating your account"
+                    : "Enter the code to sign in"}
+                </p>
+              </div>
+
+              <PhoneCodeForm
+                phone={phone}
+                onVerify={handleVerify}
+                onResend={() =>
+                  pendingCode === "signup" ? resendSignUpCode(phone) : sendSignInCode(phone)
+                }
+                onBack={() => setPendingCode(null)}
+                submitLabel={pendingCode === "signup" ? "Create Account" : "Sign In"}
+              />
+            </div>
+          </div>
+        </main>
+      </>
+    );
+  }
+
   return (
     <>
       <Header />
@@ -165,6 +256,35 @@ export default function Auth() {
                 </div>
               )}
 
+              {!isLogin && (
+                <div className="space-y-2">
+                  <Label htmlFor="handle">Handle</Label>
+                  <div className="flex gap-2">
+                    <div className="flex items-center justify-center px-3 bg-muted border border-input rounded-md text-sm text-muted-foreground">
+                      @
+                    </div>
+                    <Input
+                      id="handle"
+                      type="text"
+                      placeholder="your_handle"
+                      value={handle}
+                      onChange={(e) => setHandle(e.target.value.replace(/\s/g, ""))}
+                      className={`flex-1 ${errors.handle ? "border-destructive" : ""}`}
+                      maxLength={30}
+                      autoCapitalize="none"
+                      autoCorrect="off"
+                    />
+                  </div>
+                  {errors.handle ? (
+                    <p className="text-sm text-destructive">{errors.handle}</p>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">
+                      Your author page will be at /@{handle.replace(/^@/, "").toLowerCase() || "your_handle"}
+                    </p>
+                  )}
+                </div>
+              )}
+
               <div className="space-y-2">
                 <Label htmlFor="phone">Mobile Number</Label>
                 <div className="flex gap-2">
@@ -186,37 +306,61 @@ export default function Auth() {
                 )}
               </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="password">Password</Label>
-                <div className="relative">
-                  <Input
-                    id="password"
-                    type={showPassword ? "text" : "password"}
-                    placeholder={isLogin ? "Enter your password" : "Min 8 chars, 1 number, 1 special"}
-                    value={password}
-                    onChange={(e) => setPassword(e.target.value)}
-                    className={`pr-10 ${errors.password ? "border-destructive" : ""}`}
-                  />
-                  <button
-                    type="button"
-                    onClick={() => setShowPassword(!showPassword)}
-                    className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
-                  >
-                    {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
-                  </button>
+              {!(isLogin && useCode) && (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="password">Password</Label>
+                    {isLogin && (
+                      <Link to="/reset-password" className="text-sm text-primary hover:underline">
+                        Forgot password?
+                      </Link>
+                    )}
+                  </div>
+                  <div className="relative">
+                    <Input
+                      id="password"
+                      type={showPassword ? "text" : "password"}
+                      placeholder={isLogin ? "Enter your password" : "Min 8 chars, 1 number, 1 special"}
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      className={`pr-10 ${errors.password ? "border-destructive" : ""}`}
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setShowPassword(!showPassword)}
+                      className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+                    >
+                      {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                    </button>
+                  </div>
+                  {errors.password && (
+                    <p className="text-sm text-destructive">{errors.password}</p>
+                  )}
                 </div>
-                {errors.password && (
-                  <p className="text-sm text-destructive">{errors.password}</p>
-                )}
-              </div>
+              )}
 
               <Button type="submit" variant="cta" className="w-full" disabled={isSubmitting}>
                 {isSubmitting
                   ? "Please wait..."
-                  : isLogin
-                  ? "Sign In"
-                  : "Create Account"}
+                  : !isLogin
+                  ? "Continue"
+                  : useCode
+                  ? "Text me a code"
+                  : "Sign In"}
               </Button>
+
+              {isLogin && (
+                <button
+                  type="button"
+                  onClick={() => {
+                    setUseCode(!useCode);
+                    setErrors({});
+                  }}
+                  className="block w-full text-center text-sm text-primary font-medium hover:underline"
+                >
+                  {useCode ? "Sign in with your password" : "Sign in with a code instead"}
+                </button>
+              )}
             </form>
 
             <div className="mt-6 text-center">
@@ -224,10 +368,7 @@ export default function Auth() {
                 {isLogin ? "Don't have an account?" : "Already have an account?"}{" "}
                 <button
                   type="button"
-                  onClick={() => {
-                    setIsLogin(!isLogin);
-                    setErrors({});
-                  }}
+                  onClick={switchMode}
                   className="text-primary font-medium hover:underline"
                 >
                   {isLogin ? "Sign up" : "Sign in"}
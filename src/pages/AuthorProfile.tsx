@@ -1,93 +1,191 @@
 import { useEffect, useState } from "react";
-import { useParams, Link } from "react-router-dom";
+import { useParams, Link, useNavigate } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
 import { Header } from "@/components/Header";
+import NotFound from "@/pages/NotFound";
 import { PostCard } from "@/components/PostCard";
 import { EditStoryDialog } from "@/components/EditStoryDialog";
 import { DeleteStoryDialog } from "@/components/DeleteStoryDialog";
+import { StoryHistoryDialog } from "@/components/StoryHistoryDialog";
+import { ManageSeriesDialog } from "@/components/ManageSeriesDialog";
+import { ProfileLinks } from "@/components/ProfileLinks";
+import { ReportDialog } from "@/components/ReportDialog";
 import { useAuth } from "@/hooks/useAuth";
+import { useFollow } from "@/hooks/useFollow";
+import { useInfiniteScroll } from "@/hooks/useInfiniteScroll";
+import { usePostFeed } from "@/hooks/usePostFeed";
+import { useAuthorSeries, type Series } from "@/hooks/useSeries";
+import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
+import type { FeedPost } from "@/lib/posts";
+import { PUBLIC_PROFILE_COLUMNS } from "@/lib/profiles";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { ArrowLeft, Pencil, Trash2 } from "lucide-react";
+import { ArrowLeft, CalendarClock, EyeOff, FileText, Flag, History, Layers, Pencil, Settings, Settings2, Trash2, UserCheck, UserPlus } from "lucide-react";
 import { Button } from "@/components/ui/button";
 
 interface Profile {
   id: string;
   user_id: string;
   username: string;
+  handle: string;
   profile_pic_url: string;
+  bio: string | null;
+  website_url: string | null;
+  twitter_handle: string | null;
+  instagram_handle: string | null;
   created_at: string;
 }
 
-interface Post {
+// The story being edited, viewed or deleted from the list
+type StoryRef = Pick<FeedPost, "id" | "title">;
+
+interface Draft {
   id: string;
   title: string;
-  content_preview: string;
-  content_full: string;
-  image_url: string | null;
+  status: "draft" | "scheduled" | "published" | "hidden";
+  publish_at: string | null;
+  unpublished_at: string | null;
   created_at: string;
-  user_id: string;
 }
 
+// Served at /@handle, and at the old /author/:userId URLs which redirect there
 export default function AuthorProfile() {
-  const { userId } = useParams<{ userId: string }>();
+  const { userId: legacyUserId, handle: handleParam } = useParams<{ userId: string; handle: string }>();
   const { user, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
   const [author, setAuthor] = useState<Profile | null>(null);
-  const [posts, setPosts] = useState<Post[]>([]);
+  // The lookup the shown author was fetched for, see lookupKey below
+  const [authorLookupKey, setAuthorLookupKey] = useState<string | null>(null);
+  const userId = author?.user_id;
+  const { followerCount, followingCount, isFollowing, toggleFollow } = useFollow(userId);
+  const [drafts, setDrafts] = useState<Draft[]>([]);
   const [loading, setLoading] = useState(true);
+  const {
+    posts,
+    totalCount,
+    loading: postsLoading,
+    hasMore,
+    loadingMore,
+    loadMore,
+  } = usePostFeed({ authorId: userId }, !!userId);
+  const { sentinelRef } = useInfiniteScroll({ hasMore, loading: loadingMore, onLoadMore: loadMore });
+  const { seriesList } = useAuthorSeries(userId);
 
-  // Edit/Delete state
-  const [editingPost, setEditingPost] = useState<Post | null>(null);
-  const [deletingPost, setDeletingPost] = useState<Post | null>(null);
+  // Edit/History/Delete state
+  const [editingPost, setEditingPost] = useState<StoryRef | null>(null);
+  const [historyPost, setHistoryPost] = useState<StoryRef | null>(null);
+  const [deletingPost, setDeletingPost] = useState<StoryRef | null>(null);
+  const [managingSeries, setManagingSeries] = useState<Series | null>(null);
+  const [isReporting, setIsReporting] = useState(false);
 
-  const isOwnProfile = user?.id === userId;
+  const isOwnProfile = !!userId && user?.id === userId;
+  // Top-level paths that aren't handles share the /:handle route
+  const isHandlePath = handleParam?.startsWith("@") ?? false;
+  const handle = isHandlePath ? handleParam?.slice(1) : undefined;
+  // Handles are looked up lowercased, so /@Name and /@name are the same lookup
+  const lookupKey = handle !== undefined ? `@${handle.toLowerCase()}` : legacyUserId;
 
   useEffect(() => {
-    if (userId) {
-      fetchAuthorData(userId);
-    }
-  }, [userId]);
+    if (!lookupKey) return;
 
-  const fetchAuthorData = async (authorUserId: string) => {
-    // Fetch author profile
-    const { data: profileData, error: profileError } = await supabase
-      .from("profiles")
-      .select("*")
-      .eq("user_id", authorUserId)
-      .maybeSingle();
+    // Don't show the previous author, or let their late response land, once
+    // the URL points somewhere else
+    let cancelled = false;
+    setAuthor(null);
+    setAuthorLookupKey(null);
+    setLoading(true);
+
+    const lookup = lookupKey.startsWith("@") ? { handle: lookupKey.slice(1) } : { userId: lookupKey };
+    fetchAuthor(lookup).then((profile) => {
+      if (cancelled) return;
+      setAuthor(profile);
+      setAuthorLookupKey(lookupKey);
+      setLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [lookupKey]);
+
+  // Send old UUID links and differently-cased handles to the canonical URL.
+  // The author must be the one in the URL, not the previous one still on screen.
+  useEffect(() => {
+    if (author && authorLookupKey === lookupKey && handle !== author.handle) {
+      navigate(`/@${author.handle}`, { replace: true });
+    }
+  }, [author, authorLookupKey, lookupKey, handle, navigate]);
 
-    if (!profileError && profileData) {
-      setAuthor(profileData);
+  useEffect(() => {
+    if (userId && isOwnProfile) {
+      fetchDrafts(userId);
+    } else {
+      setDrafts([]);
     }
+  }, [userId, isOwnProfile]);
+
+  const fetchAuthor = async (lookup: { handle: string } | { userId: string }): Promise<Profile | null> => {
+    const query = supabase.from("profiles").select(PUBLIC_PROFILE_COLUMNS);
+    const { data: profileData, error: profileError } = await ("handle" in lookup
+      ? query.eq("handle", lookup.handle)
+      : query.eq("user_id", lookup.userId)
+    ).maybeSingle();
 
-    // Fetch author's posts with full content for editing
-    const { data: postsData, error: postsError } = await supabase
+    return !profileError && profileData ? profileData : null;
+  };
+
+  // Drafts, scheduled stories and stories hidden by moderators are only visible
+  // to their author (enforced by RLS). Drafts editors unpublished can be edited
+  // but not published until an editor allows it.
+  const fetchDrafts = async (authorUserId: string) => {
+    const { data: draftsData } = await supabase
       .from("posts")
-      .select("id, title, content_preview, content_full, image_url, created_at, user_id")
+      .select("id, title, status, publish_at, unpublished_at, created_at")
       .eq("user_id", authorUserId)
+      .neq("status", "published")
       .order("created_at", { ascending: false });
 
-    if (!postsError && postsData) {
-      setPosts(postsData);
-    }
+    setDrafts(draftsData || []);
+  };
 
-    setLoading(false);
+  // Story lists are cached per feed, so refresh every feed the story may appear in
+  const refreshStories = () => {
+    queryClient.invalidateQueries({ queryKey: ["posts"] });
+    queryClient.invalidateQueries({ queryKey: ["series"] });
   };
 
   const handleEditSuccess = () => {
-    if (userId) {
-      fetchAuthorData(userId);
-    }
+    refreshStories();
     setEditingPost(null);
   };
 
   const handleDeleteSuccess = () => {
-    if (userId) {
-      fetchAuthorData(userId);
+    refreshStories();
+    if (userId && isOwnProfile) {
+      fetchDrafts(userId);
     }
     setDeletingPost(null);
   };
 
+  const handleFollow = async () => {
+    if (!user) {
+      navigate("/auth");
+      return;
+    }
+
+    const { error } = await toggleFollow();
+    if (error) {
+      toast({
+        title: "Something went wrong",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
   const memberSince = author
     ? new Date(author.created_at).toLocaleDateString("en-IN", {
         month: "long",
@@ -95,7 +193,11 @@ export default function AuthorProfile() {
       })
     : "";
 
-  if (loading || authLoading) {
+  if (handleParam !== undefined && !isHandlePath) {
+    return <NotFound />;
+  }
+
+  if (loading || authLoading || (!!userId && postsLoading)) {
     return (
       <>
         <Header />
@@ -161,24 +263,174 @@ export default function AuthorProfile() {
           </Link>
 
           {/* Author header */}
-          <div className="flex items-center gap-4 mb-8 pb-6 border-b border-border">
-            <Avatar className="h-20 w-20">
-              <AvatarImage src={author.profile_pic_url} alt={author.username} />
-              <AvatarFallback className="bg-primary text-primary-foreground text-2xl">
-                {author.username.charAt(0).toUpperCase()}
-              </AvatarFallback>
-            </Avatar>
-            <div>
-              <h1 className="font-serif text-2xl font-bold text-foreground">
-                {author.username}
-              </h1>
-              <p className="text-muted-foreground">Member since {memberSince}</p>
-              <p className="text-sm text-muted-foreground mt-1">
-                {posts.length} {posts.length === 1 ? "story" : "stories"}
-              </p>
+          <div className="mb-8 pb-6 border-b border-border">
+            <div className="flex items-center gap-4">
+              <Avatar className="h-20 w-20">
+                <AvatarImage src={author.profile_pic_url} alt={author.username} />
+                <AvatarFallback className="bg-primary text-primary-foreground text-2xl">
+                  {author.username.charAt(0).toUpperCase()}
+                </AvatarFallback>
+              </Avatar>
+              <div className="flex-1">
+                <h1 className="font-serif text-2xl font-bold text-foreground">
+                  {author.username}
+                </h1>
+                <p className="text-muted-foreground">@{author.handle} · Member since {memberSince}</p>
+                <p className="text-sm text-muted-foreground mt-1">
+                  {totalCount} {totalCount === 1 ? "story" : "stories"}
+                  {" · "}
+                  {followerCount} {followerCount === 1 ? "follower" : "followers"}
+                  {" · "}
+                  {followingCount} following
+                </p>
+              </div>
+              {isOwnProfile ? (
+                <Button variant="outline" size="sm" asChild>
+                  <Link to="/settings/profile">
+                    <Settings className="h-4 w-4 mr-1" />
+                    Edit profile
+                  </Link>
+                </Button>
+              ) : (
+                <div className="flex gap-2">
+                  <Button
+                    variant={isFollowing ? "outline" : "cta"}
+                    size="sm"
+                    onClick={handleFollow}
+                  >
+                    {isFollowing ? (
+                      <UserCheck className="h-4 w-4 mr-1" />
+                    ) : (
+                      <UserPlus className="h-4 w-4 mr-1" />
+                    )}
+                    {isFollowing ? "Unfollow" : "Follow"}
+                  </Button>
+                  {user && (
+                    <Button variant="ghost" size="sm" onClick={() => setIsReporting(true)}>
+                      <Flag className="h-4 w-4" />
+                      <span className="sr-only">Report account</span>
+                    </Button>
+                  )}
+                </div>
+              )}
             </div>
+            {author.bio && (
+              <p className="mt-4 text-foreground whitespace-pre-wrap">{author.bio}</p>
+            )}
+            <ProfileLinks
+              websiteUrl={author.website_url}
+              twitterHandle={author.twitter_handle}
+              instagramHandle={author.instagram_handle}
+            />
           </div>
 
+          {/* Author's own drafts and scheduled stories */}
+          {isOwnProfile && drafts.length > 0 && (
+            <section className="mb-10">
+              <h2 className="font-serif text-xl font-bold text-foreground mb-4">
+                My drafts
+              </h2>
+              <ul className="divide-y divide-border rounded-lg border border-border">
+                {drafts.map((draft) => (
+                  <li key={draft.id} className="flex items-center gap-3 p-4">
+                    {draft.status === "hidden" ? (
+                      <EyeOff className="h-5 w-5 shrink-0 text-destructive" />
+                    ) : draft.status === "scheduled" ? (
+                      <CalendarClock className="h-5 w-5 shrink-0 text-primary" />
+                    ) : (
+                      <FileText className="h-5 w-5 shrink-0 text-muted-foreground" />
+                    )}
+                    <div className="flex-1 min-w-0">
+                      {draft.status === "hidden" ? (
+                        <p className="font-medium text-foreground truncate">{draft.title}</p>
+                      ) : (
+                        <Link
+                          to={`/create?draft=${draft.id}`}
+                          className="block font-medium text-foreground hover:text-primary transition-colors truncate"
+                        >
+                          {draft.title}
+                        </Link>
+                      )}
+                      <p className="text-sm text-muted-foreground">
+                        {draft.status === "hidden"
+                          ? "Hidden by moderators"
+                          : draft.unpublished_at
+                            ? "Unpublished by editors · can't be published for now"
+                            : draft.status === "scheduled" && draft.publish_at
+                              ? `Scheduled for ${new Date(draft.publish_at).toLocaleString("en-IN", {
+                                  day: "numeric",
+                                  month: "short",
+                                  hour: "numeric",
+                                  minute: "2-digit",
+                                })}`
+                              : `Draft · started ${new Date(draft.created_at).toLocaleDateString("en-IN", {
+                                  day: "numeric",
+                                  month: "short",
+                                })}`}
+                      </p>
+                    </div>
+                    {draft.status !== "hidden" && (
+                      <Button variant="outline" size="sm" asChild>
+                        <Link to={`/create?draft=${draft.id}`}>
+                          <Pencil className="h-4 w-4" />
+                          <span className="sr-only sm:not-sr-only sm:ml-1">Continue</span>
+                        </Link>
+                      </Button>
+                    )}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-destructive hover:text-destructive"
+                      onClick={() => setDeletingPost(draft)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                      <span className="sr-only">Delete</span>
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+
+          {/* Author's series */}
+          {seriesList.length > 0 && (
+            <section className="mb-10">
+              <h2 className="font-serif text-xl font-bold text-foreground mb-4">
+                Series
+              </h2>
+              <ul className="divide-y divide-border rounded-lg border border-border">
+                {seriesList.map((series) => {
+                  const partCount = series.chapters.filter(
+                    (chapter) => chapter.status === "published"
+                  ).length;
+
+                  return (
+                    <li key={series.id} className="flex items-center gap-3 p-4">
+                      <Layers className="h-5 w-5 shrink-0 text-primary" />
+                      <div className="flex-1 min-w-0">
+                        <Link
+                          to={`/series/${series.id}`}
+                          className="block font-medium text-foreground hover:text-primary transition-colors truncate"
+                        >
+                          {series.title}
+                        </Link>
+                        <p className="text-sm text-muted-foreground">
+                          {partCount} {partCount === 1 ? "part" : "parts"}
+                        </p>
+                      </div>
+                      {isOwnProfile && (
+                        <Button variant="outline" size="sm" onClick={() => setManagingSeries(series)}>
+                          <Settings2 className="h-4 w-4" />
+                          <span className="sr-only sm:not-sr-only sm:ml-1">Manage</span>
+                        </Button>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            </section>
+          )}
+
           {/* Author's posts */}
           <section>
             <h2 className="font-serif text-xl font-bold text-foreground mb-4">
@@ -202,6 +454,7 @@ export default function AuthorProfile() {
                   <div key={post.id} className="relative group">
                     <PostCard
                       id={post.id}
+                      shortId={post.short_id}
                       title={post.title}
                       contentPreview={post.content_preview}
                       imageUrl={post.image_url}
@@ -209,12 +462,18 @@ export default function AuthorProfile() {
                         username: author.username,
                         profilePicUrl: author.profile_pic_url,
                         userId: author.user_id,
+                        handle: author.handle,
                       }}
                       createdAt={post.created_at}
+                      readingMinutes={post.reading_minutes}
+                      likeCount={post.like_count}
+                      commentCount={post.comment_count}
+                      genre={post.genre}
+                      tags={post.tags}
                       isAuthenticated={!!user}
                     />
 
-                    {/* Edit/Delete buttons for own posts */}
+                    {/* Edit/History/Delete buttons for own posts */}
                     {isOwnProfile && (
                       <div className="absolute top-6 right-0 flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
                         <Button
@@ -225,6 +484,14 @@ export default function AuthorProfile() {
                           <Pencil className="h-4 w-4" />
                           <span className="sr-only sm:not-sr-only sm:ml-1">Edit</span>
                         </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setHistoryPost(post)}
+                        >
+                          <History className="h-4 w-4" />
+                          <span className="sr-only sm:not-sr-only sm:ml-1">History</span>
+                        </Button>
                         <Button
                           variant="outline"
                           size="sm"
@@ -238,6 +505,14 @@ export default function AuthorProfile() {
                     )}
                   </div>
                 ))}
+                <div ref={sentinelRef} className="py-6">
+                  {loadingMore && (
+                    <div className="space-y-3">
+                      <Skeleton className="h-6 w-3/4" />
+                      <Skeleton className="h-4 w-full" />
+                    </div>
+                  )}
+                </div>
               </div>
             )}
           </section>
@@ -260,6 +535,26 @@ export default function AuthorProfile() {
         />
       )}
 
+      {/* History Dialog */}
+      {historyPost && (
+        <StoryHistoryDialog
+          open={!!historyPost}
+          onOpenChange={(open) => !open && setHistoryPost(null)}
+          story={historyPost}
+          onRestore={refreshStories}
+        />
+      )}
+
+      {/* Manage Series Dialog */}
+      {managingSeries && (
+        <ManageSeriesDialog
+          open={!!managingSeries}
+          onOpenChange={(open) => !open && setManagingSeries(null)}
+          series={managingSeries}
+          onSuccess={refreshStories}
+        />
+      )}
+
       {/* Delete Dialog */}
       {deletingPost && (
         <DeleteStoryDialog
@@ -270,6 +565,13 @@ export default function AuthorProfile() {
           onSuccess={handleDeleteSuccess}
         />
       )}
+
+      {/* Report Dialog */}
+      <ReportDialog
+        open={isReporting}
+        onOpenChange={setIsReporting}
+        target={{ type: "user", id: author.user_id }}
+      />
     </>
   );
 }
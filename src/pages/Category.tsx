@@ -0,0 +1,138 @@
+import { Link, useParams } from "react-router-dom";
+import { Header } from "@/components/Header";
+import { PostCard } from "@/components/PostCard";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useAuth } from "@/hooks/useAuth";
+import { useCategory } from "@/hooks/useCategories";
+import { useInfiniteScroll } from "@/hooks/useInfiniteScroll";
+import { usePostFeed } from "@/hooks/usePostFeed";
+import { ArrowLeft, Hash, Library } from "lucide-react";
+
+interface CategoryProps {
+  kind: "genre" | "tag";
+}
+
+// Browsing page for /genre/:slug and /tag/:slug
+export default function Category({ kind }: CategoryProps) {
+  const { slug } = useParams<{ slug: string }>();
+  const { user } = useAuth();
+  const { category, loading: categoryLoading } = useCategory(kind, slug);
+
+  const filters = kind === "genre" ? { genreId: category?.id } : { tagId: category?.id };
+  const { posts, totalCount, loading, hasMore, loadingMore, loadMore } = usePostFeed(filters, !!category);
+  const { sentinelRef } = useInfiniteScroll({ hasMore, loading: loadingMore, onLoadMore: loadMore });
+
+  if (categoryLoading || (category && loading)) {
+    return (
+      <>
+        <Header />
+        <main className="min-h-screen bg-background">
+          <div className="container max-w-3xl py-8 space-y-6">
+            <Skeleton className="h-8 w-48" />
+            {[1, 2].map((i) => (
+              <div key={i} className="space-y-3 py-6 border-b border-border">
+                <Skeleton className="h-6 w-3/4" />
+                <Skeleton className="h-4 w-full" />
+                <Skeleton className="h-4 w-2/3" />
+              </div>
+            ))}
+          </div>
+        </main>
+      </>
+    );
+  }
+
+  if (!category) {
+    return (
+      <>
+        <Header />
+        <main className="min-h-screen bg-background flex items-center justify-center">
+          <div className="text-center">
+            <h1 className="font-serif text-2xl font-bold text-foreground mb-4">
+              {kind === "genre" ? "Genre not found" : "Tag not found"}
+            </h1>
+            <Button variant="outline" asChild>
+              <Link to="/">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to stories
+              </Link>
+            </Button>
+          </div>
+        </main>
+      </>
+    );
+  }
+
+  return (
+    <>
+      <Header />
+      <main className="min-h-screen bg-background">
+        <div className="container max-w-3xl py-8">
+          <Link
+            to="/"
+            className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground mb-6"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Back to stories
+          </Link>
+
+          <header className="mb-8">
+            <h1 className="flex items-center gap-2 font-serif text-3xl font-bold text-foreground mb-2">
+              {kind === "genre" ? (
+                <Library className="h-7 w-7 text-primary" />
+              ) : (
+                <Hash className="h-7 w-7 text-primary" />
+              )}
+              {category.name}
+            </h1>
+            <p className="text-muted-foreground">
+              {totalCount} {totalCount === 1 ? "story" : "stories"}
+              {kind === "genre" ? " in this genre" : " with this tag"}
+            </p>
+          </header>
+
+          {posts.length === 0 ? (
+            <div className="text-center py-16">
+              <p className="text-muted-foreground text-lg">No stories here yet.</p>
+            </div>
+          ) : (
+            <div>
+              {posts.map((post) => (
+                <PostCard
+                  key={post.id}
+                  id={post.id}
+                  shortId={post.short_id}
+                  title={post.title}
+                  contentPreview={post.content_preview}
+                  imageUrl={post.image_url}
+                  author={{
+                    username: post.username,
+                    profilePicUrl: post.profile_pic_url,
+                    userId: post.user_id,
+                    handle: post.handle,
+                  }}
+                  createdAt={post.created_at}
+                  readingMinutes={post.reading_minutes}
+                  likeCount={post.like_count}
+                  commentCount={post.comment_count}
+                  genre={post.genre}
+                  tags={post.tags}
+                  isAuthenticated={!!user}
+                />
+              ))}
+              <div ref={sentinelRef} className="py-6">
+                {loadingMore && (
+                  <div className="space-y-3">
+                    <Skeleton className="h-6 w-3/4" />
+                    <Skeleton className="h-4 w-full" />
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </main>
+    </>
+  );
+}
@@ -1,14 +1,23 @@
-import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { useState, useEffect, useRef, useCallback } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
 import { z } from "zod";
+import { format } from "date-fns";
 import { Header } from "@/components/Header";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { MarkdownEditor } from "@/components/MarkdownEditor";
+import { CategoryFields } from "@/components/CategoryFields";
+import { NEW_SERIES, SeriesField, SeriesSelection } from "@/components/SeriesField";
 import { useAuth } from "@/hooks/useAuth";
+import { useAutosave } from "@/hooks/useAutosave";
+import { createSeries } from "@/hooks/useSeries";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
+import { authorPath } from "@/lib/handles";
+import { generatePreview } from "@/lib/markdown";
 import { ImagePlus, X, Loader2 } from "lucide-react";
 
 const storySchema = z.object({
@@ -16,24 +25,185 @@ const storySchema = z.object({
   content: z.string().min(100, "Story must be at least 100 characters").max(10000, "Story must be less than 10,000 characters"),
 });
 
+const publishAtSchema = z
+  .string()
+  .min(1, "Choose when the story should go live")
+  .refine((value) => new Date(value).getTime() > Date.now(), "Scheduled time must be in the future");
+
+// Drafts can be saved before the writer has picked a title
+const UNTITLED_DRAFT = "Untitled draft";
+
+const toDateTimeInputValue = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm");
+
 export default function CreateStory() {
-  const { user, loading: authLoading } = useAuth();
+  const { user, profile, loading: authLoading } = useAuth();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
   const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [initialDraftId] = useState(() => searchParams.get("draft"));
+  const draftIdRef = useRef<string | null>(initialDraftId);
 
   const [title, setTitle] = useState("");
   const [content, setContent] = useState("");
+  const [genreId, setGenreId] = useState<string | null>(null);
+  const [tags, setTags] = useState<string[]>([]);
+  const [series, setSeries] = useState<SeriesSelection>({ seriesId: null, newSeriesTitle: "" });
   const [imageFile, setImageFile] = useState<File | null>(null);
   const [imagePreview, setImagePreview] = useState<string | null>(null);
+  const [existingImageUrl, setExistingImageUrl] = useState<string | null>(null);
+  const [isScheduling, setIsScheduling] = useState(false);
+  const [publishAt, setPublishAt] = useState("");
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isLoadingDraft, setIsLoadingDraft] = useState(!!initialDraftId);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
+  const userId = user?.id;
+
   useEffect(() => {
     if (!authLoading && !user) {
       navigate("/auth");
     }
   }, [user, authLoading, navigate]);
 
+  // Reopen an existing draft or scheduled story from /create?draft=<id>
+  useEffect(() => {
+    if (!userId || !initialDraftId) return;
+
+    const fetchDraft = async () => {
+      const { data: postData } = await supabase
+        .from("posts")
+        .select("id, title, image_url, status, publish_at, genre_id, series_id, post_tags(tags(name))")
+        .eq("id", initialDraftId)
+        .eq("user_id", userId)
+        .in("status", ["draft", "scheduled"])
+        .maybeSingle();
+
+      if (!postData) {
+        draftIdRef.current = null;
+        toast({
+          title: "Draft not found",
+          description: "Starting a new story instead",
+          variant: "destructive",
+        });
+        setIsLoadingDraft(false);
+        return;
+      }
+
+      const { data: contentData } = await supabase
+        .from("post_contents")
+        .select("content_full")
+        .eq("post_id", postData.id)
+        .maybeSingle();
+
+      setTitle(postData.title === UNTITLED_DRAFT ? "" : postData.title);
+      setContent(contentData?.content_full ?? "");
+      setGenreId(postData.genre_id);
+      setTags(postData.post_tags.map((postTag) => postTag.tags.name));
+      setSeries({ seriesId: postData.series_id, newSeriesTitle: "" });
+      setExistingImageUrl(postData.image_url);
+      setImagePreview(postData.image_url);
+
+      if (postData.status === "scheduled" && postData.publish_at) {
+        setIsScheduling(true);
+        setPublishAt(toDateTimeInputValue(new Date(postData.publish_at)));
+      }
+
+      setIsLoadingDraft(false);
+    };
+
+    fetchDraft();
+  }, [userId, initialDraftId, toast]);
+
+  // Keep a private draft row in sync while the writer types
+  const saveDraft = useCallback(
+    async (draft: {
+      title: string;
+      content: string;
+      genreId: string | null;
+      tags: string[];
+      seriesId: string | null;
+    }) => {
+      if (!userId || (!draft.title.trim() && !draft.content.trim())) return;
+
+      const fields = {
+        title: draft.title.trim() || UNTITLED_DRAFT,
+        content_preview: generatePreview(draft.content.trim()),
+        genre_id: draft.genreId,
+        // A new series is only created when the story is published
+        ...(draft.seriesId !== NEW_SERIES && { series_id: draft.seriesId }),
+      };
+
+      if (!draftIdRef.current) {
+        const { data: postData, error: insertError } = await supabase
+          .from("posts")
+          .insert({ ...fields, user_id: userId, status: "draft" })
+          .select("id")
+          .single();
+
+        if (insertError || !postData) {
+          throw new Error(insertError?.message || "Failed to save draft");
+        }
+
+        const { error: contentError } = await supabase.from("post_contents").insert({
+          post_id: postData.id,
+          user_id: userId,
+          content_full: draft.content.trim(),
+        });
+
+        if (contentError) {
+          await supabase.from("posts").delete().eq("id", postData.id);
+          throw new Error(contentError.message);
+        }
+
+        const { error: tagsError } = await supabase.rpc("set_post_tags", {
+          target_post_id: postData.id,
+          tag_names: draft.tags,
+        });
+
+        if (tagsError) throw new Error(tagsError.message);
+
+        draftIdRef.current = postData.id;
+        // Keep the draft in the URL so a reload picks up where the writer left off
+        navigate(`/create?draft=${postData.id}`, { replace: true });
+        return;
+      }
+
+      const { error: updateError } = await supabase
+        .from("posts")
+        .update(fields)
+        .eq("id", draftIdRef.current);
+
+      if (updateError) throw new Error(updateError.message);
+
+      const { error: contentError } = await supabase
+        .from("post_contents")
+        .update({ content_full: draft.content.trim() })
+        .eq("post_id", draftIdRef.current);
+
+      if (contentError) throw new Error(contentError.message);
+
+      const { error: tagsError } = await supabase.rpc("set_post_tags", {
+        target_post_id: draftIdRef.current,
+        tag_names: draft.tags,
+      });
+
+      if (tagsError) throw new Error(tagsError.message);
+    },
+    [userId, navigate]
+  );
+
+  const {
+    status: autosaveStatus,
+    lastSavedAt,
+    cancelPendingSave,
+  } = useAutosave({
+    data: { title, content, genreId, tags, seriesId: series.seriesId },
+    onSave: saveDraft,
+    enabled: !!userId && !isLoadingDraft && !isSubmitting,
+  });
+
   const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
@@ -67,25 +237,34 @@ export default function CreateStory() {
   const removeImage = () => {
     setImageFile(null);
     setImagePreview(null);
-  };
-
-  const generatePreview = (fullContent: string): string => {
-    // Take approximately 25% of the content for preview
-    const words = fullContent.split(/\s+/);
-    const previewWordCount = Math.max(30, Math.floor(words.length * 0.25));
-    return words.slice(0, previewWordCount).join(" ") + "...";
+    setExistingImageUrl(null);
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
+    const fieldErrors: Record<string, string> = {};
+
     const result = storySchema.safeParse({ title, content });
     if (!result.success) {
-      const fieldErrors: Record<string, string> = {};
       result.error.errors.forEach((err) => {
         const field = err.path[0] as string;
         fieldErrors[field] = err.message;
       });
+    }
+
+    if (isScheduling) {
+      const publishAtResult = publishAtSchema.safeParse(publishAt);
+      if (!publishAtResult.success) {
+        fieldErrors.publishAt = publishAtResult.error.errors[0].message;
+      }
+    }
+
+    if (series.seriesId === NEW_SERIES && !series.newSeriesTitle.trim()) {
+      fieldErrors.series = "Give your new series a title";
+    }
+
+    if (Object.keys(fieldErrors).length > 0) {
       setErrors(fieldErrors);
       return;
     }
@@ -94,7 +273,12 @@ export default function CreateStory() {
     setIsSubmitting(true);
 
     try {
-      let imageUrl: string | null = null;
+      // Publishing writes the latest text itself. Drop the autosave that hasn't
+      // started yet, or it could add a second draft row or overwrite the story
+      // with older text, and let one in flight create the draft row first.
+      await cancelPendingSave();
+
+      let imageUrl: string | null = existingImageUrl;
 
       // Upload image if provided
       if (imageFile && user) {
@@ -116,25 +300,98 @@ export default function CreateStory() {
         imageUrl = urlData.publicUrl;
       }
 
-      // Create post
-      const { error: insertError } = await supabase.from("posts").insert({
-        user_id: user?.id,
+      let seriesId = series.seriesId;
+
+      if (seriesId === NEW_SERIES && user) {
+        seriesId = await createSeries(user.id, series.newSeriesTitle);
+        // Keep the new series selected so a retry doesn't create it twice
+        setSeries({ seriesId, newSeriesTitle: "" });
+        queryClient.invalidateQueries({ queryKey: ["series"] });
+      }
+
+      const now = new Date().toISOString();
+      const fields = {
         title: title.trim(),
         content_preview: generatePreview(content.trim()),
-        content_full: content.trim(),
         image_url: imageUrl,
-      });
+        genre_id: genreId,
+        series_id: seriesId,
+        status: isScheduling ? ("scheduled" as const) : ("published" as const),
+        publish_at: isScheduling ? new Date(publishAt).toISOString() : now,
+        created_at: now,
+      };
+
+      let postId = draftIdRef.current;
+
+      if (postId) {
+        // Publish the autosaved draft in place
+        const { error: updateError } = await supabase
+          .from("posts")
+          .update(fields)
+          .eq("id", postId);
+
+        if (updateError) throw new Error(updateError.message);
+
+        const { error: contentError } = await supabase
+          .from("post_contents")
+          .update({ content_full: content.trim() })
+          .eq("post_id", postId);
+
+        if (contentError) throw new Error(contentError.message);
+      } else {
+        // Create post
+        const { data: postData, error: insertError } = await supabase
+          .from("posts")
+          .insert({ ...fields, user_id: user?.id })
+          .select("id")
+          .single();
+
+        if (insertError || !postData) {
+          throw new Error(insertError?.message || "Failed to create story");
+        }
+
+        // Full text lives in a separate table that only signed-in readers can query
+        const { error: contentError } = await supabase.from("post_contents").insert({
+          post_id: postData.id,
+          user_id: user?.id,
+          content_full: content.trim(),
+        });
+
+        if (contentError) {
+          await supabase.from("posts").delete().eq("id", postData.id);
+          throw new Error(contentError.message);
+        }
 
-      if (insertError) {
-        throw new Error(insertError.message);
+        postId = postData.id;
       }
 
-      toast({
-        title: "Story published!",
-        description: "Your story is now visible to everyone",
+      const { error: tagsError } = await supabase.rpc("set_post_tags", {
+        target_post_id: postId,
+        tag_names: tags,
       });
 
-      navigate("/");
+      if (tagsError) throw new Error(tagsError.message);
+
+      if (isScheduling) {
+        toast({
+          title: "Story scheduled!",
+          description: `Your story will go live on ${new Date(publishAt).toLocaleString("en-IN", {
+            day: "numeric",
+            month: "short",
+            hour: "numeric",
+            minute: "2-digit",
+          })}`,
+        });
+
+        navigate(user ? authorPath(profile?.handle, user.id) : "/");
+      } else {
+        toast({
+          title: "Story published!",
+          description: "Your story is now visible to everyone",
+        });
+
+        navigate("/");
+      }
     } catch (error) {
       toast({
         title: "Failed to publish",
@@ -146,7 +403,19 @@ export default function CreateStory() {
     }
   };
 
-  if (authLoading) {
+  const autosaveLabel =
+    autosaveStatus === "saving"
+      ? "Saving draft..."
+      : autosaveStatus === "error"
+      ? "Couldn't save draft"
+      : autosaveStatus === "saved" && lastSavedAt
+      ? `Draft saved at ${lastSavedAt.toLocaleTimeString("en-IN", {
+          hour: "numeric",
+          minute: "2-digit",
+        })}`
+      : "";
+
+  if (authLoading || isLoadingDraft) {
     return (
       <>
         <Header />
@@ -235,14 +504,12 @@ export default function CreateStory() {
             {/* Content */}
             <div className="space-y-2">
               <Label htmlFor="content">Your Story</Label>
-              <Textarea
+              <MarkdownEditor
                 id="content"
-                placeholder="Start writing your story here..."
+                placeholder="Start writing your story here... Markdown is supported."
                 value={content}
-                onChange={(e) => setContent(e.target.value)}
-                className={`min-h-[300px] resize-y story-content ${
-                  errors.content ? "border-destructive" : ""
-                }`}
+                onChange={setContent}
+                hasError={!!errors.content}
                 maxLength={10000}
               />
               <div className="flex justify-between text-sm text-muted-foreground">
@@ -255,8 +522,52 @@ export default function CreateStory() {
               </div>
             </div>
 
+            {/* Genre and tags */}
+            <CategoryFields
+              idPrefix="story"
+              genreId={genreId}
+              onGenreChange={setGenreId}
+              tags={tags}
+              onTagsChange={setTags}
+            />
+
+            {/* Series */}
+            <SeriesField idPrefix="story" value={series} onChange={setSeries} error={errors.series} />
+
+            {/* Schedule */}
+            <div className="space-y-3 rounded-lg border border-border p-4">
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <Label htmlFor="schedule">Schedule for later</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Pick a date and time for your story to go live
+                  </p>
+                </div>
+                <Switch
+                  id="schedule"
+                  checked={isScheduling}
+                  onCheckedChange={setIsScheduling}
+                />
+              </div>
+              {isScheduling && (
+                <div className="space-y-2">
+                  <Input
+                    id="publish-at"
+                    type="datetime-local"
+                    value={publishAt}
+                    min={toDateTimeInputValue(new Date())}
+                    onChange={(e) => setPublishAt(e.target.value)}
+                    className={errors.publishAt ? "border-destructive" : ""}
+                  />
+                  {errors.publishAt && (
+                    <p className="text-sm text-destructive">{errors.publishAt}</p>
+                  )}
+                </div>
+              )}
+            </div>
+
             {/* Submit */}
-            <div className="flex gap-4 pt-4">
+            <div className="flex items-center gap-4 pt-4">
               <Button
                 type="button"
                 variant="outline"
@@ -269,12 +580,23 @@ export default function CreateStory() {
                 {isSubmitting ? (
                   <>
                     <Loader2 className="h-4 w-4 animate-spin" />
-                    Publishing...
+                    {isScheduling ? "Scheduling..." : "Publishing..."}
                   </>
+                ) : isScheduling ? (
+                  "Schedule Story"
                 ) : (
                   "Publish Story"
                 )}
               </Button>
+              {autosaveLabel && (
+                <p
+                  className={`ml-auto text-sm ${
+                    autosaveStatus === "error" ? "text-destructive" : "text-muted-foreground"
+                  }`}
+                >
+                  {autosaveLabel}
+                </p>
+              )}
             </div>
           </form>
         </div>
@@ -0,0 +1,229 @@
+import { useEffect, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { parseISO } from "date-fns";
+import { Area, AreaChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Header } from "@/components/Header";
+import { Button } from "@/components/ui/button";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useAuth } from "@/hooks/useAuth";
+import { completionRate, useAuthorStats } from "@/hooks/useAuthorStats";
+import { postPath } from "@/lib/slugs";
+import { BarChart3 } from "lucide-react";
+
+const PERIODS = [7, 30, 90] as const;
+
+const readershipChartConfig = {
+  views: { label: "Views", color: "hsl(var(--primary))" },
+  reads: { label: "Reads", color: "hsl(var(--muted-foreground))" },
+} satisfies ChartConfig;
+
+const followersChartConfig = {
+  followers: { label: "Followers", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+// Days come as "yyyy-MM-dd", which new Date() would read as UTC midnight
+const formatDay = (day: string) =>
+  parseISO(day).toLocaleDateString("en-IN", { day: "numeric", month: "short" });
+
+const formatNumber = (value: number) => value.toLocaleString("en-IN");
+
+const formatRate = (rate: number | null) => (rate === null ? "–" : `${Math.round(rate * 100)}%`);
+
+function StatCard({ label, value, detail }: { label: string; value: string; detail?: string }) {
+  return (
+    <div className="rounded-lg border border-border p-4">
+      <p className="text-sm text-muted-foreground">{label}</p>
+      <p className="font-serif text-2xl font-bold text-foreground">{value}</p>
+      {detail && <p className="text-xs text-muted-foreground">{detail}</p>}
+    </div>
+  );
+}
+
+// Served at /dashboard. Shows how the signed-in author's published stories
+// are doing; authors' own visits aren't counted.
+export default function Dashboard() {
+  const { user, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const [periodDays, setPeriodDays] = useState<number>(30);
+  const { days, posts, totals, loading, error } = useAuthorStats(periodDays);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate("/auth");
+    }
+  }, [user, authLoading, navigate]);
+
+  if (!authLoading && !user) {
+    return null;
+  }
+
+  return (
+    <>
+      <Header />
+      <main className="min-h-screen bg-background">
+        <div className="container max-w-5xl py-8">
+          <header className="mb-8 flex flex-wrap items-end justify-between gap-4">
+            <div>
+              <h1 className="flex items-center gap-2 font-serif text-3xl font-bold text-foreground mb-2">
+                <BarChart3 className="h-7 w-7 text-primary" />
+                Story Stats
+              </h1>
+              <p className="text-muted-foreground">How readers found your stories, and how many finished them</p>
+            </div>
+            <ToggleGroup
+              type="single"
+              size="sm"
+              value={String(periodDays)}
+              onValueChange={(value) => value && setPeriodDays(Number(value))}
+            >
+              {PERIODS.map((period) => (
+                <ToggleGroupItem key={period} value={String(period)} className="text-xs">
+                  {period} days
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </header>
+
+          {authLoading || loading ? (
+            <div className="space-y-6">
+              <div className="grid gap-4 grid-cols-2 md:grid-cols-5">
+                {[1, 2, 3, 4, 5].map((i) => (
+                  <Skeleton key={i} className="h-24" />
+                ))}
+              </div>
+              <Skeleton className="h-72" />
+            </div>
+          ) : error ? (
+            <div className="text-center py-16">
+              <p className="text-muted-foreground text-lg">Stats couldn't be loaded. Try again in a moment.</p>
+            </div>
+          ) : posts.length === 0 ? (
+            <div className="text-center py-16">
+              <p className="text-muted-foreground text-lg mb-4">
+                Publish a story to start seeing how readers find it.
+              </p>
+              <Button variant="outline" asChild>
+                <Link to="/create">Write a story</Link>
+              </Button>
+            </div>
+          ) : (
+            <div className="space-y-8">
+              <section className="grid gap-4 grid-cols-2 md:grid-cols-5" aria-label="Totals">
+                <StatCard label="Views" value={formatNumber(totals.views)} />
+                <StatCard label="Reads" value={formatNumber(totals.reads)} />
+                <StatCard
+                  label="Completion rate"
+                  value={formatRate(totals.completionRate)}
+                  detail="of signed-in readers"
+                />
+                <StatCard label="Likes" value={formatNumber(totals.likes)} />
+                <StatCard
+                  label="Followers"
+                  value={formatNumber(totals.followers)}
+                  detail={`+${formatNumber(totals.newFollowers)} in this period`}
+                />
+              </section>
+
+              <section>
+                <h2 className="font-serif text-lg font-bold text-foreground mb-3">Views and reads</h2>
+                <ChartContainer config={readershipChartConfig} className="aspect-auto h-72 w-full">
+                  <AreaChart data={days} margin={{ left: 0, right: 12 }}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="day" tickFormatter={formatDay} tickLine={false} axisLine={false} minTickGap={24} />
+                    <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                    <ChartTooltip content={<ChartTooltipContent labelFormatter={formatDay} />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Area
+                      dataKey="views"
+                      type="monotone"
+                      stroke="var(--color-views)"
+                      fill="var(--color-views)"
+                      fillOpacity={0.2}
+                    />
+                    <Area
+                      dataKey="reads"
+                      type="monotone"
+                      stroke="var(--color-reads)"
+                      fill="var(--color-reads)"
+                      fillOpacity={0.2}
+                    />
+                  </AreaChart>
+                </ChartContainer>
+              </section>
+
+              <section>
+                <h2 className="font-serif text-lg font-bold text-foreground mb-3">Followers</h2>
+                <ChartContainer config={followersChartConfig} className="aspect-auto h-56 w-full">
+                  <LineChart data={days} margin={{ left: 0, right: 12 }}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="day" tickFormatter={formatDay} tickLine={false} axisLine={false} minTickGap={24} />
+                    <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                    <ChartTooltip content={<ChartTooltipContent labelFormatter={formatDay} />} />
+                    <Line dataKey="followers" type="stepAfter" stroke="var(--color-followers)" strokeWidth={2} dot={false} />
+                  </LineChart>
+                </ChartContainer>
+              </section>
+
+              <section>
+                <h2 className="font-serif text-lg font-bold text-foreground mb-3">Stories</h2>
+                <div className="rounded-lg border border-border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Story</TableHead>
+                        <TableHead className="text-right">Views</TableHead>
+                        <TableHead className="text-right">Reads</TableHead>
+                        <TableHead className="text-right">Completion</TableHead>
+                        <TableHead className="text-right">Likes</TableHead>
+                        <TableHead className="text-right">Responses</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {posts.map((post) => (
+                        <TableRow key={post.post_id}>
+                          <TableCell>
+                            <Link
+                              to={postPath(post)}
+                              className="font-medium text-foreground hover:text-primary transition-colors"
+                            >
+                              {post.title}
+                            </Link>
+                          </TableCell>
+                          <TableCell className="text-right">{formatNumber(post.views)}</TableCell>
+                          <TableCell className="text-right">{formatNumber(post.reads)}</TableCell>
+                          <TableCell className="text-right">{formatRate(completionRate(post))}</TableCell>
+                          <TableCell className="text-right">{formatNumber(post.like_count)}</TableCell>
+                          <TableCell className="text-right">{formatNumber(post.comment_count)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+                <p className="text-xs text-muted-foreground mt-2">
+                  Views and reads are for the selected period; likes and responses are all time.
+                </p>
+              </section>
+            </div>
+          )}
+        </div>
+      </main>
+    </>
+  );
+}
@@ -0,0 +1,146 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { Header } from "@/components/Header";
+import { FeatureStoryDialog } from "@/components/FeatureStoryDialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  isFeatureLive,
+  useEditorialActions,
+  useFeaturedPosts,
+  type FeaturedPost,
+} from "@/hooks/useEditorial";
+import { useToast } from "@/hooks/use-toast";
+import { postPath } from "@/lib/slugs";
+import { Loader2, Pencil, Star } from "lucide-react";
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleString("en-IN", {
+    day: "numeric",
+    month: "short",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+// "Live until 12 Feb, 6:00 pm", "Starts 14 Feb, 9:00 am" or "Ended 1 Feb, ..."
+function describeWindow(featured: FeaturedPost) {
+  if (isFeatureLive(featured)) {
+    return featured.ends_at ? `Live until ${formatDate(featured.ends_at)}` : "Live until removed";
+  }
+
+  return new Date(featured.starts_at).getTime() > Date.now()
+    ? `Starts ${formatDate(featured.starts_at)}`
+    : `Ended ${formatDate(featured.ends_at ?? featured.starts_at)}`;
+}
+
+// Served at /editor/featured, for editors and admins (see App)
+export default function FeaturedStories() {
+  const { featuredPosts, loading } = useFeaturedPosts();
+  const { unfeaturePost } = useEditorialActions();
+  const { toast } = useToast();
+  const [removingId, setRemovingId] = useState<string | null>(null);
+  const [editing, setEditing] = useState<FeaturedPost | null>(null);
+
+  const handleUnfeature = async (postId: string) => {
+    setRemovingId(postId);
+    const { error } = await unfeaturePost(postId);
+    setRemovingId(null);
+
+    if (error) {
+      toast({
+        title: "Something went wrong",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <>
+      <Header />
+      <main className="min-h-screen bg-background">
+        <div className="container max-w-3xl py-8">
+          <header className="mb-8">
+            <h1 className="flex items-center gap-2 font-serif text-3xl font-bold text-foreground mb-2">
+              <Star className="h-7 w-7 text-primary" />
+              Featured Stories
+            </h1>
+            <p className="text-muted-foreground">
+              Stories picked for the front page carousel. Feature a story from its page.
+            </p>
+          </header>
+
+          {loading ? (
+            <div className="space-y-4">
+              {[1, 2].map((i) => (
+                <div key={i} className="space-y-2 rounded-lg border border-border p-4">
+                  <Skeleton className="h-5 w-2/3" />
+                  <Skeleton className="h-4 w-1/3" />
+                </div>
+              ))}
+            </div>
+          ) : featuredPosts.length === 0 ? (
+            <div className="text-center py-16">
+              <p className="text-muted-foreground text-lg mb-4">No stories are featured.</p>
+              <Button variant="outline" asChild>
+                <Link to="/">Find stories to feature</Link>
+              </Button>
+            </div>
+          ) : (
+            <ul className="divide-y divide-border rounded-lg border border-border">
+              {featuredPosts.map((featured) => (
+                <li key={featured.post.id} className="flex items-center gap-3 p-4">
+                  <div className="flex-1 min-w-0">
+                    <Link
+                      to={postPath(featured.post)}
+                      className="font-medium text-foreground hover:text-primary transition-colors"
+                    >
+                      {featured.post.title}
+                    </Link>
+                    {isFeatureLive(featured) && (
+                      <Badge variant="secondary" className="ml-2 align-middle">
+                        On the front page
+                      </Badge>
+                    )}
+                    {featured.blurb && (
+                      <p className="text-sm text-foreground line-clamp-2 mt-1">{featured.blurb}</p>
+                    )}
+                    <p className="text-sm text-muted-foreground">
+                      by @{featured.post.handle} · {describeWindow(featured)}
+                      {featured.featured_by && ` · picked by @${featured.featured_by.handle}`}
+                    </p>
+                  </div>
+                  <Button variant="outline" size="sm" onClick={() => setEditing(featured)}>
+                    <Pencil className="h-4 w-4" />
+                    <span className="sr-only sm:not-sr-only sm:ml-1">Edit</span>
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleUnfeature(featured.post.id)}
+                    disabled={removingId !== null}
+                  >
+                    {removingId === featured.post.id && <Loader2 className="h-4 w-4 animate-spin" />}
+                    Unfeature
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </main>
+
+      {/* Edit Dialog */}
+      {editing && (
+        <FeatureStoryDialog
+          open={!!editing}
+          onOpenChange={(open) => !open && setEditing(null)}
+          postId={editing.post.id}
+          storyTitle={editing.post.title}
+          featured={editing}
+        />
+      )}
+    </>
+  );
+}
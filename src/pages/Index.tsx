@@ -1,78 +1,70 @@
-import { useEffect, useState } from "react";
+import { useState } from "react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
 import { Header } from "@/components/Header";
+import { FeaturedCarousel } from "@/components/FeaturedCarousel";
+import { FollowingFeed } from "@/components/FollowingFeed";
 import { PostCard } from "@/components/PostCard";
 import { SearchBar } from "@/components/SearchBar";
+import { StoryFilters, StoryFilterValues } from "@/components/StoryFilters";
 import { useAuth } from "@/hooks/useAuth";
-import { useSearch } from "@/hooks/useSearch";
-import { useTrendingPosts } from "@/hooks/useRecommendations";
-import { supabase } from "@/integrations/supabase/client";
+import { useCategory } from "@/hooks/useCategories";
+import { useInfiniteScroll } from "@/hooks/useInfiniteScroll";
+import { usePostFeed } from "@/hooks/usePostFeed";
+import { useTrendingPosts, TrendingWindow } from "@/hooks/useTrendingPosts";
+import { postPath } from "@/lib/slugs";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 import { TrendingUp } from "lucide-react";
 
-interface Post {
-  id: string;
-  user_id: string;
-  title: string;
-  content_preview: string;
-  image_url: string | null;
-  created_at: string;
-  username: string;
-  profile_pic_url: string;
-}
-
 export default function Index() {
   const { user, loading: authLoading } = useAuth();
-  const [posts, setPosts] = useState<Post[]>([]);
-  const [loading, setLoading] = useState(true);
-
-  const { searchQuery, setSearchQuery, filteredItems, isSearching } = useSearch(posts);
-  const trendingPosts = useTrendingPosts(posts, 5);
-
-  useEffect(() => {
-    fetchPosts();
-  }, []);
-
-  const fetchPosts = async () => {
-    // Use separate queries since there's no foreign key relationship
-    const { data: postsData, error: postsError } = await supabase
-      .from("posts")
-      .select("id, user_id, title, content_preview, image_url, created_at")
-      .order("created_at", { ascending: false });
-
-    if (postsError || !postsData) {
-      setLoading(false);
-      return;
-    }
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [trendingWindow, setTrendingWindow] = useState<TrendingWindow>("week");
+  const [feed, setFeed] = useState<"all" | "following">("all");
+
+  const navigate = useNavigate();
+  const [searchQuery, setSearchQuery] = useState("");
+
+  // Genre and tag filters live in the URL (?genre=&tag=) so filtered views can be shared
+  const filters: StoryFilterValues = {
+    genre: searchParams.get("genre"),
+    tag: searchParams.get("tag"),
+  };
+  const { category: genre, loading: genreLoading } = useCategory("genre", filters.genre ?? undefined);
+  const { category: tag, loading: tagLoading } = useCategory("tag", filters.tag ?? undefined);
+  const filtersResolved = (!filters.genre || !genreLoading) && (!filters.tag || !tagLoading);
+  const filterNotFound = filtersResolved && ((!!filters.genre && !genre) || (!!filters.tag && !tag));
+
+  const { posts, loading, hasMore, loadingMore, loadMore } = usePostFeed(
+    { genreId: genre?.id, tagId: tag?.id },
+    filtersResolved && !filterNotFound
+  );
+  const { trendingPosts } = useTrendingPosts(trendingWindow, 5);
+  const { sentinelRef } = useInfiniteScroll({ hasMore, loading: loadingMore, onLoadMore: loadMore });
+
+  // The Following feed is only for signed-in readers
+  const showFollowing = !!user && feed === "following";
 
-    // Get unique user IDs
-    const userIds = [...new Set(postsData.map((p) => p.user_id))];
-
-    // Fetch profiles for those users
-    const { data: profilesData } = await supabase
-      .from("profiles")
-      .select("user_id, username, profile_pic_url")
-      .in("user_id", userIds);
-
-    // Create a map for quick lookup
-    const profilesMap = new Map(
-      profilesData?.map((p) => [p.user_id, p]) || []
-    );
-
-    // Combine posts with profiles
-    const combinedPosts: Post[] = postsData.map((post) => {
-      const profile = profilesMap.get(post.user_id);
-      return {
-        ...post,
-        username: profile?.username || "Anonymous",
-        profile_pic_url: profile?.profile_pic_url || "",
-      };
-    });
-
-    setPosts(combinedPosts);
-    setLoading(false);
+  const filterParams = (values: StoryFilterValues) => {
+    const params = new URLSearchParams();
+    if (values.genre) params.set("genre", values.genre);
+    if (values.tag) params.set("tag", values.tag);
+    return params;
   };
 
-  const displayPosts = isSearching ? filteredItems : posts;
+  const handleFilterChange = (values: StoryFilterValues) => {
+    setSearchParams(filterParams(values), { replace: true });
+  };
+
+  // Search keeps the current filters
+  const handleSearch = (value: string) => {
+    if (value.trim()) {
+      const params = filterParams(filters);
+      params.set("q", value);
+      navigate(`/search?${params}`);
+    }
+  };
 
   return (
     <>
@@ -92,12 +84,37 @@ export default function Index() {
               <SearchBar
                 value={searchQuery}
                 onChange={setSearchQuery}
+                onSubmit={handleSearch}
                 placeholder="Search stories by title or keywords..."
               />
             </div>
+
+            {!showFollowing && (
+              <div className="mt-4">
+                <StoryFilters value={filters} onChange={handleFilterChange} />
+              </div>
+            )}
+
+            {user && (
+              <Tabs
+                value={feed}
+                onValueChange={(value) => setFeed(value as "all" | "following")}
+                className="mt-6"
+              >
+                <TabsList>
+                  <TabsTrigger value="all">All stories</TabsTrigger>
+                  <TabsTrigger value="following">Following</TabsTrigger>
+                </TabsList>
+              </Tabs>
+            )}
           </header>
 
-          {loading || authLoading ? (
+          {/* Editor's picks sit above the unfiltered feed */}
+          {!showFollowing && !filters.genre && !filters.tag && (
+            <FeaturedCarousel isAuthenticated={!!user} />
+          )}
+
+          {(loading && !filterNotFound) || authLoading ? (
             <div className="space-y-6">
               {[1, 2, 3].map((i) => (
                 <div key={i} className="flex gap-4 py-6 border-b border-border">
@@ -114,11 +131,11 @@ export default function Index() {
                 </div>
               ))}
             </div>
-          ) : displayPosts.length === 0 ? (
+          ) : !showFollowing && posts.length === 0 ? (
             <div className="text-center py-16">
               <p className="text-muted-foreground text-lg">
-                {isSearching
-                  ? "No stories found matching your search."
+                {filters.genre || filters.tag
+                  ? "No stories match these filters."
                   : "No stories yet. Be the first to share!"}
               </p>
             </div>
@@ -126,15 +143,12 @@ export default function Index() {
             <div className="grid lg:grid-cols-3 gap-8">
               {/* Main content */}
               <div className="lg:col-span-2">
-                {isSearching && (
-                  <p className="text-sm text-muted-foreground mb-4">
-                    Found {displayPosts.length} {displayPosts.length === 1 ? "story" : "stories"}
-                  </p>
-                )}
-                {displayPosts.map((post) => (
+                {showFollowing && <FollowingFeed />}
+                {!showFollowing && posts.map((post) => (
                   <PostCard
                     key={post.id}
                     id={post.id}
+                    shortId={post.short_id}
                     title={post.title}
                     contentPreview={post.content_preview}
                     imageUrl={post.image_url}
@@ -142,26 +156,54 @@ export default function Index() {
                       username: post.username,
                       profilePicUrl: post.profile_pic_url,
                       userId: post.user_id,
+                      handle: post.handle,
                     }}
                     createdAt={post.created_at}
+                    readingMinutes={post.reading_minutes}
+                    likeCount={post.like_count}
+                    commentCount={post.comment_count}
+                    genre={post.genre}
+                    tags={post.tags}
                     isAuthenticated={!!user}
                   />
                 ))}
+                {/* Load the next page as the reader nears the end of the feed */}
+                {!showFollowing && (
+                  <div ref={sentinelRef} className="py-6">
+                    {loadingMore && (
+                      <div className="space-y-3">
+                        <Skeleton className="h-6 w-3/4" />
+                        <Skeleton className="h-4 w-full" />
+                      </div>
+                    )}
+                  </div>
+                )}
               </div>
 
               {/* Sidebar - Trending */}
-              {!isSearching && trendingPosts.length > 0 && (
+              {trendingPosts.length > 0 && (
                 <aside className="hidden lg:block">
                   <div className="sticky top-20">
-                    <h3 className="flex items-center gap-2 font-serif text-lg font-bold text-foreground mb-4">
+                    <h3 className="flex items-center gap-2 font-serif text-lg font-bold text-foreground mb-3">
                       <TrendingUp className="h-5 w-5 text-primary" />
                       Trending Stories
                     </h3>
+                    <ToggleGroup
+                      type="single"
+                      size="sm"
+                      value={trendingWindow}
+                      onValueChange={(value) => value && setTrendingWindow(value as TrendingWindow)}
+                      className="justify-start mb-4"
+                    >
+                      <ToggleGroupItem value="today" className="text-xs">Today</ToggleGroupItem>
+                      <ToggleGroupItem value="week" className="text-xs">This week</ToggleGroupItem>
+                      <ToggleGroupItem value="all" className="text-xs">All time</ToggleGroupItem>
+                    </ToggleGroup>
                     <div className="space-y-4">
                       {trendingPosts.slice(0, 5).map((post, index) => (
-                        <a
+                        <Link
                           key={post.id}
-                          href={user ? `/post/${post.id}` : "/auth"}
+                          to={user ? postPath(post) : "/auth"}
                           className="block group"
                         >
                           <div className="flex gap-3">
@@ -180,7 +222,7 @@ export default function Index() {
                               </p>
                             </div>
                           </div>
-                        </a>
+                        </Link>
                       ))}
                     </div>
                   </div>
@@ -0,0 +1,454 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { Header } from "@/components/Header";
+import { ModerationActionDialog, type PendingModeration } from "@/components/ModerationActionDialog";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useAuth } from "@/hooks/useAuth";
+import {
+  useHiddenPosts,
+  useModerate,
+  useModerationLog,
+  useReportQueue,
+  useSuspendedUsers,
+  useUnpublishedPosts,
+  type ModerationAction,
+  type ModerationRequest,
+  type ReportGroup,
+} from "@/hooks/useModeration";
+import { useToast } from "@/hooks/use-toast";
+import { authorPath } from "@/lib/handles";
+import { REPORT_TARGET_LABELS, reportReasonLabel } from "@/lib/reports";
+import { postPath } from "@/lib/slugs";
+
+// Suspensions "until lifted" are 100-year bans; anything ending this far out is
+// shown as one
+const INDEFINITE_SUSPENSION_YEARS = 50;
+
+const ACTION_LABELS: Record<ModerationAction, string> = {
+  dismiss_reports: "dismissed the reports about",
+  hide_post: "hid the story",
+  unhide_post: "restored the story",
+  remove_post: "removed the story",
+  remove_comment: "removed a response:",
+  suspend_user: "suspended",
+  unsuspend_user: "lifted the suspension of",
+  unpublish_post: "unpublished the story",
+  allow_republish: "let the author republish",
+};
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleString("en-IN", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+function formatSuspension(suspendedUntil: string) {
+  const until = new Date(suspendedUntil);
+  const indefinite = until.getFullYear() - new Date().getFullYear() >= INDEFINITE_SUSPENSION_YEARS;
+
+  return indefinite ? "Suspended until lifted" : `Suspended until ${formatDate(suspendedUntil)}`;
+}
+
+// What a group of reports is about, linking to the story, response or account
+function ReportTargetSummary({ group }: { group: ReportGroup }) {
+  if (group.post) {
+    return (
+      <div className="min-w-0">
+        <Link
+          to={postPath(group.post)}
+          className="font-serif text-lg font-bold text-foreground hover:text-primary transition-colors"
+        >
+          {group.post.title}
+        </Link>
+        {group.post.status === "hidden" && (
+          <Badge variant="outline" className="ml-2 align-middle">
+            Hidden
+          </Badge>
+        )}
+        <p className="text-sm text-muted-foreground">
+          Story by{" "}
+          <Link to={authorPath(group.post.author.handle, group.ownerId)} className="hover:text-foreground">
+            @{group.post.author.handle}
+          </Link>
+        </p>
+      </div>
+    );
+  }
+
+  if (group.comment) {
+    return (
+      <div className="min-w-0">
+        <p className="text-foreground whitespace-pre-wrap break-words line-clamp-4">{group.comment.body}</p>
+        <p className="text-sm text-muted-foreground mt-1">
+          Response by{" "}
+          <Link to={authorPath(group.comment.author.handle, group.ownerId)} className="hover:text-foreground">
+            @{group.comment.author.handle}
+          </Link>{" "}
+          on{" "}
+          <Link to={postPath(group.comment.post)} className="hover:text-foreground">
+            {group.comment.post.title}
+          </Link>
+        </p>
+      </div>
+    );
+  }
+
+  if (group.user) {
+    return (
+      <Link to={authorPath(group.user.handle, group.user.user_id)} className="flex items-center gap-3 min-w-0">
+        <Avatar className="h-10 w-10">
+          <AvatarImage src={group.user.profile_pic_url ?? undefined} alt={group.user.username} />
+          <AvatarFallback className="bg-primary text-primary-foreground">
+            {group.user.username.charAt(0).toUpperCase()}
+          </AvatarFallback>
+        </Avatar>
+        <div className="min-w-0">
+          <p className="font-medium text-foreground truncate">{group.user.username}</p>
+          <p className="text-sm text-muted-foreground">@{group.user.handle}</p>
+        </div>
+      </Link>
+    );
+  }
+
+  return null;
+}
+
+function ListSkeleton() {
+  return (
+    <div className="space-y-4">
+      {[1, 2, 3].map((i) => (
+        <div key={i} className="space-y-2 rounded-lg border border-border p-4">
+          <Skeleton className="h-5 w-2/3" />
+          <Skeleton className="h-4 w-1/3" />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Served at /admin/moderation, for admins only (see App)
+export default function Moderation() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { groups, loading: reportsLoading } = useReportQueue();
+  const { hiddenPosts, loading: hiddenLoading } = useHiddenPosts();
+  const { unpublishedPosts, loading: unpublishedLoading } = useUnpublishedPosts();
+  const { suspendedUsers, loading: suspendedLoading } = useSuspendedUsers();
+  const { entries, loading: logLoading } = useModerationLog();
+  const { moderate } = useModerate();
+  const [pendingAction, setPendingAction] = useState<PendingModeration | null>(null);
+
+  const handleConfirm = async (request: ModerationRequest, note: string) => {
+    const result = await moderate(request, note);
+    toast(
+      result.error
+        ? { title: "Something went wrong", description: result.error.message, variant: "destructive" }
+        : { title: "Done", description: "The decision has been recorded in the audit log" }
+    );
+    return result;
+  };
+
+  // The decisions available for a group of reports, depending on its target
+  const actionsFor = (group: ReportGroup): PendingModeration[] => {
+    const label = REPORT_TARGET_LABELS[group.target.type];
+    const actions: PendingModeration[] = [
+      {
+        request: { kind: "dismiss", target: group.target },
+        title: "Dismiss reports?",
+        description: `The ${label} stays up and its open reports are closed.`,
+        confirmLabel: "Dismiss",
+      },
+    ];
+
+    if (group.post) {
+      actions.push(
+        group.post.status === "hidden"
+          ? {
+              request: { kind: "unhide", postId: group.post.id },
+              title: "Restore story?",
+              description: "The story is published again and shows up in feeds.",
+              confirmLabel: "Restore",
+            }
+          : {
+              request: { kind: "hide", postId: group.post.id },
+              title: "Hide story?",
+              description: "Only the author will see it. You can restore it from Hidden stories.",
+              confirmLabel: "Hide",
+              destructive: true,
+            },
+        {
+          request: { kind: "remove", postId: group.post.id },
+          title: "Remove story?",
+          description: "The story, its responses and likes are permanently deleted.",
+          confirmLabel: "Remove",
+          destructive: true,
+        }
+      );
+    }
+
+    if (group.comment) {
+      actions.push({
+        request: { kind: "remove_comment", commentId: group.comment.id },
+        title: "Remove response?",
+        description: "The response and all replies to it are permanently deleted.",
+        confirmLabel: "Remove",
+        destructive: true,
+      });
+    }
+
+    if (group.ownerId !== user?.id) {
+      actions.push({
+        request: { kind: "suspend", userId: group.ownerId, days: null },
+        title: group.user ? "Suspend account?" : "Suspend the author?",
+        description: "They are signed out everywhere and can't sign in until the suspension ends.",
+        confirmLabel: "Suspend",
+        destructive: true,
+      });
+    }
+
+    return actions;
+  };
+
+  return (
+    <>
+      <Header />
+      <main className="min-h-screen bg-background">
+        <div className="container max-w-3xl py-8">
+          <header className="mb-8">
+            <h1 className="font-serif text-3xl font-bold text-foreground mb-2">Moderation</h1>
+            <p className="text-muted-foreground">
+              Review reports from readers. Every decision is recorded in the audit log.
+            </p>
+          </header>
+
+          <Tabs defaultValue="reports">
+            <TabsList className="mb-6">
+              <TabsTrigger value="reports">
+                Reports {groups.length > 0 && `(${groups.length})`}
+              </TabsTrigger>
+              <TabsTrigger value="hidden">Hidden stories</TabsTrigger>
+              <TabsTrigger value="unpublished">Unpublished</TabsTrigger>
+              <TabsTrigger value="suspended">Suspended</TabsTrigger>
+              <TabsTrigger value="log">Audit log</TabsTrigger>
+            </TabsList>
+
+            {/* Open reports */}
+            <TabsContent value="reports">
+              {reportsLoading ? (
+                <ListSkeleton />
+              ) : groups.length === 0 ? (
+                <p className="text-muted-foreground py-8 text-center">No open reports.</p>
+              ) : (
+                <ul className="space-y-4">
+                  {groups.map((group) => (
+                    <li key={group.key} className="rounded-lg border border-border p-4">
+                      <div className="flex items-start justify-between gap-3 mb-3">
+                        <ReportTargetSummary group={group} />
+                        <Badge variant="secondary" className="shrink-0">
+                          {group.reports.length} {group.reports.length === 1 ? "report" : "reports"}
+                        </Badge>
+                      </div>
+
+                      <ul className="space-y-2 border-l-2 border-border pl-3 mb-4">
+                        {group.reports.map((report) => (
+                          <li key={report.id} className="text-sm">
+                            <span className="font-medium text-foreground">{reportReasonLabel(report.reason)}</span>
+                            <span className="text-muted-foreground">
+                              {" · "}
+                              {report.reporter ? `@${report.reporter.handle}` : "Deleted account"}
+                              {" · "}
+                              {formatDate(report.created_at)}
+                            </span>
+                            {report.details && (
+                              <p className="text-muted-foreground whitespace-pre-wrap break-words">
+                                {report.details}
+                              </p>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+
+                      <div className="flex flex-wrap gap-2">
+                        {actionsFor(group).map((action) => (
+                          <Button
+                            key={action.request.kind}
+                            variant="outline"
+                            size="sm"
+                            className={action.destructive ? "text-destructive hover:text-destructive" : ""}
+                            onClick={() => setPendingAction(action)}
+                          >
+                            {action.confirmLabel}
+                          </Button>
+                        ))}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </TabsContent>
+
+            {/* Stories hidden by moderators */}
+            <TabsContent value="hidden">
+              {hiddenLoading ? (
+                <ListSkeleton />
+              ) : hiddenPosts.length === 0 ? (
+                <p className="text-muted-foreground py-8 text-center">No hidden stories.</p>
+              ) : (
+                <ul className="divide-y divide-border rounded-lg border border-border">
+                  {hiddenPosts.map((post) => (
+                    <li key={post.id} className="flex items-center gap-3 p-4">
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium text-foreground truncate">{post.title}</p>
+                        <p className="text-sm text-muted-foreground">by @{post.author.handle}</p>
+                      </div>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() =>
+                          setPendingAction({
+                            request: { kind: "unhide", postId: post.id },
+                            title: "Restore story?",
+                            description: "The story is published again and shows up in feeds.",
+                            confirmLabel: "Restore",
+                          })
+                        }
+                      >
+                        Restore
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </TabsContent>
+
+            {/* Stories unpublished by editors */}
+            <TabsContent value="unpublished">
+              {unpublishedLoading ? (
+                <ListSkeleton />
+              ) : unpublishedPosts.length === 0 ? (
+                <p className="text-muted-foreground py-8 text-center">No unpublished stories.</p>
+              ) : (
+                <ul className="divide-y divide-border rounded-lg border border-border">
+                  {unpublishedPosts.map((post) => (
+                    <li key={post.id} className="flex items-center gap-3 p-4">
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium text-foreground truncate">{post.title}</p>
+                        <p className="text-sm text-muted-foreground">by @{post.author.handle}</p>
+                      </div>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() =>
+                          setPendingAction({
+                            request: { kind: "allow_republish", postId: post.id },
+                            title: "Allow republishing?",
+                            description: "The story stays in the author's drafts, and they can publish it again.",
+                            confirmLabel: "Allow",
+                          })
+                        }
+                      >
+                        Allow republishing
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </TabsContent>
+
+            {/* Suspended accounts */}
+            <TabsContent value="suspended">
+              {suspendedLoading ? (
+                <ListSkeleton />
+              ) : suspendedUsers.length === 0 ? (
+                <p className="text-muted-foreground py-8 text-center">No suspended accounts.</p>
+              ) : (
+                <ul className="divide-y divide-border rounded-lg border border-border">
+                  {suspendedUsers.map((suspended) => (
+                    <li key={suspended.user_id} className="flex items-center gap-3 p-4">
+                      <Avatar className="h-10 w-10">
+                        <AvatarImage src={suspended.profile_pic_url} alt={suspended.username} />
+                        <AvatarFallback className="bg-primary text-primary-foreground">
+                          {suspended.username.charAt(0).toUpperCase()}
+                        </AvatarFallback>
+                      </Avatar>
+                      <div className="flex-1 min-w-0">
+                        <Link
+                          to={authorPath(suspended.handle, suspended.user_id)}
+                          className="block font-medium text-foreground hover:text-primary transition-colors truncate"
+                        >
+                          {suspended.username}
+                        </Link>
+                        <p className="text-sm text-muted-foreground">
+                          @{suspended.handle} · {formatSuspension(suspended.suspended_until)}
+                        </p>
+                      </div>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() =>
+                          setPendingAction({
+                            request: { kind: "unsuspend", userId: suspended.user_id },
+                            title: "Lift suspension?",
+                            description: `@${suspended.handle} will be able to sign in again.`,
+                            confirmLabel: "Lift suspension",
+                          })
+                        }
+                      >
+                        Lift suspension
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </TabsContent>
+
+            {/* Audit log */}
+            <TabsContent value="log">
+              {logLoading ? (
+                <ListSkeleton />
+              ) : entries.length === 0 ? (
+                <p className="text-muted-foreground py-8 text-center">No moderation actions yet.</p>
+              ) : (
+                <ul className="divide-y divide-border rounded-lg border border-border">
+                  {entries.map((entry) => (
+                    <li key={entry.id} className="p-4 text-sm">
+                      <p className="text-foreground break-words">
+                        <span className="font-medium">
+                          {entry.moderator ? `@${entry.moderator.handle}` : "A former moderator"}
+                        </span>{" "}
+                        {ACTION_LABELS[entry.action]} <span className="font-medium">{entry.target_summary}</span>
+                      </p>
+                      {entry.note && (
+                        <p className="text-muted-foreground whitespace-pre-wrap break-words mt-1">
+                          {entry.note}
+                        </p>
+                      )}
+                      <time className="block text-xs text-muted-foreground mt-1">
+                        {formatDate(entry.created_at)}
+                      </time>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </TabsContent>
+          </Tabs>
+        </div>
+      </main>
+
+      {pendingAction && (
+        <ModerationActionDialog
+          action={pendingAction}
+          onOpenChange={(open) => !open && setPendingAction(null)}
+          onConfirm={handleConfirm}
+        />
+      )}
+    </>
+  );
+}
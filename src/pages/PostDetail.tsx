@@ -1,93 +1,177 @@
 import { useEffect, useState } from "react";
-import { useParams, Link } from "react-router-dom";
+import { useParams, Link, useNavigate } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
 import { Header } from "@/components/Header";
+import { StoryContent } from "@/components/StoryContent";
+import { CommentSection } from "@/components/CommentSection";
+import { FeatureStoryDialog } from "@/components/FeatureStoryDialog";
+import { StoryCategories } from "@/components/StoryCategories";
+import { ChapterNavigation, SeriesHeader } from "@/components/SeriesNavigation";
+import { ReportDialog } from "@/components/ReportDialog";
+import { UnpublishStoryDialog } from "@/components/UnpublishStoryDialog";
 import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { useAuth } from "@/hooks/useAuth";
+import { useEditorialActions, useFeaturedPosts } from "@/hooks/useEditorial";
+import { useRole } from "@/hooks/useRole";
 import { useRecommendations } from "@/hooks/useRecommendations";
+import { usePostEngagement } from "@/hooks/usePostEngagement";
+import { findCachedPost, useRecentPosts } from "@/hooks/usePostFeed";
+import { usePostTracking } from "@/hooks/usePostTracking";
+import { useReadingProgress } from "@/hooks/useReadingProgress";
+import { useSeries } from "@/hooks/useSeries";
+import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
+import { authorPath } from "@/lib/handles";
+import { fetchPost, FeedPost, formatReadingTime } from "@/lib/posts";
+import { parsePostParam, postPath, PostRef } from "@/lib/slugs";
+import { Progress } from "@/components/ui/progress";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { ArrowLeft, Lock, BookOpen } from "lucide-react";
-
-interface Post {
-  id: string;
-  user_id: string;
-  title: string;
-  content_preview: string;
-  content_full: string;
-  image_url: string | null;
-  created_at: string;
-  username: string;
-  profile_pic_url: string;
-}
+import { ArrowDown, ArrowLeft, Lock, BookOpen, Heart, Bookmark, EyeOff, Flag, ShieldCheck, Star, StarOff } from "lucide-react";
+
+// Recommendations are picked from this many of the newest stories
+const RECOMMENDATION_POOL_SIZE = 30;
 
 export default function PostDetail() {
-  const { id } = useParams<{ id: string }>();
+  const { slugId = "" } = useParams<{ slugId: string }>();
   const { user, loading: authLoading } = useAuth();
-  const [post, setPost] = useState<Post | null>(null);
-  const [allPosts, setAllPosts] = useState<Post[]>([]);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [post, setPost] = useState<FeedPost | null>(null);
+  const [contentFull, setContentFull] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
+  const [isReporting, setIsReporting] = useState(false);
+  const [isUnpublishing, setIsUnpublishing] = useState(false);
+  const [isFeaturing, setIsFeaturing] = useState(false);
+
+  const { posts: recentPosts } = useRecentPosts(RECOMMENDATION_POOL_SIZE, !!user);
+  const recommendations = useRecommendations(post, recentPosts, 3);
+  const { likeCount, isLiked, isBookmarked, toggleLike, toggleBookmark } = usePostEngagement(
+    post?.id,
+    post?.like_count
+  );
+  const { storyEndRef } = usePostTracking(post?.id, post?.user_id);
+  const { progress, resumeProgress, resume, storyRef } = useReadingProgress(post?.id);
+  const { series } = useSeries(post?.series_id);
+  const { isEditor } = useRole();
+  const { featuredPosts } = useFeaturedPosts();
+  const { unfeaturePost, unpublishPost } = useEditorialActions();
+
+  const postRef = parsePostParam(slugId);
+  const shortId = postRef && "shortId" in postRef ? postRef.shortId : undefined;
+  const legacyId = postRef && "id" in postRef ? postRef.id : undefined;
+  const postId = post?.id;
+
+  useEffect(() => {
+    if (shortId) {
+      // Show the copy from a feed the reader came from while the story loads
+      const cachedPost = findCachedPost(queryClient, shortId);
+      if (cachedPost) {
+        setPost(cachedPost);
+        setLoading(false);
+      }
+      loadPost({ shortId });
+    } else if (legacyId) {
+      loadPost({ id: legacyId });
+    } else {
+      setPost(null);
+      setLoading(false);
+    }
+  }, [shortId, legacyId, queryClient]);
 
-  const recommendations = useRecommendations(post, allPosts, 3);
+  useEffect(() => {
+    if (postId && user) {
+      fetchContent(postId);
+    } else {
+      setContentFull(null);
+    }
+  }, [postId, user]);
 
+  // Old id links and slugs from before a title edit go to the current URL. The
+  // story must be the one in the URL, not the previous one still on screen.
   useEffect(() => {
-    if (id) {
-      fetchPost(id);
-      fetchAllPosts();
+    if (!post || (post.short_id !== shortId && post.id !== legacyId)) return;
+
+    const canonicalPath = postPath(post);
+    if (`/post/${slugId}` !== canonicalPath) {
+      navigate(canonicalPath, { replace: true });
     }
-  }, [id]);
+  }, [post, shortId, legacyId, slugId, navigate]);
 
-  const fetchPost = async (postId: string) => {
-    const { data: postData, error: postError } = await supabase
-      .from("posts")
-      .select("id, user_id, title, content_preview, content_full, image_url, created_at")
-      .eq("id", postId)
+  const loadPost = async (ref: PostRef) => {
+    try {
+      setPost(await fetchPost(ref));
+    } catch {
+      setPost(null);
+    }
+    setLoading(false);
+  };
+
+  // Full text is only readable by signed-in users (enforced by RLS on post_contents)
+  const fetchContent = async (postId: string) => {
+    const { data } = await supabase
+      .from("post_contents")
+      .select("content_full")
+      .eq("post_id", postId)
       .maybeSingle();
 
-    if (postError || !postData) {
-      setLoading(false);
+    setContentFull(data?.content_full ?? null);
+  };
+
+  const handleEngagement = async (toggle: () => Promise<{ error: Error | null }>) => {
+    if (!user) {
+      navigate("/auth");
       return;
     }
 
-    // Fetch profile for this post
-    const { data: profileData } = await supabase
-      .from("profiles")
-      .select("username, profile_pic_url")
-      .eq("user_id", postData.user_id)
-      .maybeSingle();
+    const { error } = await toggle();
+    if (error) {
+      toast({
+        title: "Something went wrong",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
 
-    setPost({
-      ...postData,
-      username: profileData?.username || "Anonymous",
-      profile_pic_url: profileData?.profile_pic_url || "",
-    });
-    setLoading(false);
+  const featured = featuredPosts.find((featuredPost) => featuredPost.post.id === postId);
+
+  const handleUnfeature = async () => {
+    if (!postId) return;
+
+    const { error } = await unfeaturePost(postId);
+    toast(
+      error
+        ? { title: "Something went wrong", description: error.message, variant: "destructive" }
+        : { title: "Removed from featured stories" }
+    );
   };
 
-  const fetchAllPosts = async () => {
-    const { data: postsData } = await supabase
-      .from("posts")
-      .select("id, user_id, title, content_preview, content_full, image_url, created_at")
-      .order("created_at", { ascending: false });
-
-    if (postsData) {
-      // Get profiles for posts
-      const userIds = [...new Set(postsData.map((p) => p.user_id))];
-      const { data: profilesData } = await supabase
-        .from("profiles")
-        .select("user_id, username, profile_pic_url")
-        .in("user_id", userIds);
-
-      const profilesMap = new Map(profilesData?.map((p) => [p.user_id, p]) || []);
-
-      setAllPosts(
-        postsData.map((p) => ({
-          ...p,
-          username: profilesMap.get(p.user_id)?.username || "Anonymous",
-          profile_pic_url: profilesMap.get(p.user_id)?.profile_pic_url || "",
-        }))
-      );
+  const handleUnpublish = async (note: string) => {
+    if (!postId) return;
+
+    const { error } = await unpublishPost(postId, note);
+    if (error) {
+      toast({
+        title: "Failed to unpublish",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
     }
+
+    toast({
+      title: "Story unpublished",
+      description: "It's back in the author's drafts",
+    });
+    navigate("/");
   };
 
   const formattedDate = post
@@ -142,6 +226,13 @@ export default function PostDetail() {
   return (
     <>
       <Header />
+      {contentFull !== null && (
+        <Progress
+          value={progress * 100}
+          aria-label="Reading progress"
+          className="fixed inset-x-0 top-0 z-50 h-1 rounded-none bg-transparent"
+        />
+      )}
       <main className="min-h-screen bg-background">
         <article className="container max-w-3xl py-8">
           {/* Back link */}
@@ -153,14 +244,20 @@ export default function PostDetail() {
             Back to stories
           </Link>
 
+          {/* Series */}
+          {series && <SeriesHeader series={series} postId={post.id} />}
+
           {/* Title */}
           <h1 className="font-serif text-3xl md:text-4xl font-bold text-foreground mb-4 leading-tight">
             {post.title}
           </h1>
 
+          {/* Genre and tags */}
+          <StoryCategories genre={post.genre} tags={post.tags} className="mb-6" />
+
           {/* Author info */}
           <div className="flex items-center gap-3 mb-8 pb-6 border-b border-border">
-            <Link to={`/author/${post.user_id}`}>
+            <Link to={authorPath(post.handle, post.user_id)}>
               <Avatar className="h-10 w-10">
                 <AvatarImage src={post.profile_pic_url} alt={post.username} />
                 <AvatarFallback className="bg-primary text-primary-foreground">
@@ -170,12 +267,87 @@ export default function PostDetail() {
             </Link>
             <div>
               <Link
-                to={`/author/${post.user_id}`}
+                to={authorPath(post.handle, post.user_id)}
                 className="font-medium text-foreground hover:text-primary transition-colors"
               >
                 {post.username}
               </Link>
-              <time className="block text-sm text-muted-foreground">{formattedDate}</time>
+              <p className="text-sm text-muted-foreground">
+                <time>{formattedDate}</time>
+                {post.word_count > 0 && (
+                  <>
+                    {" · "}
+                    {post.word_count.toLocaleString("en-IN")} words · {formatReadingTime(post.reading_minutes)}
+                  </>
+                )}
+              </p>
+            </div>
+
+            {/* Like / bookmark */}
+            <div className="ml-auto flex items-center gap-1">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleEngagement(toggleLike)}
+                aria-pressed={isLiked}
+                className={isLiked ? "text-primary" : "text-muted-foreground"}
+              >
+                <Heart className={`h-4 w-4 ${isLiked ? "fill-current" : ""}`} />
+                <span>{likeCount}</span>
+                <span className="sr-only">{isLiked ? "Unlike" : "Like"}</span>
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleEngagement(toggleBookmark)}
+                aria-pressed={isBookmarked}
+                className={isBookmarked ? "text-primary" : "text-muted-foreground"}
+              >
+                <Bookmark className={`h-4 w-4 ${isBookmarked ? "fill-current" : ""}`} />
+                <span className="sr-only">
+                  {isBookmarked ? "Remove from reading list" : "Save to reading list"}
+                </span>
+              </Button>
+              {user && user.id !== post.user_id && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setIsReporting(true)}
+                  className="text-muted-foreground"
+                >
+                  <Flag className="h-4 w-4" />
+                  <span className="sr-only">Report story</span>
+                </Button>
+              )}
+              {isEditor && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="ghost" size="sm" className="text-muted-foreground">
+                      <ShieldCheck className="h-4 w-4" />
+                      <span className="sr-only">Editor tools</span>
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem onClick={() => setIsFeaturing(true)}>
+                      <Star className="h-4 w-4" />
+                      {featured ? "Edit feature" : "Feature on front page"}
+                    </DropdownMenuItem>
+                    {featured && (
+                      <DropdownMenuItem onClick={handleUnfeature}>
+                        <StarOff className="h-4 w-4" />
+                        Remove from featured
+                      </DropdownMenuItem>
+                    )}
+                    <DropdownMenuItem
+                      onClick={() => setIsUnpublishing(true)}
+                      className="text-destructive focus:text-destructive"
+                    >
+                      <EyeOff className="h-4 w-4" />
+                      Unpublish
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
             </div>
           </div>
 
@@ -193,9 +365,30 @@ export default function PostDetail() {
 
           {/* Content */}
           {user ? (
-            <div className="story-content text-lg leading-relaxed whitespace-pre-wrap">
-              {post.content_full}
-            </div>
+            contentFull !== null ? (
+              <>
+                {resumeProgress !== null && (
+                  <div className="flex flex-wrap items-center justify-between gap-2 rounded-lg border border-border bg-muted/50 px-4 py-3 mb-6">
+                    <p className="text-sm text-muted-foreground">
+                      You were {Math.round(resumeProgress * 100)}% through this story.
+                    </p>
+                    <Button variant="outline" size="sm" onClick={resume}>
+                      <ArrowDown className="h-4 w-4" />
+                      Continue where you left off
+                    </Button>
+                  </div>
+                )}
+                <div ref={storyRef}>
+                  <StoryContent content={contentFull} className="text-lg leading-relaxed" />
+                  {/* Reaching this marker counts as reading the story to completion */}
+                  <div ref={storyEndRef} aria-hidden="true" />
+                </div>
+              </>
+            ) : (
+              <div className="story-content text-lg leading-relaxed whitespace-pre-wrap">
+                {post.content_preview}
+              </div>
+            )
           ) : (
             <div className="relative">
               <div className="content-blur">
@@ -223,8 +416,14 @@ export default function PostDetail() {
               </div>
             </div>
           )}
+
+          {/* Previous / next chapter */}
+          {user && series && <ChapterNavigation series={series} postId={post.id} />}
         </article>
 
+        {/* Comments */}
+        <CommentSection postId={post.id} postAuthorId={post.user_id} />
+
         {/* Recommendations */}
         {user && recommendations.length > 0 && (
           <section className="container max-w-3xl py-8 border-t border-border">
@@ -236,7 +435,7 @@ export default function PostDetail() {
               {recommendations.map((rec) => (
                 <Link
                   key={rec.id}
-                  to={`/post/${rec.id}`}
+                  to={postPath(rec)}
                   className="group block p-4 rounded-lg border border-border hover:border-primary/50 transition-colors"
                 >
                   {rec.image_url && (
@@ -266,6 +465,32 @@ export default function PostDetail() {
           </div>
         </footer>
       </main>
+
+      {/* Report Dialog */}
+      <ReportDialog
+        open={isReporting}
+        onOpenChange={setIsReporting}
+        target={{ type: "post", id: post.id }}
+      />
+
+      {/* Feature Dialog */}
+      {isFeaturing && (
+        <FeatureStoryDialog
+          open={isFeaturing}
+          onOpenChange={setIsFeaturing}
+          postId={post.id}
+          storyTitle={post.title}
+          featured={featured}
+        />
+      )}
+
+      {/* Unpublish Dialog */}
+      <UnpublishStoryDialog
+        open={isUnpublishing}
+        onOpenChange={setIsUnpublishing}
+        storyTitle={post.title}
+        onConfirm={handleUnpublish}
+      />
     </>
   );
 }
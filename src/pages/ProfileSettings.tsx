@@ -0,0 +1,395 @@
+import { useEffect, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
+import { z } from "zod";
+import { Header } from "@/components/Header";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { authorPath, handleSchema, isHandleAvailable } from "@/lib/handles";
+import { Camera, Loader2 } from "lucide-react";
+
+const MAX_BIO_LENGTH = 500;
+const MAX_AVATAR_SIZE = 2 * 1024 * 1024;
+
+// Accept "@handle" as well as "handle" for the social accounts
+const socialHandle = (pattern: RegExp, message: string) =>
+  z
+    .string()
+    .trim()
+    .transform((value) => value.replace(/^@/, ""))
+    .refine((value) => value === "" || pattern.test(value), { message });
+
+const profileSchema = z.object({
+  username: z
+    .string()
+    .trim()
+    .min(3, "Display name must be at least 3 characters")
+    .max(50, "Display name must be less than 50 characters"),
+  handle: handleSchema,
+  bio: z.string().trim().max(MAX_BIO_LENGTH, `Bio must be less than ${MAX_BIO_LENGTH} characters`),
+  websiteUrl: z
+    .string()
+    .trim()
+    .max(200, "Website must be less than 200 characters")
+    .refine((value) => value === "" || /^https?:\/\/\S+$/i.test(value), {
+      message: "Enter a full link starting with https://",
+    }),
+  twitterHandle: socialHandle(/^[A-Za-z0-9_]{1,15}$/, "Enter a valid X (Twitter) username"),
+  instagramHandle: socialHandle(/^[A-Za-z0-9_.]{1,30}$/, "Enter a valid Instagram username"),
+});
+
+export default function ProfileSettings() {
+  const { user, profile, loading: authLoading, refreshProfile } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [username, setUsername] = useState("");
+  const [handle, setHandle] = useState("");
+  const [bio, setBio] = useState("");
+  const [websiteUrl, setWebsiteUrl] = useState("");
+  const [twitterHandle, setTwitterHandle] = useState("");
+  const [instagramHandle, setInstagramHandle] = useState("");
+  const [avatarFile, setAvatarFile] = useState<File | null>(null);
+  const [avatarPreview, setAvatarPreview] = useState<string | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate("/auth");
+    }
+  }, [user, authLoading, navigate]);
+
+  // Fill the form once the profile has loaded
+  useEffect(() => {
+    if (!profile) return;
+
+    setUsername(profile.username);
+    setHandle(profile.handle);
+    setBio(profile.bio ?? "");
+    setWebsiteUrl(profile.website_url ?? "");
+    setTwitterHandle(profile.twitter_handle ?? "");
+    setInstagramHandle(profile.instagram_handle ?? "");
+    setAvatarPreview(profile.profile_pic_url);
+  }, [profile]);
+
+  const handleAvatarChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      if (file.size > MAX_AVATAR_SIZE) {
+        toast({
+          title: "File too large",
+          description: "Profile picture must be less than 2MB",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      if (!file.type.startsWith("image/")) {
+        toast({
+          title: "Invalid file type",
+          description: "Please upload an image file",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      setAvatarFile(file);
+      const reader = new FileReader();
+      reader.onloadend = () => {
+        setAvatarPreview(reader.result as string);
+      };
+      reader.readAsDataURL(file);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const result = profileSchema.safeParse({
+      username,
+      handle,
+      bio,
+      websiteUrl,
+      twitterHandle,
+      instagramHandle,
+    });
+
+    if (!result.success) {
+      const fieldErrors: Record<string, string> = {};
+      result.error.errors.forEach((err) => {
+        const field = err.path[0] as string;
+        fieldErrors[field] = err.message;
+      });
+      setErrors(fieldErrors);
+      return;
+    }
+
+    if (!user) return;
+
+    setErrors({});
+    setIsSubmitting(true);
+
+    try {
+      const values = result.data;
+
+      if (values.handle !== profile?.handle && !(await isHandleAvailable(values.handle))) {
+        setErrors({ handle: "This handle is taken or reserved, try another" });
+        return;
+      }
+
+      let profilePicUrl = profile?.profile_pic_url ?? null;
+
+      if (avatarFile) {
+        const fileExt = avatarFile.name.split(".").pop();
+        const fileName = `${user.id}/${Date.now()}.${fileExt}`;
+
+        const { error: uploadError } = await supabase.storage
+          .from("avatars")
+          .upload(fileName, avatarFile);
+
+        if (uploadError) {
+          throw new Error("Failed to upload profile picture");
+        }
+
+        const { data: urlData } = supabase.storage
+          .from("avatars")
+          .getPublicUrl(fileName);
+
+        profilePicUrl = urlData.publicUrl;
+      }
+
+      const { error } = await supabase
+        .from("profiles")
+        .update({
+          username: values.username,
+          handle: values.handle,
+          bio: values.bio || null,
+          website_url: values.websiteUrl || null,
+          twitter_handle: values.twitterHandle || null,
+          instagram_handle: values.instagramHandle || null,
+          profile_pic_url: profilePicUrl,
+        })
+        .eq("user_id", user.id);
+
+      if (error) throw new Error(error.message);
+
+      setAvatarFile(null);
+      await refreshProfile();
+      // Feeds cache author names and pictures alongside the stories
+      queryClient.invalidateQueries({ queryKey: ["posts"] });
+
+      toast({
+        title: "Profile updated!",
+        description: "Your changes have been saved",
+      });
+    } catch (error) {
+      toast({
+        title: "Failed to update",
+        description: error instanceof Error ? error.message : "Something went wrong",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (authLoading || (user && !profile)) {
+    return (
+      <>
+        <Header />
+        <main className="min-h-screen bg-background flex items-center justify-center">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </main>
+      </>
+    );
+  }
+
+  if (!user) {
+    return null;
+  }
+
+  return (
+    <>
+      <Header />
+      <main className="min-h-screen bg-background">
+        <div className="container max-w-2xl py-8">
+          <header className="mb-8">
+            <h1 className="font-serif text-3xl font-bold text-foreground mb-2">
+              Edit Profile
+            </h1>
+            <p className="text-muted-foreground">
+              This is how readers see you on{" "}
+              <Link to={authorPath(profile?.handle, user.id)} className="text-primary hover:underline">
+                your author page
+              </Link>
+            </p>
+          </header>
+
+          <form onSubmit={handleSubmit} className="space-y-6">
+            {/* Profile picture */}
+            <div className="flex items-center gap-4">
+              <Avatar className="h-20 w-20">
+                <AvatarImage src={avatarPreview ?? undefined} alt={username} />
+                <AvatarFallback className="bg-primary text-primary-foreground text-2xl">
+                  {username.charAt(0).toUpperCase() || "U"}
+                </AvatarFallback>
+              </Avatar>
+              <div>
+                <Button type="button" variant="outline" size="sm" asChild>
+                  <label className="cursor-pointer">
+                    <Camera className="h-4 w-4" />
+                    Change picture
+                    <input
+                      type="file"
+                      className="hidden"
+                      accept="image/*"
+                      onChange={handleAvatarChange}
+                    />
+                  </label>
+                </Button>
+                <p className="text-xs text-muted-foreground mt-2">PNG, JPG up to 2MB</p>
+              </div>
+            </div>
+
+            {/* Display name */}
+            <div className="space-y-2">
+              <Label htmlFor="username">Display name</Label>
+              <Input
+                id="username"
+                type="text"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                className={errors.username ? "border-destructive" : ""}
+                maxLength={50}
+              />
+              {errors.username && (
+                <p className="text-sm text-destructive">{errors.username}</p>
+              )}
+            </div>
+
+            {/* Handle */}
+            <div className="space-y-2">
+              <Label htmlFor="handle">Handle</Label>
+              <div className="flex gap-2">
+                <div className="flex items-center justify-center px-3 bg-muted border border-input rounded-md text-sm text-muted-foreground">
+                  @
+                </div>
+                <Input
+                  id="handle"
+                  type="text"
+                  value={handle}
+                  onChange={(e) => setHandle(e.target.value.replace(/\s/g, ""))}
+                  className={`flex-1 ${errors.handle ? "border-destructive" : ""}`}
+                  maxLength={30}
+                  autoCapitalize="none"
+                  autoCorrect="off"
+                />
+              </div>
+              {errors.handle ? (
+                <p className="text-sm text-destructive">{errors.handle}</p>
+              ) : (
+                <p className="text-xs text-muted-foreground">
+                  Changing your handle changes your author page link
+                </p>
+              )}
+            </div>
+
+            {/* Bio */}
+            <div className="space-y-2">
+              <Label htmlFor="bio">Bio</Label>
+              <Textarea
+                id="bio"
+                placeholder="Tell readers a little about yourself"
+                value={bio}
+                onChange={(e) => setBio(e.target.value)}
+                className={errors.bio ? "border-destructive" : ""}
+                maxLength={MAX_BIO_LENGTH}
+                rows={4}
+              />
+              <div className="flex justify-between text-sm text-muted-foreground">
+                {errors.bio ? <p className="text-destructive">{errors.bio}</p> : <p />}
+                <p>
+                  {bio.length} / {MAX_BIO_LENGTH}
+                </p>
+              </div>
+            </div>
+
+            {/* Links */}
+            <div className="space-y-2">
+              <Label htmlFor="website">Website</Label>
+              <Input
+                id="website"
+                type="url"
+                placeholder="https://"
+                value={websiteUrl}
+                onChange={(e) => setWebsiteUrl(e.target.value)}
+                className={errors.websiteUrl ? "border-destructive" : ""}
+                maxLength={200}
+              />
+              {errors.websiteUrl && (
+                <p className="text-sm text-destructive">{errors.websiteUrl}</p>
+              )}
+            </div>
+
+            <div className="grid gap-6 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="twitter">X (Twitter)</Label>
+                <Input
+                  id="twitter"
+                  type="text"
+                  placeholder="@username"
+                  value={twitterHandle}
+                  onChange={(e) => setTwitterHandle(e.target.value)}
+                  className={errors.twitterHandle ? "border-destructive" : ""}
+                  maxLength={16}
+                />
+                {errors.twitterHandle && (
+                  <p className="text-sm text-destructive">{errors.twitterHandle}</p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="instagram">Instagram</Label>
+                <Input
+                  id="instagram"
+                  type="text"
+                  placeholder="@username"
+                  value={instagramHandle}
+                  onChange={(e) => setInstagramHandle(e.target.value)}
+                  className={errors.instagramHandle ? "border-destructive" : ""}
+                  maxLength={31}
+                />
+                {errors.instagramHandle && (
+                  <p className="text-sm text-destructive">{errors.instagramHandle}</p>
+                )}
+              </div>
+            </div>
+
+            <div className="flex gap-3 pt-4">
+              <Button type="button" variant="outline" asChild disabled={isSubmitting}>
+                <Link to={authorPath(profile?.handle, user.id)}>Cancel</Link>
+              </Button>
+              <Button type="submit" variant="cta" disabled={isSubmitting}>
+                {isSubmitting ? (
+                  <>
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  "Save Changes"
+                )}
+              </Button>
+            </div>
+          </form>
+        </div>
+      </main>
+    </>
+  );
+}
@@ -0,0 +1,128 @@
+import { useEffect, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { Header } from "@/components/Header";
+import { PostCard } from "@/components/PostCard";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { fetchPostsByIds, FeedPost } from "@/lib/posts";
+import { Bookmark } from "lucide-react";
+
+export default function ReadingList() {
+  const { user, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const [posts, setPosts] = useState<FeedPost[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate("/auth");
+    }
+  }, [user, authLoading, navigate]);
+
+  useEffect(() => {
+    if (userId) {
+      fetchReadingList(userId);
+    }
+  }, [userId]);
+
+  const fetchReadingList = async (readerId: string) => {
+    // Most recently saved first
+    const { data: bookmarksData, error: bookmarksError } = await supabase
+      .from("bookmarks")
+      .select("post_id")
+      .eq("user_id", readerId)
+      .order("created_at", { ascending: false });
+
+    if (bookmarksError || !bookmarksData || bookmarksData.length === 0) {
+      setPosts([]);
+      setLoading(false);
+      return;
+    }
+
+    // Keeps the bookmark order, skipping stories that are no longer published
+    try {
+      setPosts(await fetchPostsByIds(bookmarksData.map((b) => b.post_id)));
+    } catch {
+      setPosts([]);
+    }
+    setLoading(false);
+  };
+
+  if (authLoading || (user && loading)) {
+    return (
+      <>
+        <Header />
+        <main className="min-h-screen bg-background">
+          <div className="container max-w-3xl py-8 space-y-6">
+            <Skeleton className="h-8 w-48" />
+            {[1, 2].map((i) => (
+              <div key={i} className="space-y-3 py-6 border-b border-border">
+                <Skeleton className="h-6 w-3/4" />
+                <Skeleton className="h-4 w-full" />
+                <Skeleton className="h-4 w-2/3" />
+              </div>
+            ))}
+          </div>
+        </main>
+      </>
+    );
+  }
+
+  if (!user) {
+    return null;
+  }
+
+  return (
+    <>
+      <Header />
+      <main className="min-h-screen bg-background">
+        <div className="container max-w-3xl py-8">
+          <header className="mb-8">
+            <h1 className="flex items-center gap-2 font-serif text-3xl font-bold text-foreground mb-2">
+              <Bookmark className="h-7 w-7 text-primary" />
+              Reading List
+            </h1>
+            <p className="text-muted-foreground">Stories you've saved for later</p>
+          </header>
+
+          {posts.length === 0 ? (
+            <div className="text-center py-16">
+              <p className="text-muted-foreground text-lg mb-4">
+                You haven't saved any stories yet.
+              </p>
+              <Button variant="outline" asChild>
+                <Link to="/">Discover stories</Link>
+              </Button>
+            </div>
+          ) : (
+            posts.map((post) => (
+              <PostCard
+                key={post.id}
+                id={post.id}
+                shortId={post.short_id}
+                title={post.title}
+                contentPreview={post.content_preview}
+                imageUrl={post.image_url}
+                author={{
+                  username: post.username,
+                  profilePicUrl: post.profile_pic_url,
+                  userId: post.user_id,
+                  handle: post.handle,
+                }}
+                createdAt={post.created_at}
+                readingMinutes={post.reading_minutes}
+                likeCount={post.like_count}
+                commentCount={post.comment_count}
+                isAuthenticated={!!user}
+              />
+            ))
+          )}
+        </div>
+      </main>
+    </>
+  );
+}
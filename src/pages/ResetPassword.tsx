@@ -0,0 +1,232 @@
+import { useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { phoneSchema, passwordSchema } from "@/lib/credentials";
+import { Header } from "@/components/Header";
+import { PhoneCodeForm } from "@/components/PhoneCodeForm";
+import { Eye, EyeOff } from "lucide-react";
+
+const newPasswordSchema = z
+  .object({
+    password: passwordSchema,
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: "Passwords don't match",
+    path: ["confirmPassword"],
+  });
+
+type Step = "phone" | "code" | "password";
+
+// Account recovery: the code texted to the account's number proves ownership
+// and signs the user in, then they choose a new password
+export default function ResetPassword() {
+  const [step, setStep] = useState<Step>("phone");
+  const [phone, setPhone] = useState("");
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [showPassword, setShowPassword] = useState(false);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const { sendSignInCode, verifyPhone, updatePassword } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const handleSendCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const result = phoneSchema.safeParse(phone);
+    if (!result.success) {
+      setErrors({ phone: result.error.errors[0].message });
+      return;
+    }
+
+    setErrors({});
+    setIsSubmitting(true);
+
+    const { error } = await sendSignInCode(phone);
+    if (error) {
+      toast({
+        title: "Couldn't send a code",
+        description: error.message.includes("Signups not allowed")
+          ? "No account uses this number"
+          : error.message,
+        variant: "destructive",
+      });
+    } else {
+      setStep("code");
+    }
+
+    setIsSubmitting(false);
+  };
+
+  const handleVerify = async (code: string) => {
+    const result = await verifyPhone(phone, code);
+    if (!result.error) {
+      setStep("password");
+    }
+    return result;
+  };
+
+  const handleSetPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const result = newPasswordSchema.safeParse({ password, confirmPassword });
+    if (!result.success) {
+      const fieldErrors: Record<string, string> = {};
+      result.error.errors.forEach((err) => {
+        const field = err.path[0] as string;
+        fieldErrors[field] = err.message;
+      });
+      setErrors(fieldErrors);
+      return;
+    }
+
+    setErrors({});
+    setIsSubmitting(true);
+
+    const { error } = await updatePassword(password);
+    if (error) {
+      toast({
+        title: "Couldn't update password",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      toast({
+        title: "Password updated",
+        description: "You've been signed out everywhere else",
+      });
+      navigate("/");
+    }
+
+    setIsSubmitting(false);
+  };
+
+  return (
+    <>
+      <Header />
+      <main className="min-h-screen bg-background flex items-center justify-center py-12 px-4">
+        <div className="w-full max-w-md">
+          <div className="bg-card border border-border rounded-lg shadow-card p-8">
+            <div className="text-center mb-8">
+              <h1 className="font-serif text-2xl font-bold text-foreground mb-2">
+                {step === "password" ? "Choose a new password" : "Reset your password"}
+              </h1>
+              <p className="text-muted-foreground">
+                {step === "phone"
+                  ? "We'll text a code to the number on your account"
+                  : step === "code"
+                  ? "Enter the code to confirm it's you"
+                  : "Other devices will be signed out"}
+              </p>
+            </div>
+
+            {step === "phone" && (
+              <form onSubmit={handleSendCode} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="phone">Mobile Number</Label>
+                  <div className="flex gap-2">
+                    <div className="flex items-center justify-center px-3 bg-muted border border-input rounded-md text-sm text-muted-foreground">
+                      +91
+                    </div>
+                    <Input
+                      id="phone"
+                      type="tel"
+                      placeholder="Enter 10-digit number"
+                      value={phone}
+                      onChange={(e) => setPhone(e.target.value.replace(/\D/g, "").slice(0, 10))}
+                      className={`flex-1 ${errors.phone ? "border-destructive" : ""}`}
+                      maxLength={10}
+                    />
+                  </div>
+                  {errors.phone && (
+                    <p className="text-sm text-destructive">{errors.phone}</p>
+                  )}
+                </div>
+
+                <Button type="submit" variant="cta" className="w-full" disabled={isSubmitting}>
+                  {isSubmitting ? "Please wait..." : "Text me a code"}
+                </Button>
+              </form>
+            )}
+
+            {step === "code" && (
+              <PhoneCodeForm
+                phone={phone}
+                onVerify={handleVerify}
+                onResend={() => sendSignInCode(phone)}
+                onBack={() => setStep("phone")}
+                submitLabel="Continue"
+              />
+            )}
+
+            {step === "password" && (
+              <form onSubmit={handleSetPassword} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="password">New password</Label>
+                  <div className="relative">
+                    <Input
+                      id="password"
+                      type={showPassword ? "text" : "password"}
+                      placeholder="Min 8 chars, 1 number, 1 special"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      className={`pr-10 ${errors.password ? "border-destructive" : ""}`}
+                      autoFocus
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setShowPassword(!showPassword)}
+                      className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+                    >
+                      {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                    </button>
+                  </div>
+                  {errors.password && (
+                    <p className="text-sm text-destructive">{errors.password}</p>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="confirm-password">Confirm new password</Label>
+                  <Input
+                    id="confirm-password"
+                    type={showPassword ? "text" : "password"}
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    className={errors.confirmPassword ? "border-destructive" : ""}
+                  />
+                  {errors.confirmPassword && (
+                    <p className="text-sm text-destructive">{errors.confirmPassword}</p>
+                  )}
+                </div>
+
+                <Button type="submit" variant="cta" className="w-full" disabled={isSubmitting}>
+                  {isSubmitting ? "Please wait..." : "Update password"}
+                </Button>
+              </form>
+            )}
+
+            {step !== "password" && (
+              <div className="mt-6 text-center">
+                <p className="text-sm text-muted-foreground">
+                  Remembered it?{" "}
+                  <Link to="/auth" className="text-primary font-medium hover:underline">
+                    Sign in
+                  </Link>
+                </p>
+              </div>
+            )}
+          </div>
+        </div>
+      </main>
+    </>
+  );
+}
@@ -0,0 +1,196 @@
+import { useEffect, useRef, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { Header } from "@/components/Header";
+import { HighlightedText } from "@/components/HighlightedText";
+import { SearchBar } from "@/components/SearchBar";
+import { StoryFilters, StoryFilterValues } from "@/components/StoryFilters";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useAuth } from "@/hooks/useAuth";
+import { useInfiniteScroll } from "@/hooks/useInfiniteScroll";
+import { usePostSearch } from "@/hooks/usePostSearch";
+import { authorPath } from "@/lib/handles";
+import { postPath } from "@/lib/slugs";
+import { Heart, MessageCircle } from "lucide-react";
+
+export default function Search() {
+  const { user } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = searchParams.get("q") ?? "";
+  const filters: StoryFilterValues = {
+    genre: searchParams.get("genre"),
+    tag: searchParams.get("tag"),
+  };
+  const [input, setInput] = useState(query);
+  // The last query this page wrote to the URL
+  const pushedQueryRef = useRef(query);
+
+  const { results, totalCount, loading, error, hasMore, loadingMore, loadMore } = usePostSearch(query, filters);
+  const { sentinelRef } = useInfiniteScroll({ hasMore, loading: loadingMore, onLoadMore: loadMore });
+
+  // Follow the URL when it changes from outside the search box (back/forward)
+  useEffect(() => {
+    if (query !== pushedQueryRef.current) {
+      pushedQueryRef.current = query;
+      setInput(query);
+    }
+  }, [query]);
+
+  // Search as the reader types, keeping the query in the URL so results are linkable
+  useEffect(() => {
+    if (input === query) return;
+
+    const timeout = setTimeout(() => {
+      pushedQueryRef.current = input;
+      setSearchParams(
+        (params) => {
+          if (input) params.set("q", input);
+          else params.delete("q");
+          return params;
+        },
+        { replace: true }
+      );
+    }, 300);
+
+    return () => clearTimeout(timeout);
+  }, [input, query, setSearchParams]);
+
+  const submitSearch = (value: string) => {
+    pushedQueryRef.current = value;
+    setSearchParams((params) => {
+      if (value) params.set("q", value);
+      else params.delete("q");
+      return params;
+    });
+  };
+
+  const handleFilterChange = (values: StoryFilterValues) => {
+    setSearchParams(
+      (params) => {
+        for (const key of ["genre", "tag"] as const) {
+          if (values[key]) params.set(key, values[key]);
+          else params.delete(key);
+        }
+        return params;
+      },
+      { replace: true }
+    );
+  };
+
+  return (
+    <>
+      <Header />
+      <main className="min-h-screen bg-background">
+        <div className="container max-w-3xl py-8">
+          <header className="mb-8">
+            <h1 className="font-serif text-3xl font-bold text-foreground mb-6">
+              Search stories
+            </h1>
+            <SearchBar
+              value={input}
+              onChange={setInput}
+              onSubmit={submitSearch}
+              placeholder='Search titles and stories, e.g. "monsoon night" or train*'
+              autoFocus
+            />
+            <p className="text-xs text-muted-foreground mt-2">
+              Use quotes for exact phrases, * to match word beginnings and - to exclude a word.
+            </p>
+            <div className="mt-4">
+              <StoryFilters value={filters} onChange={handleFilterChange} />
+            </div>
+          </header>
+
+          {!query.trim() ? (
+            <p className="text-center text-muted-foreground py-16">
+              Type something to search every story on StoryPeek.
+            </p>
+          ) : loading ? (
+            <div className="space-y-6">
+              {[1, 2, 3].map((i) => (
+                <div key={i} className="space-y-3 py-6 border-b border-border">
+                  <Skeleton className="h-6 w-3/4" />
+                  <Skeleton className="h-4 w-full" />
+                  <Skeleton className="h-4 w-2/3" />
+                </div>
+              ))}
+            </div>
+          ) : error ? (
+            <p className="text-center text-muted-foreground py-16">
+              Search is unavailable right now. Please try again.
+            </p>
+          ) : results.length === 0 ? (
+            <p className="text-center text-muted-foreground text-lg py-16">
+              No stories found matching your search.
+            </p>
+          ) : (
+            <div>
+              <p className="text-sm text-muted-foreground mb-4">
+                Found {totalCount} {totalCount === 1 ? "story" : "stories"}
+              </p>
+              {results.map((result) => (
+                <article key={result.id} className="border-b border-border py-6 last:border-b-0">
+                  <div className="flex items-center gap-2 mb-3">
+                    <Link
+                      to={authorPath(result.handle, result.user_id)}
+                      className="flex items-center gap-2 hover:opacity-80 transition-opacity"
+                    >
+                      <Avatar className="h-6 w-6">
+                        <AvatarImage src={result.profile_pic_url} alt={result.username} />
+                        <AvatarFallback className="bg-primary text-primary-foreground text-xs">
+                          {result.username.charAt(0).toUpperCase()}
+                        </AvatarFallback>
+                      </Avatar>
+                      <span className="text-sm font-medium text-foreground">{result.username}</span>
+                    </Link>
+                    <span className="text-muted-foreground">·</span>
+                    <time className="text-sm text-muted-foreground">
+                      {new Date(result.created_at).toLocaleDateString("en-IN", {
+                        day: "numeric",
+                        month: "short",
+                        year: "numeric",
+                      })}
+                    </time>
+                  </div>
+
+                  <Link to={user ? postPath(result) : "/auth"} className="group block">
+                    <h2 className="font-serif text-xl font-bold text-foreground mb-2 group-hover:text-primary transition-colors">
+                      <HighlightedText text={result.title_highlight} />
+                    </h2>
+                  </Link>
+
+                  <p className="story-content text-muted-foreground text-base leading-relaxed line-clamp-3 mb-3">
+                    <HighlightedText text={result.snippet} />
+                  </p>
+
+                  <div className="flex items-center gap-4 text-sm text-muted-foreground">
+                    <span className="flex items-center gap-1">
+                      <Heart className="h-4 w-4" />
+                      {result.like_count}
+                      <span className="sr-only">{result.like_count === 1 ? "like" : "likes"}</span>
+                    </span>
+                    <span className="flex items-center gap-1">
+                      <MessageCircle className="h-4 w-4" />
+                      {result.comment_count}
+                      <span className="sr-only">
+                        {result.comment_count === 1 ? "response" : "responses"}
+                      </span>
+                    </span>
+                  </div>
+                </article>
+              ))}
+              <div ref={sentinelRef} className="py-6">
+                {loadingMore && (
+                  <div className="space-y-3">
+                    <Skeleton className="h-6 w-3/4" />
+                    <Skeleton className="h-4 w-full" />
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </main>
+    </>
+  );
+}
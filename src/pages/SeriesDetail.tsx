@@ -0,0 +1,192 @@
+import { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { Header } from "@/components/Header";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useAuth } from "@/hooks/useAuth";
+import { useSeries } from "@/hooks/useSeries";
+import { supabase } from "@/integrations/supabase/client";
+import { authorPath } from "@/lib/handles";
+import { postPath } from "@/lib/slugs";
+import { AUTHOR_COLUMNS } from "@/lib/profiles";
+import { ArrowLeft, BookOpen, Layers } from "lucide-react";
+
+interface Author {
+  username: string;
+  handle: string;
+  profile_pic_url: string;
+}
+
+export default function SeriesDetail() {
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
+  const { series, loading } = useSeries(id);
+  const [author, setAuthor] = useState<Author | null>(null);
+
+  const authorId = series?.user_id;
+
+  useEffect(() => {
+    if (!authorId) return;
+
+    const fetchAuthor = async () => {
+      const { data } = await supabase
+        .from("profiles")
+        .select(AUTHOR_COLUMNS)
+        .eq("user_id", authorId)
+        .maybeSingle();
+
+      setAuthor(data);
+    };
+
+    fetchAuthor();
+  }, [authorId]);
+
+  if (loading) {
+    return (
+      <>
+        <Header />
+        <main className="min-h-screen bg-background">
+          <div className="container max-w-3xl py-8 space-y-4">
+            <Skeleton className="h-8 w-2/3" />
+            <Skeleton className="h-4 w-full" />
+            <Skeleton className="h-4 w-1/2" />
+          </div>
+        </main>
+      </>
+    );
+  }
+
+  if (!series) {
+    return (
+      <>
+        <Header />
+        <main className="min-h-screen bg-background flex items-center justify-center">
+          <div className="text-center">
+            <h1 className="font-serif text-2xl font-bold text-foreground mb-4">
+              Series not found
+            </h1>
+            <Button variant="outline" asChild>
+              <Link to="/">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to stories
+              </Link>
+            </Button>
+          </div>
+        </main>
+      </>
+    );
+  }
+
+  const isOwnSeries = user?.id === series.user_id;
+  // Readers only get published chapters from the database; the author also
+  // sees unpublished ones here, which don't count towards the part numbers
+  const publishedChapters = series.chapters.filter((chapter) => chapter.status === "published");
+  const firstChapter = publishedChapters[0];
+
+  return (
+    <>
+      <Header />
+      <main className="min-h-screen bg-background">
+        <div className="container max-w-3xl py-8">
+          <Link
+            to={authorPath(author?.handle, series.user_id)}
+            className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground mb-6"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Back to author
+          </Link>
+
+          <header className="mb-8 pb-6 border-b border-border">
+            <p className="flex items-center gap-2 text-sm text-muted-foreground mb-2">
+              <Layers className="h-4 w-4 text-primary" />
+              Series · {publishedChapters.length} {publishedChapters.length === 1 ? "part" : "parts"}
+            </p>
+            <h1 className="font-serif text-3xl md:text-4xl font-bold text-foreground mb-4 leading-tight">
+              {series.title}
+            </h1>
+            {series.description && (
+              <p className="text-muted-foreground mb-4 whitespace-pre-wrap">{series.description}</p>
+            )}
+            {author && (
+              <Link
+                to={authorPath(author.handle, series.user_id)}
+                className="inline-flex items-center gap-2 hover:opacity-80 transition-opacity"
+              >
+                <Avatar className="h-8 w-8">
+                  <AvatarImage src={author.profile_pic_url} alt={author.username} />
+                  <AvatarFallback className="bg-primary text-primary-foreground text-xs">
+                    {author.username.charAt(0).toUpperCase()}
+                  </AvatarFallback>
+                </Avatar>
+                <span className="text-sm font-medium text-foreground">{author.username}</span>
+              </Link>
+            )}
+            {firstChapter && (
+              <div className="mt-6">
+                <Button variant="cta" asChild>
+                  <Link to={user ? postPath(firstChapter) : "/auth"}>
+                    <BookOpen className="h-4 w-4" />
+                    Start reading
+                  </Link>
+                </Button>
+              </div>
+            )}
+          </header>
+
+          <section>
+            <h2 className="font-serif text-xl font-bold text-foreground mb-4">Chapters</h2>
+            {series.chapters.length === 0 ? (
+              <p className="text-muted-foreground py-8 text-center">No chapters published yet.</p>
+            ) : (
+              <ol className="divide-y divide-border">
+                {series.chapters.map((chapter) => {
+                  const part = publishedChapters.indexOf(chapter) + 1;
+                  const isPublished = chapter.status === "published";
+
+                  return (
+                    <li key={chapter.id} className="flex gap-4 py-4">
+                      <span className="w-16 shrink-0 text-sm text-muted-foreground pt-1">
+                        {isPublished ? `Part ${part}` : ""}
+                      </span>
+                      <div className="min-w-0 flex-1">
+                        {/* Hidden chapters can't be edited until a moderator restores them */}
+                        {chapter.status === "hidden" ? (
+                          <span className="font-serif text-lg font-bold text-foreground">
+                            {chapter.title}
+                          </span>
+                        ) : (
+                          <Link
+                            to={
+                              isPublished
+                                ? user
+                                  ? postPath(chapter)
+                                  : "/auth"
+                                : `/create?draft=${chapter.id}`
+                            }
+                            className="font-serif text-lg font-bold text-foreground hover:text-primary transition-colors"
+                          >
+                            {chapter.title}
+                          </Link>
+                        )}
+                        {isOwnSeries && !isPublished && (
+                          <Badge variant="outline" className="ml-2 align-middle capitalize">
+                            {chapter.status}
+                          </Badge>
+                        )}
+                        <p className="text-sm text-muted-foreground line-clamp-2 mt-1">
+                          {chapter.content_preview}
+                        </p>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ol>
+            )}
+          </section>
+        </div>
+      </main>
+    </>
+  );
+}
@@ -0,0 +1,78 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Deletes accounts whose grace period (public.account_deletions) has ended.
+// Called hourly by pg_cron with the service role key.
+
+// Buckets where uploads live under a "<user id>/" folder
+const USER_BUCKETS = ["post-images", "avatars"];
+const LIST_PAGE_SIZE = 100;
+
+const jsonResponse = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+Deno.serve(async (req) => {
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+  if (!serviceRoleKey || req.headers.get("Authorization") !== `Bearer ${serviceRoleKey}`) {
+    return jsonResponse(401, { error: "Unauthorized" });
+  }
+
+  const supabase = createClient(Deno.env.get("SUPABASE_URL") ?? "", serviceRoleKey);
+
+  const { data: due, error } = await supabase
+    .from("account_deletions")
+    .select("user_id")
+    .lte("purge_after", new Date().toISOString());
+
+  if (error) {
+    return jsonResponse(500, { error: error.message });
+  }
+
+  const purged: string[] = [];
+  const failed: string[] = [];
+
+  for (const { user_id: userId } of due ?? []) {
+    try {
+      for (const bucket of USER_BUCKETS) {
+        await removeFolder(supabase, bucket, userId);
+      }
+
+      // Cascades to the profile, stories and everything else the user owns
+      const { error: deleteError } = await supabase.auth.admin.deleteUser(userId);
+      if (deleteError) throw new Error(deleteError.message);
+
+      purged.push(userId);
+    } catch (purgeError) {
+      // Left in account_deletions, so the next run tries again
+      console.error(`Failed to purge account ${userId}`, purgeError);
+      failed.push(userId);
+    }
+  }
+
+  return jsonResponse(200, { purged: purged.length, failed: failed.length });
+});
+
+async function removeFolder(
+  supabase: ReturnType<typeof createClient>,
+  bucket: string,
+  folder: string
+) {
+  // Removing files shifts the listing, so keep taking the first page until
+  // the folder is empty
+  for (;;) {
+    const { data: files, error } = await supabase.storage
+      .from(bucket)
+      .list(folder, { limit: LIST_PAGE_SIZE });
+    if (error) throw new Error(error.message);
+    if (!files || files.length === 0) return;
+
+    const { error: removeError } = await supabase.storage
+      .from(bucket)
+      .remove(files.map((file) => `${folder}/${file.name}`));
+    if (removeError) throw new Error(removeError.message);
+
+    if (files.length < LIST_PAGE_SIZE) return;
+  }
+}
@@ -0,0 +1,47 @@
+import { Webhook } from "https://esm.sh/standardwebhooks@1.0.0";
+import { getSmsProvider } from "./providers.ts";
+
+// Supabase Auth "Send SMS" hook. Auth generates the one-time code for sign-up,
+// sign-in and phone changes and calls this function to deliver it.
+
+interface SendSmsPayload {
+  // phone_change holds the new number while a phone change is pending
+  user: { phone: string; phone_change?: string };
+  sms: { otp: string; sms_type?: string };
+}
+
+const errorResponse = (status: number, message: string) =>
+  new Response(JSON.stringify({ error: { http_code: status, message } }), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+Deno.serve(async (req) => {
+  const payload = await req.text();
+  const secret = (Deno.env.get("SEND_SMS_HOOK_SECRETS") ?? "").replace("v1,whsec_", "");
+
+  let data: SendSmsPayload;
+  try {
+    // Only Supabase Auth holds the hook secret
+    data = new Webhook(secret).verify(payload, Object.fromEntries(req.headers)) as SendSmsPayload;
+  } catch {
+    return errorResponse(401, "Invalid hook signature");
+  }
+
+  // Phone change codes go to the new number, everything else to the account's
+  const recipient =
+    data.sms.sms_type === "phone_change" && data.user.phone_change
+      ? data.user.phone_change
+      : data.user.phone;
+
+  try {
+    await getSmsProvider().sendOtp(`+${recipient.replace(/^\+/, "")}`, data.sms.otp);
+  } catch (error) {
+    console.error("Failed to send SMS", error);
+    return errorResponse(500, "We couldn't send the verification code, please try again");
+  }
+
+  return new Response(JSON.stringify({}), {
+    headers: { "Content-Type": "application/json" },
+  });
+});
@@ -0,0 +1,102 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Anything that can deliver a one-time code to a phone number. Numbers are in
+// E.164 form, e.g. +919876543210.
+export interface SmsProvider {
+  sendOtp(phone: string, otp: string): Promise<void>;
+}
+
+const otpMessage = (otp: string) =>
+  `${otp} is your StoryPeek verification code. It expires in 10 minutes. Do not share it with anyone.`;
+
+function requireEnv(name: string) {
+  const value = Deno.env.get(name);
+  if (!value) throw new Error(`${name} is not set`);
+  return value;
+}
+
+// Twilio Programmable Messaging
+function createTwilioProvider(): SmsProvider {
+  const accountSid = requireEnv("TWILIO_ACCOUNT_SID");
+  const authToken = requireEnv("TWILIO_AUTH_TOKEN");
+  const from = requireEnv("TWILIO_FROM_NUMBER");
+
+  return {
+    async sendOtp(phone, otp) {
+      const response = await fetch(
+        `https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`,
+        {
+          method: "POST",
+          headers: {
+            Authorization: `Basic ${btoa(`${accountSid}:${authToken}`)}`,
+            "Content-Type": "application/x-www-form-urlencoded",
+          },
+          body: new URLSearchParams({ To: phone, From: from, Body: otpMessage(otp) }),
+        }
+      );
+
+      if (!response.ok) {
+        throw new Error(`Twilio responded with ${response.status}: ${await response.text()}`);
+      }
+    },
+  };
+}
+
+// MSG91 flows. Indian carriers only deliver DLT-registered templates, so the
+// message text lives in the MSG91 template and only the code is sent here.
+function createMsg91Provider(): SmsProvider {
+  const authKey = requireEnv("MSG91_AUTH_KEY");
+  const templateId = requireEnv("MSG91_TEMPLATE_ID");
+
+  return {
+    async sendOtp(phone, otp) {
+      const response = await fetch("https://control.msg91.com/api/v5/flow", {
+        method: "POST",
+        headers: { authkey: authKey, "Content-Type": "application/json" },
+        body: JSON.stringify({
+          template_id: templateId,
+          short_url: "0",
+          recipients: [{ mobiles: phone.replace(/^\+/, ""), otp }],
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`MSG91 responded with ${response.status}: ${await response.text()}`);
+      }
+    },
+  };
+}
+
+// Development and test stand-in: nothing leaves the machine. Codes are logged
+// and written to public.sms_outbox, where tests can read them with the
+// service role key.
+function createLocalProvider(): SmsProvider {
+  const supabase = createClient(requireEnv("SUPABASE_URL"), requireEnv("SUPABASE_SERVICE_ROLE_KEY"));
+
+  return {
+    async sendOtp(phone, otp) {
+      const body = otpMessage(otp);
+      console.log(`[local sms] to ${phone}: ${body}`);
+
+      const { error } = await supabase.from("sms_outbox").insert({ phone, body });
+      if (error) throw new Error(error.message);
+    },
+  };
+}
+
+const providers: Record<string, () => SmsProvider> = {
+  twilio: createTwilioProvider,
+  msg91: createMsg91Provider,
+  local: createLocalProvider,
+};
+
+// The provider is picked with the SMS_PROVIDER secret. There is deliberately
+// no default, so a deployment can't silently fall back to the local provider.
+export function getSmsProvider(name = Deno.env.get("SMS_PROVIDER")): SmsProvider {
+  const create = name ? providers[name] : undefined;
+  if (!create) {
+    throw new Error(`Unknown SMS_PROVIDER "${name ?? ""}", expected one of: ${Object.keys(providers).join(", ")}`);
+  }
+
+  return create();
+}
@@ -0,0 +1,33 @@
+-- Move full story text out of the publicly readable posts table
+CREATE TABLE public.post_contents (
+  post_id UUID PRIMARY KEY REFERENCES public.posts(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  content_full TEXT NOT NULL
+);
+
+INSERT INTO public.post_contents (post_id, user_id, content_full)
+SELECT id, user_id, content_full FROM public.posts;
+
+ALTER TABLE public.posts DROP COLUMN content_full;
+
+-- Enable RLS
+ALTER TABLE public.post_contents ENABLE ROW LEVEL SECURITY;
+
+-- Full story text is only returned to signed-in readers
+CREATE POLICY "Full stories are viewable by authenticated users"
+ON public.post_contents FOR SELECT
+USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Users can create content for their own posts"
+ON public.post_contents FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.posts
+    WHERE posts.id = post_id AND posts.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can update content of their own posts"
+ON public.post_contents FOR UPDATE
+USING (auth.uid() = user_id);
@@ -0,0 +1,52 @@
+-- Story lifecycle: drafts are private, scheduled stories go live at publish_at
+CREATE TYPE public.post_status AS ENUM ('draft', 'scheduled', 'published');
+
+ALTER TABLE public.posts
+  ADD COLUMN status public.post_status NOT NULL DEFAULT 'published',
+  ADD COLUMN publish_at TIMESTAMP WITH TIME ZONE,
+  ADD CONSTRAINT posts_scheduled_requires_publish_at
+    CHECK (status <> 'scheduled' OR publish_at IS NOT NULL);
+
+CREATE INDEX posts_status_created_at_idx ON public.posts (status, created_at DESC);
+
+-- Only published stories are public; authors can always see their own
+DROP POLICY "Posts are viewable by everyone" ON public.posts;
+
+CREATE POLICY "Published posts are viewable by everyone"
+ON public.posts FOR SELECT
+USING (status = 'published' OR auth.uid() = user_id);
+
+DROP POLICY "Full stories are viewable by authenticated users" ON public.post_contents;
+
+CREATE POLICY "Full published stories are viewable by authenticated users"
+ON public.post_contents FOR SELECT
+USING (
+  auth.uid() = user_id
+  OR (
+    auth.role() = 'authenticated'
+    AND EXISTS (
+      SELECT 1 FROM public.posts
+      WHERE posts.id = post_id AND posts.status = 'published'
+    )
+  )
+);
+
+-- Publish scheduled stories once their time has come. created_at is the date
+-- readers see, so it is moved to the moment the story actually went live.
+CREATE OR REPLACE FUNCTION public.publish_scheduled_posts()
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER SET search_path = public
+AS $$
+  UPDATE public.posts
+  SET status = 'published', created_at = publish_at
+  WHERE status = 'scheduled' AND publish_at <= now();
+$$;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'publish-scheduled-posts',
+  '* * * * *',
+  $$SELECT public.publish_scheduled_posts()$$
+);
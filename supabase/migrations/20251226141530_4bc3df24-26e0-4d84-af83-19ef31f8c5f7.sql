@@ -0,0 +1,66 @@
+-- Keep every saved version of a story so edits can be compared and undone
+CREATE TABLE public.post_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  post_id UUID REFERENCES public.posts(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  title TEXT NOT NULL,
+  content_full TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX post_revisions_post_id_created_at_idx
+  ON public.post_revisions (post_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.post_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Revisions are written by the trigger below; authors can only read their own
+CREATE POLICY "Users can view revisions of their own posts"
+ON public.post_revisions FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Record a revision whenever the story text is saved. The edit path updates
+-- posts.title before post_contents, so the title read here is the new one.
+-- Private drafts are skipped so autosave doesn't flood the history.
+CREATE OR REPLACE FUNCTION public.record_post_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  post_row public.posts%ROWTYPE;
+  latest public.post_revisions%ROWTYPE;
+BEGIN
+  SELECT * INTO post_row FROM public.posts WHERE id = NEW.post_id;
+
+  IF post_row.status = 'draft' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO latest
+  FROM public.post_revisions
+  WHERE post_id = NEW.post_id
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF FOUND AND latest.title = post_row.title AND latest.content_full = NEW.content_full THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.post_revisions (post_id, user_id, title, content_full)
+  VALUES (NEW.post_id, NEW.user_id, post_row.title, NEW.content_full);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_post_content_saved
+  AFTER INSERT OR UPDATE ON public.post_contents
+  FOR EACH ROW EXECUTE FUNCTION public.record_post_revision();
+
+-- Seed the history with the current version of every existing story
+INSERT INTO public.post_revisions (post_id, user_id, title, content_full, created_at)
+SELECT posts.id, posts.user_id, posts.title, post_contents.content_full, posts.created_at
+FROM public.posts
+JOIN public.post_contents ON post_contents.post_id = posts.id
+WHERE posts.status <> 'draft';
@@ -0,0 +1,93 @@
+-- Create comments table with threaded replies
+CREATE TABLE public.comments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  post_id UUID REFERENCES public.posts(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  parent_id UUID REFERENCES public.comments(id) ON DELETE CASCADE,
+  -- Top-level comment of the thread, so a page of threads loads in one query
+  root_id UUID REFERENCES public.comments(id) ON DELETE CASCADE,
+  body TEXT NOT NULL CHECK (char_length(body) BETWEEN 1 AND 2000),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX comments_post_id_created_at_idx ON public.comments (post_id, created_at DESC);
+CREATE INDEX comments_root_id_idx ON public.comments (root_id);
+
+-- Enable RLS
+ALTER TABLE public.comments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Comments are viewable by everyone"
+ON public.comments FOR SELECT
+USING (true);
+
+CREATE POLICY "Users can comment on published posts"
+ON public.comments FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.posts
+    WHERE posts.id = post_id AND posts.status = 'published'
+  )
+);
+
+CREATE POLICY "Users can update their own comments"
+ON public.comments FOR UPDATE
+USING (auth.uid() = user_id);
+
+-- Comment authors can delete their own comments, story owners can remove any
+-- comment on their story
+CREATE POLICY "Users can delete their own comments or comments on their posts"
+ON public.comments FOR DELETE
+USING (
+  auth.uid() = user_id
+  OR EXISTS (
+    SELECT 1 FROM public.posts
+    WHERE posts.id = post_id AND posts.user_id = auth.uid()
+  )
+);
+
+-- Fill root_id from the parent and make sure replies stay on the same story
+CREATE OR REPLACE FUNCTION public.set_comment_thread()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  parent public.comments%ROWTYPE;
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    NEW.root_id := NULL;
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO parent FROM public.comments WHERE id = NEW.parent_id;
+
+  IF NOT FOUND OR parent.post_id <> NEW.post_id THEN
+    RAISE EXCEPTION 'Reply must belong to a comment on the same story';
+  END IF;
+
+  NEW.root_id := COALESCE(parent.root_id, parent.id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_comment_thread_before_insert
+  BEFORE INSERT ON public.comments
+  FOR EACH ROW EXECUTE FUNCTION public.set_comment_thread();
+
+-- Keep updated_at current on edits
+CREATE OR REPLACE FUNCTION public.update_updated_at_column()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER update_comments_updated_at
+  BEFORE UPDATE ON public.comments
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
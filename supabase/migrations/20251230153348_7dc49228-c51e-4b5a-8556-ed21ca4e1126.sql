@@ -0,0 +1,123 @@
+-- Create likes and bookmarks tables
+CREATE TABLE public.post_likes (
+  post_id UUID REFERENCES public.posts(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (post_id, user_id)
+);
+
+CREATE TABLE public.bookmarks (
+  post_id UUID REFERENCES public.posts(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (post_id, user_id)
+);
+
+CREATE INDEX post_likes_user_id_idx ON public.post_likes (user_id);
+CREATE INDEX bookmarks_user_id_created_at_idx ON public.bookmarks (user_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.post_likes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.bookmarks ENABLE ROW LEVEL SECURITY;
+
+-- Likes policies
+CREATE POLICY "Likes are viewable by everyone"
+ON public.post_likes FOR SELECT
+USING (true);
+
+CREATE POLICY "Users can like published posts"
+ON public.post_likes FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.posts
+    WHERE posts.id = post_id AND posts.status = 'published'
+  )
+);
+
+CREATE POLICY "Users can remove their own likes"
+ON public.post_likes FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Bookmarks policies - a reading list is private to its owner
+CREATE POLICY "Users can view their own bookmarks"
+ON public.bookmarks FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own bookmarks"
+ON public.bookmarks FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own bookmarks"
+ON public.bookmarks FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Denormalized engagement counters so feeds and ranking can read them with the post
+ALTER TABLE public.posts
+  ADD COLUMN like_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN comment_count INTEGER NOT NULL DEFAULT 0;
+
+UPDATE public.posts SET comment_count = (
+  SELECT count(*) FROM public.comments WHERE comments.post_id = posts.id
+);
+
+CREATE OR REPLACE FUNCTION public.refresh_post_like_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  target_post_id UUID := COALESCE(NEW.post_id, OLD.post_id);
+BEGIN
+  UPDATE public.posts
+  SET like_count = (SELECT count(*) FROM public.post_likes WHERE post_id = target_post_id)
+  WHERE id = target_post_id;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER on_post_like_changed
+  AFTER INSERT OR DELETE ON public.post_likes
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_post_like_count();
+
+CREATE OR REPLACE FUNCTION public.refresh_post_comment_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  target_post_id UUID := COALESCE(NEW.post_id, OLD.post_id);
+BEGIN
+  UPDATE public.posts
+  SET comment_count = (SELECT count(*) FROM public.comments WHERE post_id = target_post_id)
+  WHERE id = target_post_id;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER on_comment_changed
+  AFTER INSERT OR DELETE ON public.comments
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_post_comment_count();
+
+-- Authors may insert and update their own posts, but the counters are only
+-- ever written by the triggers above (which run one trigger level deep)
+CREATE OR REPLACE FUNCTION public.protect_post_counters()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.like_count := 0;
+    NEW.comment_count := 0;
+  ELSIF pg_trigger_depth() <= 1 THEN
+    NEW.like_count := OLD.like_count;
+    NEW.comment_count := OLD.comment_count;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_post_counters
+  BEFORE INSERT OR UPDATE ON public.posts
+  FOR EACH ROW EXECUTE FUNCTION public.protect_post_counters();
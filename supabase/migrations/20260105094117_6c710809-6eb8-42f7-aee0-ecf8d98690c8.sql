@@ -0,0 +1,148 @@
+-- Record story views and reads-to-completion, at most once per reader per day
+CREATE TYPE public.post_event_type AS ENUM ('view', 'read');
+
+CREATE TABLE public.post_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  post_id UUID REFERENCES public.posts(id) ON DELETE CASCADE NOT NULL,
+  -- auth user id for signed-in readers, a random per-browser id otherwise
+  reader_key TEXT NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  event_type public.post_event_type NOT NULL,
+  event_date DATE NOT NULL DEFAULT current_date,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (post_id, reader_key, event_type, event_date)
+);
+
+CREATE INDEX post_events_created_at_idx ON public.post_events (created_at);
+
+-- Enable RLS
+ALTER TABLE public.post_events ENABLE ROW LEVEL SECURITY;
+
+-- Anyone can record an event for a published story; nobody reads raw events
+CREATE POLICY "Anyone can record events for published posts"
+ON public.post_events FOR INSERT
+WITH CHECK (
+  (user_id IS NULL OR auth.uid() = user_id)
+  AND EXISTS (
+    SELECT 1 FROM public.posts
+    WHERE posts.id = post_id AND posts.status = 'published'
+  )
+);
+
+-- Trending scores per time window. Engagement inside the window is weighted
+-- (view 1, read 3, like 4, comment 5) and divided by the story's age in hours
+-- raised to a gravity, so fresh stories with momentum rise above old ones.
+-- "all" ranks by total engagement without decay.
+CREATE MATERIALIZED VIEW public.trending_posts AS
+WITH windows (time_window, since, gravity) AS (
+  VALUES
+    ('today', now() - interval '1 day', 1.5),
+    ('week', now() - interval '7 days', 1.5),
+    ('all', '-infinity'::timestamptz, 0)
+),
+event_counts AS (
+  SELECT
+    w.time_window,
+    e.post_id,
+    count(*) FILTER (WHERE e.event_type = 'view') AS views,
+    count(*) FILTER (WHERE e.event_type = 'read') AS reads
+  FROM windows w
+  JOIN public.post_events e ON e.created_at >= w.since
+  GROUP BY w.time_window, e.post_id
+),
+like_counts AS (
+  SELECT w.time_window, l.post_id, count(*) AS likes
+  FROM windows w
+  JOIN public.post_likes l ON l.created_at >= w.since
+  GROUP BY w.time_window, l.post_id
+),
+comment_counts AS (
+  SELECT w.time_window, c.post_id, count(*) AS comments
+  FROM windows w
+  JOIN public.comments c ON c.created_at >= w.since
+  GROUP BY w.time_window, c.post_id
+),
+engagement AS (
+  SELECT
+    w.time_window,
+    w.gravity,
+    p.id AS post_id,
+    p.created_at,
+    COALESCE(ec.views, 0) AS views,
+    COALESCE(ec.reads, 0) AS reads,
+    COALESCE(lc.likes, 0) AS likes,
+    COALESCE(cc.comments, 0) AS comments
+  FROM windows w
+  CROSS JOIN public.posts p
+  LEFT JOIN event_counts ec ON ec.time_window = w.time_window AND ec.post_id = p.id
+  LEFT JOIN like_counts lc ON lc.time_window = w.time_window AND lc.post_id = p.id
+  LEFT JOIN comment_counts cc ON cc.time_window = w.time_window AND cc.post_id = p.id
+  WHERE p.status = 'published'
+)
+SELECT
+  time_window,
+  post_id,
+  views,
+  reads,
+  likes,
+  comments,
+  (views + reads * 3 + likes * 4 + comments * 5)::double precision
+    / power(
+        (GREATEST(extract(epoch FROM now() - created_at) / 3600, 0) + 2)::double precision,
+        gravity::double precision
+      ) AS score
+FROM engagement
+WHERE views + reads + likes + comments > 0;
+
+CREATE UNIQUE INDEX trending_posts_window_post_idx ON public.trending_posts (time_window, post_id);
+
+-- Only published stories are in the view, so it is safe to expose
+GRANT SELECT ON public.trending_posts TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.refresh_trending_posts()
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER SET search_path = public
+AS $$
+  REFRESH MATERIALIZED VIEW CONCURRENTLY public.trending_posts;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_trending_posts() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'refresh-trending-posts',
+  '*/10 * * * *',
+  $$SELECT public.refresh_trending_posts()$$
+);
+
+-- Trending stories for a window. Stories without engagement in the window
+-- follow by recency, so the list is never empty while stories exist.
+CREATE OR REPLACE FUNCTION public.get_trending_posts(time_window TEXT DEFAULT 'week', result_limit INTEGER DEFAULT 5)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  title TEXT,
+  content_preview TEXT,
+  image_url TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  score DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    p.id,
+    p.user_id,
+    p.title,
+    p.content_preview,
+    p.image_url,
+    p.created_at,
+    COALESCE(t.score, 0) AS score
+  FROM public.posts p
+  LEFT JOIN public.trending_posts t
+    ON t.post_id = p.id AND t.time_window = get_trending_posts.time_window
+  WHERE p.status = 'published'
+  ORDER BY COALESCE(t.score, 0) DESC, p.created_at DESC
+  LIMIT LEAST(result_limit, 50);
+$$;
@@ -0,0 +1,51 @@
+-- Create follows table so readers can subscribe to authors
+CREATE TABLE public.follows (
+  follower_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  following_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (follower_id, following_id),
+  CONSTRAINT follows_no_self_follow CHECK (follower_id <> following_id)
+);
+
+CREATE INDEX follows_following_id_idx ON public.follows (following_id);
+CREATE INDEX posts_user_id_created_at_idx ON public.posts (user_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.follows ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Follows are viewable by everyone"
+ON public.follows FOR SELECT
+USING (true);
+
+CREATE POLICY "Users can follow authors"
+ON public.follows FOR INSERT
+WITH CHECK (auth.uid() = follower_id);
+
+CREATE POLICY "Users can unfollow authors"
+ON public.follows FOR DELETE
+USING (auth.uid() = follower_id);
+
+-- Published stories by authors the signed-in reader follows, newest first.
+-- Pass the last story of the previous page as the cursor to get the next one.
+CREATE OR REPLACE FUNCTION public.get_following_feed(
+  before_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  before_id UUID DEFAULT NULL,
+  page_size INTEGER DEFAULT 10
+)
+RETURNS SETOF public.posts
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT p.*
+  FROM public.posts p
+  JOIN public.follows f ON f.following_id = p.user_id
+  WHERE f.follower_id = auth.uid()
+    AND p.status = 'published'
+    AND (
+      before_created_at IS NULL
+      OR (p.created_at, p.id) < (before_created_at, COALESCE(before_id, 'ffffffff-ffff-ffff-ffff-ffffffffffff'::uuid))
+    )
+  ORDER BY p.created_at DESC, p.id DESC
+  LIMIT LEAST(page_size, 50);
+$$;
@@ -0,0 +1,185 @@
+-- Full-text search over stories. Title matches weigh most (A), then the
+-- preview (B), then the full text (C).
+CREATE OR REPLACE FUNCTION public.post_search_document(title TEXT, content_preview TEXT, content_full TEXT)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT
+    setweight(to_tsvector('english', COALESCE(title, '')), 'A')
+    || setweight(to_tsvector('english', COALESCE(content_preview, '')), 'B')
+    || setweight(to_tsvector('english', COALESCE(content_full, '')), 'C');
+$$;
+
+ALTER TABLE public.posts ADD COLUMN search_vector tsvector;
+
+UPDATE public.posts p
+SET search_vector = public.post_search_document(
+  p.title,
+  p.content_preview,
+  (SELECT content_full FROM public.post_contents WHERE post_id = p.id)
+);
+
+CREATE INDEX posts_search_vector_idx ON public.posts USING GIN (search_vector);
+
+-- Keep the document in sync when the title or preview changes
+CREATE OR REPLACE FUNCTION public.set_post_search_vector()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  NEW.search_vector := public.post_search_document(
+    NEW.title,
+    NEW.content_preview,
+    (SELECT content_full FROM public.post_contents WHERE post_id = NEW.id)
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_post_search_vector
+  BEFORE INSERT OR UPDATE OF title, content_preview ON public.posts
+  FOR EACH ROW EXECUTE FUNCTION public.set_post_search_vector();
+
+-- ...and when the full text is saved
+CREATE OR REPLACE FUNCTION public.refresh_post_search_vector()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.posts
+  SET search_vector = public.post_search_document(title, content_preview, NEW.content_full)
+  WHERE id = NEW.post_id;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER on_post_content_indexed
+  AFTER INSERT OR UPDATE OF content_full ON public.post_contents
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_post_search_vector();
+
+-- Turn what a reader typed into a tsquery. "Quoted text" matches as a phrase,
+-- word* matches as a prefix, -word excludes, and the last word is treated as
+-- a prefix while it is still being typed.
+CREATE OR REPLACE FUNCTION public.build_search_query(search_query TEXT)
+RETURNS tsquery
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  result tsquery := ''::tsquery;
+  phrase TEXT;
+  words TEXT[];
+  word TEXT;
+  term tsquery;
+  is_negated BOOLEAN;
+  is_prefix BOOLEAN;
+BEGIN
+  FOR phrase IN SELECT m[1] FROM regexp_matches(search_query, '"([^"]+)"', 'g') AS m LOOP
+    result := result && phraseto_tsquery('english', phrase);
+  END LOOP;
+
+  words := regexp_split_to_array(trim(regexp_replace(search_query, '"[^"]*"?', ' ', 'g')), '\s+');
+
+  FOR i IN 1 .. COALESCE(array_length(words, 1), 0) LOOP
+    word := words[i];
+    is_negated := left(word, 1) = '-';
+    is_prefix := right(word, 1) = '*'
+      OR (i = array_length(words, 1) AND search_query !~ '[\s"]$');
+
+    -- Drop tsquery operators so user input can never make the query invalid
+    word := regexp_replace(regexp_replace(word, '^-+', ''), '[&|!():*<>''\\]', '', 'g');
+    CONTINUE WHEN word = '';
+
+    IF is_prefix THEN
+      term := to_tsquery('english', '''' || word || ''':*');
+    ELSE
+      term := plainto_tsquery('english', word);
+    END IF;
+
+    IF is_negated THEN
+      result := result && !!term;
+    ELSE
+      result := result && term;
+    END IF;
+  END LOOP;
+
+  RETURN result;
+END;
+$$;
+
+-- Ranked search results with highlighted title and snippet. Matches are
+-- wrapped in <mark></mark>. The snippet comes from the full text where the
+-- caller may read it (RLS on post_contents) and from the preview otherwise.
+CREATE OR REPLACE FUNCTION public.search_posts(
+  search_query TEXT,
+  result_limit INTEGER DEFAULT 20,
+  result_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  title TEXT,
+  content_preview TEXT,
+  image_url TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  like_count INTEGER,
+  comment_count INTEGER,
+  rank REAL,
+  title_highlight TEXT,
+  snippet TEXT,
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH parsed AS (
+    SELECT public.build_search_query(search_query) AS q
+  ),
+  matches AS (
+    SELECT
+      p.id,
+      p.user_id,
+      p.title,
+      p.content_preview,
+      p.image_url,
+      p.created_at,
+      p.like_count,
+      p.comment_count,
+      ts_rank_cd(p.search_vector, parsed.q, 32) AS rank,
+      count(*) OVER () AS total_count,
+      parsed.q
+    FROM public.posts p, parsed
+    WHERE numnode(parsed.q) > 0
+      AND p.status = 'published'
+      AND p.search_vector @@ parsed.q
+    ORDER BY rank DESC, p.created_at DESC
+    LIMIT LEAST(result_limit, 50)
+    OFFSET result_offset
+  )
+  SELECT
+    m.id,
+    m.user_id,
+    m.title,
+    m.content_preview,
+    m.image_url,
+    m.created_at,
+    m.like_count,
+    m.comment_count,
+    m.rank,
+    ts_headline('english', m.title, m.q, 'HighlightAll=true, StartSel=<mark>, StopSel=</mark>'),
+    ts_headline(
+      'english',
+      COALESCE(pc.content_full, m.content_preview),
+      m.q,
+      'StartSel=<mark>, StopSel=</mark>, MinWords=15, MaxWords=35, MaxFragments=2, FragmentDelimiter=" … "'
+    ),
+    m.total_count
+  FROM matches m
+  LEFT JOIN public.post_contents pc ON pc.post_id = m.id
+  ORDER BY m.rank DESC, m.created_at DESC;
+$$;
@@ -0,0 +1,227 @@
+-- Genres are a fixed list curated by us; tags are free-form and created by writers
+CREATE TABLE public.genres (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  slug TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.genres (slug, name) VALUES
+  ('romance', 'Romance'),
+  ('thriller', 'Thriller'),
+  ('mystery', 'Mystery'),
+  ('fantasy', 'Fantasy'),
+  ('science-fiction', 'Science Fiction'),
+  ('horror', 'Horror'),
+  ('drama', 'Drama'),
+  ('comedy', 'Comedy'),
+  ('historical', 'Historical'),
+  ('mythology', 'Mythology'),
+  ('slice-of-life', 'Slice of Life'),
+  ('poetry', 'Poetry');
+
+CREATE TABLE public.tags (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  slug TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.post_tags (
+  post_id UUID REFERENCES public.posts(id) ON DELETE CASCADE NOT NULL,
+  tag_id UUID REFERENCES public.tags(id) ON DELETE CASCADE NOT NULL,
+  PRIMARY KEY (post_id, tag_id)
+);
+
+CREATE INDEX post_tags_tag_id_idx ON public.post_tags (tag_id);
+
+ALTER TABLE public.posts ADD COLUMN genre_id UUID REFERENCES public.genres(id) ON DELETE SET NULL;
+
+CREATE INDEX posts_genre_id_created_at_idx ON public.posts (genre_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.genres ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.post_tags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Genres are viewable by everyone"
+ON public.genres FOR SELECT
+USING (true);
+
+-- Tags are created through set_post_tags() below
+CREATE POLICY "Tags are viewable by everyone"
+ON public.tags FOR SELECT
+USING (true);
+
+CREATE POLICY "Tags of visible posts are viewable"
+ON public.post_tags FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.posts
+    WHERE posts.id = post_id
+      AND (posts.status = 'published' OR posts.user_id = auth.uid())
+  )
+);
+
+-- Lower-case, hyphen-separated and free of punctuation. Letters outside ASCII
+-- (e.g. Devanagari) are kept so Hindi tags get readable URLs too.
+CREATE OR REPLACE FUNCTION public.slugify(value TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT trim(BOTH '-' FROM regexp_replace(
+    regexp_replace(lower(trim(value)), '[!-,./:-@\[-^`{-~]', '', 'g'),
+    '[\s_-]+', '-', 'g'
+  ));
+$$;
+
+-- Replace a story's tags, creating tags that don't exist yet. Only the author
+-- of the story may tag it, and a story has at most five tags.
+CREATE OR REPLACE FUNCTION public.set_post_tags(target_post_id UUID, tag_names TEXT[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  tag_name TEXT;
+  tag_slug TEXT;
+  tag_count INTEGER := 0;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.posts
+    WHERE id = target_post_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'You can only tag your own stories';
+  END IF;
+
+  DELETE FROM public.post_tags WHERE post_id = target_post_id;
+
+  FOREACH tag_name IN ARRAY COALESCE(tag_names, '{}') LOOP
+    tag_name := trim(tag_name);
+    tag_slug := public.slugify(tag_name);
+    CONTINUE WHEN tag_slug = '' OR char_length(tag_name) > 30;
+
+    INSERT INTO public.tags (slug, name)
+    VALUES (tag_slug, tag_name)
+    ON CONFLICT (slug) DO NOTHING;
+
+    INSERT INTO public.post_tags (post_id, tag_id)
+    SELECT target_post_id, id FROM public.tags WHERE slug = tag_slug
+    ON CONFLICT DO NOTHING;
+
+    tag_count := tag_count + 1;
+    EXIT WHEN tag_count >= 5;
+  END LOOP;
+END;
+$$;
+
+-- Tags used by the most published stories, for the filters on the home page
+CREATE OR REPLACE FUNCTION public.get_popular_tags(result_limit INTEGER DEFAULT 12)
+RETURNS TABLE (
+  id UUID,
+  slug TEXT,
+  name TEXT,
+  post_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT t.id, t.slug, t.name, count(*) AS post_count
+  FROM public.tags t
+  JOIN public.post_tags pt ON pt.tag_id = t.id
+  JOIN public.posts p ON p.id = pt.post_id
+  WHERE p.status = 'published'
+  GROUP BY t.id
+  ORDER BY count(*) DESC, t.name
+  LIMIT LEAST(result_limit, 50);
+$$;
+
+-- Search can now be narrowed to a genre and/or a tag
+DROP FUNCTION public.search_posts(TEXT, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.search_posts(
+  search_query TEXT,
+  result_limit INTEGER DEFAULT 20,
+  result_offset INTEGER DEFAULT 0,
+  genre_slug TEXT DEFAULT NULL,
+  tag_slug TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  title TEXT,
+  content_preview TEXT,
+  image_url TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  like_count INTEGER,
+  comment_count INTEGER,
+  rank REAL,
+  title_highlight TEXT,
+  snippet TEXT,
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH parsed AS (
+    SELECT public.build_search_query(search_query) AS q
+  ),
+  matches AS (
+    SELECT
+      p.id,
+      p.user_id,
+      p.title,
+      p.content_preview,
+      p.image_url,
+      p.created_at,
+      p.like_count,
+      p.comment_count,
+      ts_rank_cd(p.search_vector, parsed.q, 32) AS rank,
+      count(*) OVER () AS total_count,
+      parsed.q
+    FROM public.posts p, parsed
+    WHERE numnode(parsed.q) > 0
+      AND p.status = 'published'
+      AND p.search_vector @@ parsed.q
+      AND (
+        search_posts.genre_slug IS NULL
+        OR p.genre_id = (SELECT g.id FROM public.genres g WHERE g.slug = search_posts.genre_slug)
+      )
+      AND (
+        search_posts.tag_slug IS NULL
+        OR EXISTS (
+          SELECT 1
+          FROM public.post_tags pt
+          JOIN public.tags t ON t.id = pt.tag_id
+          WHERE pt.post_id = p.id AND t.slug = search_posts.tag_slug
+        )
+      )
+    ORDER BY rank DESC, p.created_at DESC
+    LIMIT LEAST(result_limit, 50)
+    OFFSET result_offset
+  )
+  SELECT
+    m.id,
+    m.user_id,
+    m.title,
+    m.content_preview,
+    m.image_url,
+    m.created_at,
+    m.like_count,
+    m.comment_count,
+    m.rank,
+    ts_headline('english', m.title, m.q, 'HighlightAll=true, StartSel=<mark>, StopSel=</mark>'),
+    ts_headline(
+      'english',
+      COALESCE(pc.content_full, m.content_preview),
+      m.q,
+      'StartSel=<mark>, StopSel=</mark>, MinWords=15, MaxWords=35, MaxFragments=2, FragmentDelimiter=" … "'
+    ),
+    m.total_count
+  FROM matches m
+  LEFT JOIN public.post_contents pc ON pc.post_id = m.id
+  ORDER BY m.rank DESC, m.created_at DESC;
+$$;
@@ -0,0 +1,108 @@
+-- Create series table so long fiction can be published as ordered chapters
+CREATE TABLE public.series (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  title TEXT NOT NULL CHECK (char_length(title) BETWEEN 1 AND 200),
+  description TEXT CHECK (char_length(description) <= 1000),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX series_user_id_idx ON public.series (user_id);
+
+CREATE TRIGGER update_series_updated_at
+  BEFORE UPDATE ON public.series
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- A story is a chapter when it belongs to a series. Positions are unique per
+-- series; the check is deferred so chapters can swap places in one statement.
+ALTER TABLE public.posts
+  ADD COLUMN series_id UUID REFERENCES public.series(id) ON DELETE SET NULL,
+  ADD COLUMN series_position INTEGER,
+  ADD CONSTRAINT posts_series_position_key UNIQUE (series_id, series_position) DEFERRABLE INITIALLY DEFERRED;
+
+-- Enable RLS
+ALTER TABLE public.series ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Series are viewable by everyone"
+ON public.series FOR SELECT
+USING (true);
+
+CREATE POLICY "Users can create their own series"
+ON public.series FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own series"
+ON public.series FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own series"
+ON public.series FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Chapters can only be added to the author's own series, and a story added to
+-- a series becomes its last chapter
+CREATE OR REPLACE FUNCTION public.set_series_position()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NEW.series_id IS NULL THEN
+    NEW.series_position := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.series_id IS NOT DISTINCT FROM OLD.series_id THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.series
+    WHERE id = NEW.series_id AND user_id = NEW.user_id
+  ) THEN
+    RAISE EXCEPTION 'Stories can only be added to your own series';
+  END IF;
+
+  NEW.series_position := (
+    SELECT COALESCE(max(series_position), 0) + 1
+    FROM public.posts
+    WHERE series_id = NEW.series_id
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_series_position
+  BEFORE INSERT OR UPDATE OF series_id ON public.posts
+  FOR EACH ROW EXECUTE FUNCTION public.set_series_position();
+
+-- Put a series' chapters in the given order. Only the series author may
+-- reorder, and the list must contain exactly the chapters of the series.
+CREATE OR REPLACE FUNCTION public.reorder_series_chapters(target_series_id UUID, chapter_ids UUID[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.series
+    WHERE id = target_series_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'You can only reorder your own series';
+  END IF;
+
+  IF (
+    SELECT array_agg(id ORDER BY id) FROM public.posts WHERE series_id = target_series_id
+  ) IS DISTINCT FROM (
+    SELECT array_agg(chapter_id ORDER BY chapter_id) FROM unnest(chapter_ids) AS chapter_id
+  ) THEN
+    RAISE EXCEPTION 'The chapter list is out of date, please reload and try again';
+  END IF;
+
+  UPDATE public.posts p
+  SET series_position = c.position
+  FROM unnest(chapter_ids) WITH ORDINALITY AS c(chapter_id, position)
+  WHERE p.id = c.chapter_id;
+END;
+$$;
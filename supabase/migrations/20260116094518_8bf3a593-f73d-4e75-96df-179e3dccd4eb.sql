@@ -0,0 +1,38 @@
+-- Let authors describe themselves and link to their other pages
+ALTER TABLE public.profiles
+  ADD COLUMN bio TEXT CHECK (char_length(bio) <= 500),
+  ADD COLUMN website_url TEXT CHECK (website_url ~* '^https?://[^\s]+$' AND char_length(website_url) <= 200),
+  ADD COLUMN twitter_handle TEXT CHECK (twitter_handle ~ '^[A-Za-z0-9_]{1,15}$'),
+  ADD COLUMN instagram_handle TEXT CHECK (instagram_handle ~ '^[A-Za-z0-9_.]{1,30}$'),
+  ADD COLUMN updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+-- Display names are now editable, so keep them to a sensible length. Existing
+-- names were never checked, hence NOT VALID.
+ALTER TABLE public.profiles
+  ADD CONSTRAINT profiles_username_length CHECK (char_length(btrim(username)) BETWEEN 3 AND 50) NOT VALID;
+
+CREATE TRIGGER update_profiles_updated_at
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create storage bucket for profile pictures
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('avatars', 'avatars', true);
+
+-- Allow anyone to view avatars
+CREATE POLICY "Avatars are publicly accessible"
+ON storage.objects FOR SELECT
+USING (bucket_id = 'avatars');
+
+-- Users can only manage avatars inside their own folder
+CREATE POLICY "Users can upload their own avatar"
+ON storage.objects FOR INSERT
+WITH CHECK (bucket_id = 'avatars' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can update their own avatar"
+ON storage.objects FOR UPDATE
+USING (bucket_id = 'avatars' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can delete their own avatar"
+ON storage.objects FOR DELETE
+USING (bucket_id = 'avatars' AND auth.uid()::text = (storage.foldername(name))[1]);
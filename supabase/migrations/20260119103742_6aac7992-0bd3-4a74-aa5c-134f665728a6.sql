@@ -0,0 +1,125 @@
+-- Handles that would clash with app routes or impersonate the site
+CREATE TABLE public.reserved_handles (
+  handle TEXT PRIMARY KEY
+);
+
+INSERT INTO public.reserved_handles (handle) VALUES
+  ('about'), ('admin'), ('administrator'), ('api'), ('auth'), ('author'),
+  ('create'), ('dashboard'), ('editor'), ('explore'), ('genre'), ('help'),
+  ('login'), ('logout'), ('me'), ('mod'), ('moderation'), ('moderator'),
+  ('new'), ('null'), ('post'), ('posts'), ('privacy'), ('reading_list'),
+  ('root'), ('search'), ('series'), ('settings'), ('signin'), ('signup'),
+  ('staff'), ('storypeek'), ('support'), ('system'), ('tag'), ('terms'),
+  ('undefined'), ('user'), ('users'), ('www');
+
+ALTER TABLE public.reserved_handles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Reserved handles are viewable by everyone"
+ON public.reserved_handles FOR SELECT
+USING (true);
+
+-- Every author gets a unique handle used in their profile URL (/@handle).
+-- Handles are stored lowercased, which makes them unique case-insensitively.
+ALTER TABLE public.profiles
+  ADD COLUMN handle TEXT CHECK (handle ~ '^[a-z0-9_]{3,30}$');
+
+-- Whether a handle can be taken by the signed-in user (or a new signup)
+CREATE OR REPLACE FUNCTION public.is_handle_available(candidate TEXT)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT lower(candidate) ~ '^[a-z0-9_]{3,30}$'
+    AND NOT EXISTS (SELECT 1 FROM public.reserved_handles WHERE handle = lower(candidate))
+    AND NOT EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE handle = lower(candidate) AND user_id IS DISTINCT FROM auth.uid()
+    );
+$$;
+
+-- Derive a free handle from a display name, adding digits until it is unique
+CREATE OR REPLACE FUNCTION public.generate_handle(base TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  stem TEXT := left(btrim(regexp_replace(lower(COALESCE(base, '')), '[^a-z0-9_]+', '_', 'g'), '_'), 24);
+  candidate TEXT;
+BEGIN
+  IF char_length(stem) < 3 THEN
+    stem := 'writer';
+  END IF;
+
+  candidate := stem;
+  WHILE NOT public.is_handle_available(candidate) LOOP
+    candidate := stem || '_' || floor(random() * 10000)::int;
+  END LOOP;
+
+  RETURN candidate;
+END;
+$$;
+
+-- Give existing authors a handle based on their username, oldest accounts first
+DO $$
+DECLARE
+  r RECORD;
+BEGIN
+  FOR r IN SELECT id, username FROM public.profiles ORDER BY created_at LOOP
+    UPDATE public.profiles SET handle = public.generate_handle(r.username) WHERE id = r.id;
+  END LOOP;
+END;
+$$;
+
+ALTER TABLE public.profiles
+  ALTER COLUMN handle SET NOT NULL,
+  ADD CONSTRAINT profiles_handle_key UNIQUE (handle);
+
+-- Lowercase handles on the way in and refuse reserved ones
+CREATE OR REPLACE FUNCTION public.validate_profile_handle()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.handle := lower(btrim(NEW.handle));
+
+  IF EXISTS (SELECT 1 FROM public.reserved_handles WHERE handle = NEW.handle) THEN
+    RAISE EXCEPTION 'The handle "%" is reserved', NEW.handle;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_profile_handle
+  BEFORE INSERT OR UPDATE OF handle ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.validate_profile_handle();
+
+-- New accounts use the handle chosen at signup, falling back to a generated
+-- one if it was taken in the meantime
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  requested_handle TEXT := lower(NEW.raw_user_meta_data ->> 'handle');
+  display_name TEXT := COALESCE(NEW.raw_user_meta_data ->> 'username', 'User');
+BEGIN
+  IF requested_handle IS NULL OR NOT public.is_handle_available(requested_handle) THEN
+    requested_handle := public.generate_handle(COALESCE(requested_handle, display_name));
+  END IF;
+
+  INSERT INTO public.profiles (user_id, username, handle, phone_number, profile_pic_url)
+  VALUES (
+    NEW.id,
+    display_name,
+    requested_handle,
+    COALESCE(NEW.raw_user_meta_data ->> 'phone_number', ''),
+    CONCAT('https://api.dicebear.com/7.x/avataaars/svg?seed=', NEW.id)
+  );
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,155 @@
+-- Short, stable ids for story URLs (/post/<title-slug>-<short_id>). The title
+-- slug is only decoration and is rebuilt from the current title, so renamed
+-- stories keep working links.
+CREATE OR REPLACE FUNCTION public.generate_post_short_id()
+RETURNS TEXT
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  alphabet CONSTANT TEXT := '0123456789abcdefghijklmnopqrstuvwxyz';
+  candidate TEXT;
+BEGIN
+  LOOP
+    candidate := '';
+    FOR i IN 1..8 LOOP
+      candidate := candidate || substr(alphabet, 1 + floor(random() * 36)::int, 1);
+    END LOOP;
+
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM public.posts WHERE short_id = candidate);
+  END LOOP;
+
+  RETURN candidate;
+END;
+$$;
+
+-- Existing stories get an id each from the column default
+ALTER TABLE public.posts
+  ADD COLUMN short_id TEXT NOT NULL DEFAULT public.generate_post_short_id(),
+  ADD CONSTRAINT posts_short_id_key UNIQUE (short_id);
+
+-- Return the short id with trending stories so the sidebar can link to them
+DROP FUNCTION public.get_trending_posts(TEXT, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.get_trending_posts(time_window TEXT DEFAULT 'week', result_limit INTEGER DEFAULT 5)
+RETURNS TABLE (
+  id UUID,
+  short_id TEXT,
+  user_id UUID,
+  title TEXT,
+  content_preview TEXT,
+  image_url TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  score DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    p.id,
+    p.short_id,
+    p.user_id,
+    p.title,
+    p.content_preview,
+    p.image_url,
+    p.created_at,
+    COALESCE(t.score, 0) AS score
+  FROM public.posts p
+  LEFT JOIN public.trending_posts t
+    ON t.post_id = p.id AND t.time_window = get_trending_posts.time_window
+  WHERE p.status = 'published'
+  ORDER BY COALESCE(t.score, 0) DESC, p.created_at DESC
+  LIMIT LEAST(result_limit, 50);
+$$;
+
+-- Same for search results
+DROP FUNCTION public.search_posts(TEXT, INTEGER, INTEGER, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.search_posts(
+  search_query TEXT,
+  result_limit INTEGER DEFAULT 20,
+  result_offset INTEGER DEFAULT 0,
+  genre_slug TEXT DEFAULT NULL,
+  tag_slug TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  short_id TEXT,
+  user_id UUID,
+  title TEXT,
+  content_preview TEXT,
+  image_url TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  like_count INTEGER,
+  comment_count INTEGER,
+  rank REAL,
+  title_highlight TEXT,
+  snippet TEXT,
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH parsed AS (
+    SELECT public.build_search_query(search_query) AS q
+  ),
+  matches AS (
+    SELECT
+      p.id,
+      p.short_id,
+      p.user_id,
+      p.title,
+      p.content_preview,
+      p.image_url,
+      p.created_at,
+      p.like_count,
+      p.comment_count,
+      ts_rank_cd(p.search_vector, parsed.q, 32) AS rank,
+      count(*) OVER () AS total_count,
+      parsed.q
+    FROM public.posts p, parsed
+    WHERE numnode(parsed.q) > 0
+      AND p.status = 'published'
+      AND p.search_vector @@ parsed.q
+      AND (
+        search_posts.genre_slug IS NULL
+        OR p.genre_id = (SELECT g.id FROM public.genres g WHERE g.slug = search_posts.genre_slug)
+      )
+      AND (
+        search_posts.tag_slug IS NULL
+        OR EXISTS (
+          SELECT 1
+          FROM public.post_tags pt
+          JOIN public.tags t ON t.id = pt.tag_id
+          WHERE pt.post_id = p.id AND t.slug = search_posts.tag_slug
+        )
+      )
+    ORDER BY rank DESC, p.created_at DESC
+    LIMIT LEAST(result_limit, 50)
+    OFFSET result_offset
+  )
+  SELECT
+    m.id,
+    m.short_id,
+    m.user_id,
+    m.title,
+    m.content_preview,
+    m.image_url,
+    m.created_at,
+    m.like_count,
+    m.comment_count,
+    m.rank,
+    ts_headline('english', m.title, m.q, 'HighlightAll=true, StartSel=<mark>, StopSel=</mark>'),
+    ts_headline(
+      'english',
+      COALESCE(pc.content_full, m.content_preview),
+      m.q,
+      'StartSel=<mark>, StopSel=</mark>, MinWords=15, MaxWords=35, MaxFragments=2, FragmentDelimiter=" … "'
+    ),
+    m.total_count
+  FROM matches m
+  LEFT JOIN public.post_contents pc ON pc.post_id = m.id
+  ORDER BY m.rank DESC, m.created_at DESC;
+$$;
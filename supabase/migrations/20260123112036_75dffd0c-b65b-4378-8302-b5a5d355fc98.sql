@@ -0,0 +1,77 @@
+-- Sign-in moves from fake "<phone>@storypeek.local" email accounts to real
+-- phone auth with SMS codes. Codes are delivered by the send-sms edge function
+-- (configured as the auth "Send SMS" hook), which hands them to a pluggable
+-- SMS provider.
+
+-- Messages "sent" by the local development provider, so tests and developers
+-- can read the codes. Only the service role can access it (RLS, no policies).
+CREATE TABLE public.sms_outbox (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  phone TEXT NOT NULL,
+  body TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX sms_outbox_phone_created_at_idx ON public.sms_outbox (phone, created_at DESC);
+
+ALTER TABLE public.sms_outbox ENABLE ROW LEVEL SECURITY;
+
+-- Move existing synthetic accounts onto their phone number. The number was
+-- never verified, so it stays unconfirmed until the owner enters a code sent
+-- to it; the password keeps working after that.
+UPDATE auth.users u
+SET
+  phone = '91' || p.phone_number,
+  phone_confirmed_at = NULL,
+  email = NULL,
+  email_confirmed_at = NULL,
+  raw_app_meta_data = COALESCE(u.raw_app_meta_data, '{}'::jsonb)
+    || jsonb_build_object('provider', 'phone', 'providers', jsonb_build_array('phone'))
+FROM public.profiles p
+WHERE p.user_id = u.id
+  AND u.email LIKE '%@storypeek.local'
+  AND p.phone_number ~ '^[6-9][0-9]{9}$';
+
+INSERT INTO auth.identities (provider_id, user_id, identity_data, provider, created_at, updated_at)
+SELECT
+  u.id::text,
+  u.id,
+  jsonb_build_object('sub', u.id::text, 'phone', u.phone, 'phone_verified', false),
+  'phone',
+  now(),
+  now()
+FROM auth.users u
+WHERE u.phone IS NOT NULL
+  AND u.raw_app_meta_data ->> 'provider' = 'phone'
+ON CONFLICT (provider_id, provider) DO NOTHING;
+
+DELETE FROM auth.identities
+WHERE provider = 'email'
+  AND identity_data ->> 'email' LIKE '%@storypeek.local';
+
+-- New accounts take their number from the phone they signed up with. Auth
+-- stores it as 91XXXXXXXXXX; profiles keep the 10-digit national number.
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  requested_handle TEXT := lower(NEW.raw_user_meta_data ->> 'handle');
+  display_name TEXT := COALESCE(NEW.raw_user_meta_data ->> 'username', 'User');
+BEGIN
+  IF requested_handle IS NULL OR NOT public.is_handle_available(requested_handle) THEN
+    requested_handle := public.generate_handle(COALESCE(requested_handle, display_name));
+  END IF;
+
+  INSERT INTO public.profiles (user_id, username, handle, phone_number, profile_pic_url)
+  VALUES (
+    NEW.id,
+    display_name,
+    requested_handle,
+    COALESCE(right(NEW.phone, 10), ''),
+    CONCAT('https://api.dicebear.com/7.x/avataaars/svg?seed=', NEW.id)
+  );
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,130 @@
+-- Account settings: phone number changes, active sessions and account
+-- deletion with a grace period.
+
+-- Whether a phone number (10-digit national form) can be moved to by the
+-- signed-in user
+CREATE OR REPLACE FUNCTION public.is_phone_available(candidate TEXT)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT candidate ~ '^[6-9][0-9]{9}$'
+    AND NOT EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE phone_number = candidate AND user_id IS DISTINCT FROM auth.uid()
+    );
+$$;
+
+-- Auth owns the verified number; profiles.phone_number (still UNIQUE) follows
+-- it once a phone change has been confirmed with a code.
+CREATE OR REPLACE FUNCTION public.sync_profile_phone()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.profiles
+  SET phone_number = right(NEW.phone, 10)
+  WHERE user_id = NEW.id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_auth_user_phone_changed
+  AFTER UPDATE OF phone ON auth.users
+  FOR EACH ROW
+  WHEN (NEW.phone IS NOT NULL AND NEW.phone IS DISTINCT FROM OLD.phone)
+  EXECUTE FUNCTION public.sync_profile_phone();
+
+-- The signed-in user's sessions, newest activity first
+CREATE OR REPLACE FUNCTION public.get_my_sessions()
+RETURNS TABLE (
+  id UUID,
+  created_at TIMESTAMP WITH TIME ZONE,
+  last_active_at TIMESTAMP WITH TIME ZONE,
+  user_agent TEXT,
+  ip TEXT,
+  is_current BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT
+    s.id,
+    s.created_at,
+    COALESCE(s.refreshed_at, s.updated_at, s.created_at) AS last_active_at,
+    s.user_agent,
+    host(s.ip),
+    s.id::text = auth.jwt() ->> 'session_id' AS is_current
+  FROM auth.sessions s
+  WHERE s.user_id = auth.uid()
+    AND (s.not_after IS NULL OR s.not_after > now())
+  ORDER BY last_active_at DESC;
+$$;
+
+-- Sign out one of the user's own sessions. Its refresh tokens go with it, so
+-- the device is signed out when its current access token expires.
+CREATE OR REPLACE FUNCTION public.revoke_session(target_session_id UUID)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER SET search_path = public
+AS $$
+  DELETE FROM auth.sessions
+  WHERE id = target_session_id AND user_id = auth.uid();
+$$;
+
+-- Accounts waiting to be deleted. Nothing is removed until purge_after, and
+-- deleting the row (signing in and cancelling) keeps the account.
+CREATE TABLE public.account_deletions (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  requested_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  purge_after TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now() + interval '14 days'
+);
+
+CREATE INDEX account_deletions_purge_after_idx ON public.account_deletions (purge_after);
+
+ALTER TABLE public.account_deletions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own pending deletion"
+ON public.account_deletions FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can cancel their own pending deletion"
+ON public.account_deletions FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Requests go through this function so the grace period can't be shortened
+CREATE OR REPLACE FUNCTION public.request_account_deletion()
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE sql
+SECURITY DEFINER SET search_path = public
+AS $$
+  INSERT INTO public.account_deletions (user_id)
+  VALUES (auth.uid())
+  ON CONFLICT (user_id) DO UPDATE SET user_id = EXCLUDED.user_id
+  RETURNING purge_after;
+$$;
+
+-- Deleting the auth user cascades to the profile, stories, comments and the
+-- rest. Uploaded images have to go through the Storage API, so the actual
+-- purge is done by the purge-deleted-accounts edge function, run hourly.
+-- The project URL and service role key are read from Vault.
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'purge-deleted-accounts',
+  '0 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/purge-deleted-accounts',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  )
+  $$
+);
@@ -0,0 +1,72 @@
+-- Profiles are readable by everyone, so the phone number moves to a table
+-- only its owner can read. It is kept in sync with the auth user by triggers,
+-- so there are no write policies.
+CREATE TABLE public.private_profiles (
+  user_id UUID PRIMARY KEY REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  phone_number TEXT NOT NULL UNIQUE
+);
+
+ALTER TABLE public.private_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own private profile"
+ON public.private_profiles FOR SELECT
+USING (auth.uid() = user_id);
+
+INSERT INTO public.private_profiles (user_id, phone_number)
+SELECT user_id, phone_number FROM public.profiles;
+
+ALTER TABLE public.profiles DROP COLUMN phone_number;
+
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  requested_handle TEXT := lower(NEW.raw_user_meta_data ->> 'handle');
+  display_name TEXT := COALESCE(NEW.raw_user_meta_data ->> 'username', 'User');
+BEGIN
+  IF requested_handle IS NULL OR NOT public.is_handle_available(requested_handle) THEN
+    requested_handle := public.generate_handle(COALESCE(requested_handle, display_name));
+  END IF;
+
+  INSERT INTO public.profiles (user_id, username, handle, profile_pic_url)
+  VALUES (
+    NEW.id,
+    display_name,
+    requested_handle,
+    CONCAT('https://api.dicebear.com/7.x/avataaars/svg?seed=', NEW.id)
+  );
+
+  INSERT INTO public.private_profiles (user_id, phone_number)
+  VALUES (NEW.id, COALESCE(right(NEW.phone, 10), ''));
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.sync_profile_phone()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.private_profiles
+  SET phone_number = right(NEW.phone, 10)
+  WHERE user_id = NEW.id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_phone_available(candidate TEXT)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT candidate ~ '^[6-9][0-9]{9}$'
+    AND NOT EXISTS (
+      SELECT 1 FROM public.private_profiles
+      WHERE phone_number = candidate AND user_id IS DISTINCT FROM auth.uid()
+    );
+$$;
@@ -0,0 +1,110 @@
+-- Stories and comments reference their author's profile, so the API can embed
+-- the author (posts?select=*,author:profiles(...)) instead of a second lookup.
+-- Every auth user gets a profile on signup, and profiles are deleted along
+-- with the user, so the existing user_id values all match.
+ALTER TABLE public.posts
+  ADD CONSTRAINT posts_user_id_profiles_fkey
+  FOREIGN KEY (user_id) REFERENCES public.profiles(user_id) ON DELETE CASCADE;
+
+ALTER TABLE public.comments
+  ADD CONSTRAINT comments_user_id_profiles_fkey
+  FOREIGN KEY (user_id) REFERENCES public.profiles(user_id) ON DELETE CASCADE;
+
+-- Search results come from a function rather than the posts table, so they
+-- can't embed; the author columns are returned alongside each story instead.
+DROP FUNCTION public.search_posts(TEXT, INTEGER, INTEGER, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.search_posts(
+  search_query TEXT,
+  result_limit INTEGER DEFAULT 20,
+  result_offset INTEGER DEFAULT 0,
+  genre_slug TEXT DEFAULT NULL,
+  tag_slug TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  short_id TEXT,
+  user_id UUID,
+  title TEXT,
+  content_preview TEXT,
+  image_url TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  like_count INTEGER,
+  comment_count INTEGER,
+  rank REAL,
+  title_highlight TEXT,
+  snippet TEXT,
+  total_count BIGINT,
+  username TEXT,
+  handle TEXT,
+  profile_pic_url TEXT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH parsed AS (
+    SELECT public.build_search_query(search_query) AS q
+  ),
+  matches AS (
+    SELECT
+      p.id,
+      p.short_id,
+      p.user_id,
+      p.title,
+      p.content_preview,
+      p.image_url,
+      p.created_at,
+      p.like_count,
+      p.comment_count,
+      ts_rank_cd(p.search_vector, parsed.q, 32) AS rank,
+      count(*) OVER () AS total_count,
+      parsed.q
+    FROM public.posts p, parsed
+    WHERE numnode(parsed.q) > 0
+      AND p.status = 'published'
+      AND p.search_vector @@ parsed.q
+      AND (
+        search_posts.genre_slug IS NULL
+        OR p.genre_id = (SELECT g.id FROM public.genres g WHERE g.slug = search_posts.genre_slug)
+      )
+      AND (
+        search_posts.tag_slug IS NULL
+        OR EXISTS (
+          SELECT 1
+          FROM public.post_tags pt
+          JOIN public.tags t ON t.id = pt.tag_id
+          WHERE pt.post_id = p.id AND t.slug = search_posts.tag_slug
+        )
+      )
+    ORDER BY rank DESC, p.created_at DESC
+    LIMIT LEAST(result_limit, 50)
+    OFFSET result_offset
+  )
+  SELECT
+    m.id,
+    m.short_id,
+    m.user_id,
+    m.title,
+    m.content_preview,
+    m.image_url,
+    m.created_at,
+    m.like_count,
+    m.comment_count,
+    m.rank,
+    ts_headline('english', m.title, m.q, 'HighlightAll=true, StartSel=<mark>, StopSel=</mark>'),
+    ts_headline(
+      'english',
+      COALESCE(pc.content_full, m.content_preview),
+      m.q,
+      'StartSel=<mark>, StopSel=</mark>, MinWords=15, MaxWords=35, MaxFragments=2, FragmentDelimiter=" … "'
+    ),
+    m.total_count,
+    pr.username,
+    pr.handle,
+    pr.profile_pic_url
+  FROM matches m
+  JOIN public.profiles pr ON pr.user_id = m.user_id
+  LEFT JOIN public.post_contents pc ON pc.post_id = m.id
+  ORDER BY m.rank DESC, m.created_at DESC;
+$$;
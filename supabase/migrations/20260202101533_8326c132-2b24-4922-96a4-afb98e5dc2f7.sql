@@ -0,0 +1,339 @@
+-- Reporting and moderation. Readers report stories, comments and accounts;
+-- admins review the reports at /admin/moderation, hide or remove stories,
+-- remove comments and suspend accounts. Every moderation action is recorded in
+-- moderation_log.
+
+-- Roles granted to users. There is no way to grant a role from the app; the
+-- first admin is added from the SQL editor:
+--   INSERT INTO public.user_roles (user_id, role) VALUES ('<user id>', 'admin');
+CREATE TYPE public.app_role AS ENUM ('admin');
+
+CREATE TABLE public.user_roles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  role public.app_role NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, role)
+);
+
+ALTER TABLE public.user_roles ENABLE ROW LEVEL SECURITY;
+
+-- Used in policies. SECURITY DEFINER so policies on user_roles itself don't
+-- recurse.
+CREATE OR REPLACE FUNCTION public.has_role(_user_id UUID, _role public.app_role)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = _user_id AND role = _role
+  );
+$$;
+
+CREATE POLICY "Users can view their own roles"
+ON public.user_roles FOR SELECT
+USING (auth.uid() = user_id OR public.has_role(auth.uid(), 'admin'));
+
+-- Hidden stories are taken down by a moderator but kept, so the decision can be
+-- reversed. Like drafts, only the author (and admins) can see them.
+ALTER TYPE public.post_status ADD VALUE 'hidden';
+
+DROP POLICY "Published posts are viewable by everyone" ON public.posts;
+
+CREATE POLICY "Published posts are viewable by everyone"
+ON public.posts FOR SELECT
+USING (status = 'published' OR auth.uid() = user_id OR public.has_role(auth.uid(), 'admin'));
+
+-- Authors can't hide their own stories or bring a hidden story back
+CREATE OR REPLACE FUNCTION public.protect_hidden_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF (NEW.status = 'hidden' OR OLD.status = 'hidden')
+    AND NEW.status IS DISTINCT FROM OLD.status
+    AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'This story was hidden by a moderator' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_hidden_status_before_update
+  BEFORE UPDATE OF status ON public.posts
+  FOR EACH ROW EXECUTE FUNCTION public.protect_hidden_status();
+
+CREATE TYPE public.report_target AS ENUM ('post', 'comment', 'user');
+
+CREATE TYPE public.report_reason AS ENUM (
+  'spam',
+  'harassment',
+  'hate_speech',
+  'sexual_content',
+  'violence',
+  'plagiarism',
+  'other'
+);
+
+CREATE TYPE public.report_status AS ENUM ('open', 'resolved', 'dismissed');
+
+-- The target columns are cleared if a story, comment or account is deleted,
+-- so target_type still says what the report was about.
+CREATE TABLE public.reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  reporter_id UUID REFERENCES public.profiles(user_id) ON DELETE SET NULL,
+  target_type public.report_target NOT NULL,
+  post_id UUID REFERENCES public.posts(id) ON DELETE SET NULL,
+  comment_id UUID REFERENCES public.comments(id) ON DELETE SET NULL,
+  reported_user_id UUID REFERENCES public.profiles(user_id) ON DELETE SET NULL,
+  reason public.report_reason NOT NULL,
+  details TEXT CHECK (char_length(details) <= 1000),
+  status public.report_status NOT NULL DEFAULT 'open',
+  resolved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (num_nonnulls(post_id, comment_id, reported_user_id) <= 1)
+);
+
+CREATE INDEX reports_status_created_at_idx ON public.reports (status, created_at DESC);
+
+-- One open report per reader and target
+CREATE UNIQUE INDEX reports_open_reporter_target_key
+  ON public.reports (reporter_id, target_type, COALESCE(post_id, comment_id, reported_user_id))
+  WHERE status = 'open';
+
+ALTER TABLE public.reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can report content"
+ON public.reports FOR INSERT
+WITH CHECK (
+  auth.uid() = reporter_id
+  AND status = 'open'
+  AND resolved_by IS NULL
+  AND resolved_at IS NULL
+  AND CASE target_type
+    WHEN 'post' THEN post_id IS NOT NULL
+    WHEN 'comment' THEN comment_id IS NOT NULL
+    WHEN 'user' THEN reported_user_id IS NOT NULL
+  END
+);
+
+CREATE POLICY "Users can view their own reports"
+ON public.reports FOR SELECT
+USING (auth.uid() = reporter_id OR public.has_role(auth.uid(), 'admin'));
+
+-- Append-only record of moderation decisions. Nothing may update or delete it,
+-- and rows are only written by the moderation functions below.
+CREATE TYPE public.moderation_action AS ENUM (
+  'dismiss_reports',
+  'hide_post',
+  'unhide_post',
+  'remove_post',
+  'remove_comment',
+  'suspend_user',
+  'unsuspend_user'
+);
+
+CREATE TABLE public.moderation_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  moderator_id UUID REFERENCES public.profiles(user_id) ON DELETE SET NULL,
+  action public.moderation_action NOT NULL,
+  target_type public.report_target NOT NULL,
+  target_id UUID NOT NULL,
+  -- What the target was at the time (story title, comment text, handle), so the
+  -- log stays readable after the target is deleted
+  target_summary TEXT NOT NULL,
+  note TEXT CHECK (char_length(note) <= 1000),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX moderation_log_created_at_idx ON public.moderation_log (created_at DESC);
+
+ALTER TABLE public.moderation_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view the moderation log"
+ON public.moderation_log FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Shared by the moderation functions: check the caller is an admin, close the
+-- open reports about the target and write the log entry
+CREATE OR REPLACE FUNCTION public.record_moderation(
+  _action public.moderation_action,
+  _target_type public.report_target,
+  _target_id UUID,
+  _target_summary TEXT,
+  _note TEXT,
+  _report_status public.report_status DEFAULT 'resolved'
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only moderators can do this' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.reports
+  SET status = _report_status, resolved_by = auth.uid(), resolved_at = now()
+  WHERE status = 'open'
+    AND target_type = _target_type
+    AND COALESCE(post_id, comment_id, reported_user_id) = _target_id;
+
+  INSERT INTO public.moderation_log (moderator_id, action, target_type, target_id, target_summary, note)
+  VALUES (auth.uid(), _action, _target_type, _target_id, _target_summary, NULLIF(btrim(_note), ''));
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_moderation FROM PUBLIC, anon, authenticated;
+
+-- Close the open reports about a target without acting on it
+CREATE OR REPLACE FUNCTION public.dismiss_reports(target_kind public.report_target, target_id UUID, note TEXT DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  summary TEXT;
+BEGIN
+  summary := CASE target_kind
+    WHEN 'post' THEN (SELECT title FROM public.posts WHERE id = dismiss_reports.target_id)
+    WHEN 'comment' THEN (SELECT left(body, 200) FROM public.comments WHERE id = dismiss_reports.target_id)
+    WHEN 'user' THEN (SELECT '@' || handle FROM public.profiles WHERE user_id = dismiss_reports.target_id)
+  END;
+
+  PERFORM public.record_moderation(
+    'dismiss_reports', target_kind, dismiss_reports.target_id, COALESCE(summary, 'Deleted'), note, 'dismissed'
+  );
+END;
+$$;
+
+-- Hide, unhide or delete a story
+CREATE OR REPLACE FUNCTION public.moderate_post(target_post_id UUID, action TEXT, note TEXT DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  target public.posts%ROWTYPE;
+BEGIN
+  SELECT * INTO target FROM public.posts WHERE id = target_post_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Story not found';
+  END IF;
+
+  IF action = 'hide' THEN
+    PERFORM public.record_moderation('hide_post', 'post', target.id, target.title, note);
+    UPDATE public.posts SET status = 'hidden' WHERE id = target.id;
+  ELSIF action = 'unhide' THEN
+    PERFORM public.record_moderation('unhide_post', 'post', target.id, target.title, note);
+    UPDATE public.posts SET status = 'published' WHERE id = target.id AND status = 'hidden';
+  ELSIF action = 'remove' THEN
+    PERFORM public.record_moderation('remove_post', 'post', target.id, target.title, note);
+    DELETE FROM public.posts WHERE id = target.id;
+  ELSE
+    RAISE EXCEPTION 'Unknown moderation action: %', action;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.remove_comment(target_comment_id UUID, note TEXT DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  target public.comments%ROWTYPE;
+BEGIN
+  SELECT * INTO target FROM public.comments WHERE id = target_comment_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Comment not found';
+  END IF;
+
+  PERFORM public.record_moderation('remove_comment', 'comment', target.id, left(target.body, 200), note);
+  DELETE FROM public.comments WHERE id = target.id;
+END;
+$$;
+
+-- Suspended accounts can't sign in until the suspension ends (auth bans the
+-- user) and are signed out of every device straight away. Without a number of
+-- days the account stays suspended until it is lifted (auth has no "forever",
+-- so it is banned for 100 years).
+CREATE OR REPLACE FUNCTION public.suspend_user(target_user_id UUID, suspend_days INTEGER DEFAULT NULL, note TEXT DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  target_handle TEXT;
+BEGIN
+  SELECT handle INTO target_handle FROM public.profiles WHERE user_id = target_user_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Account not found';
+  END IF;
+
+  IF target_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You can''t suspend yourself';
+  END IF;
+
+  PERFORM public.record_moderation('suspend_user', 'user', target_user_id, '@' || target_handle, note);
+
+  UPDATE auth.users
+  SET banned_until = CASE
+    WHEN suspend_days IS NULL THEN now() + interval '100 years'
+    ELSE now() + make_interval(days => suspend_days)
+  END
+  WHERE id = target_user_id;
+
+  DELETE FROM auth.sessions WHERE user_id = target_user_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.unsuspend_user(target_user_id UUID, note TEXT DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  target_handle TEXT;
+BEGIN
+  SELECT handle INTO target_handle FROM public.profiles WHERE user_id = target_user_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Account not found';
+  END IF;
+
+  PERFORM public.record_moderation('unsuspend_user', 'user', target_user_id, '@' || target_handle, note);
+
+  UPDATE auth.users SET banned_until = NULL WHERE id = target_user_id;
+END;
+$$;
+
+-- Accounts that are currently suspended, for the moderation page
+CREATE OR REPLACE FUNCTION public.get_suspended_users()
+RETURNS TABLE (
+  user_id UUID,
+  username TEXT,
+  handle TEXT,
+  profile_pic_url TEXT,
+  suspended_until TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only moderators can do this' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT p.user_id, p.username, p.handle, p.profile_pic_url, u.banned_until
+  FROM auth.users u
+  JOIN public.profiles p ON p.user_id = u.id
+  WHERE u.banned_until > now()
+  ORDER BY u.banned_until;
+END;
+$$;
@@ -0,0 +1,5 @@
+-- Editors curate the front page: they can feature any story or take one off
+-- the site without owning it. Admins can do everything editors can.
+-- The new value can't be used in the transaction that adds it, so the
+-- policies using it are in the next migration.
+ALTER TYPE public.app_role ADD VALUE 'editor';
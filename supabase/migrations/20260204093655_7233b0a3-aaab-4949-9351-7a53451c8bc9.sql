@@ -0,0 +1,69 @@
+-- Editor permissions. Admins are editors too, so policies check for either
+-- role through this helper.
+CREATE OR REPLACE FUNCTION public.is_editor(_user_id UUID)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = _user_id AND role IN ('editor', 'admin')
+  );
+$$;
+
+-- Stories picked by editors for the front page
+CREATE TABLE public.featured_posts (
+  post_id UUID PRIMARY KEY REFERENCES public.posts(id) ON DELETE CASCADE,
+  featured_by UUID REFERENCES public.profiles(user_id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX featured_posts_created_at_idx ON public.featured_posts (created_at DESC);
+
+ALTER TABLE public.featured_posts ENABLE ROW LEVEL SECURITY;
+
+-- Unpublished stories stay featured but are hidden from readers by RLS on posts
+CREATE POLICY "Featured stories are viewable by everyone"
+ON public.featured_posts FOR SELECT
+USING (true);
+
+CREATE POLICY "Editors can feature stories"
+ON public.featured_posts FOR INSERT
+WITH CHECK (
+  public.is_editor(auth.uid())
+  AND featured_by = auth.uid()
+  AND EXISTS (
+    SELECT 1 FROM public.posts
+    WHERE posts.id = post_id AND posts.status = 'published'
+  )
+);
+
+CREATE POLICY "Editors can unfeature stories"
+ON public.featured_posts FOR DELETE
+USING (public.is_editor(auth.uid()));
+
+-- Move a published story back to the author's drafts. Editors can't edit
+-- other people's stories, so this is done here rather than through an update
+-- policy on posts.
+CREATE OR REPLACE FUNCTION public.unpublish_post(target_post_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_editor(auth.uid()) THEN
+    RAISE EXCEPTION 'Only editors can do this' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.posts
+  SET status = 'draft', publish_at = NULL
+  WHERE id = target_post_id AND status = 'published';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Story not found or not published';
+  END IF;
+
+  DELETE FROM public.featured_posts WHERE post_id = target_post_id;
+END;
+$$;
@@ -0,0 +1,17 @@
+-- Editor's picks get an optional blurb shown on the front page carousel and a
+-- time window. Picks without an end stay featured until an editor removes them.
+ALTER TABLE public.featured_posts
+  ADD COLUMN blurb TEXT CHECK (char_length(blurb) <= 280),
+  ADD COLUMN starts_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  ADD COLUMN ends_at TIMESTAMP WITH TIME ZONE,
+  ADD CONSTRAINT featured_posts_ends_after_start CHECK (ends_at IS NULL OR ends_at > starts_at);
+
+DROP INDEX public.featured_posts_created_at_idx;
+
+CREATE INDEX featured_posts_starts_at_idx ON public.featured_posts (starts_at DESC);
+
+-- Editors can change the blurb and window of any pick
+CREATE POLICY "Editors can update featured stories"
+ON public.featured_posts FOR UPDATE
+USING (public.is_editor(auth.uid()))
+WITH CHECK (public.is_editor(auth.uid()) AND featured_by = auth.uid());
@@ -0,0 +1,176 @@
+-- Reading analytics for authors. Views and reads are already recorded in
+-- post_events (once per reader, story and type per day); they are now counted
+-- into a per-story, per-day table as they come in, and authors read their own
+-- numbers through the dashboard functions below.
+
+-- Authors opening their own stories aren't readers
+DROP POLICY "Anyone can record events for published posts" ON public.post_events;
+
+CREATE POLICY "Anyone can record events for published posts"
+ON public.post_events FOR INSERT
+WITH CHECK (
+  (user_id IS NULL OR auth.uid() = user_id)
+  AND EXISTS (
+    SELECT 1 FROM public.posts
+    WHERE posts.id = post_id
+      AND posts.status = 'published'
+      AND posts.user_id IS DISTINCT FROM auth.uid()
+  )
+);
+
+-- member_views only counts signed-in readers. Only they can see a whole story,
+-- so completion rate is reads / member_views.
+CREATE TABLE public.post_daily_stats (
+  post_id UUID REFERENCES public.posts(id) ON DELETE CASCADE NOT NULL,
+  day DATE NOT NULL,
+  views INTEGER NOT NULL DEFAULT 0,
+  member_views INTEGER NOT NULL DEFAULT 0,
+  reads INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (post_id, day)
+);
+
+CREATE INDEX post_daily_stats_day_idx ON public.post_daily_stats (day);
+
+ALTER TABLE public.post_daily_stats ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the trigger below
+CREATE POLICY "Authors can view their stories' stats"
+ON public.post_daily_stats FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.posts
+    WHERE posts.id = post_id AND posts.user_id = auth.uid()
+  )
+);
+
+CREATE OR REPLACE FUNCTION public.count_post_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.post_daily_stats (post_id, day, views, member_views, reads)
+  VALUES (
+    NEW.post_id,
+    NEW.event_date,
+    (NEW.event_type = 'view')::int,
+    (NEW.event_type = 'view' AND NEW.user_id IS NOT NULL)::int,
+    (NEW.event_type = 'read')::int
+  )
+  ON CONFLICT (post_id, day) DO UPDATE SET
+    views = post_daily_stats.views + EXCLUDED.views,
+    member_views = post_daily_stats.member_views + EXCLUDED.member_views,
+    reads = post_daily_stats.reads + EXCLUDED.reads;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_post_event_recorded
+  AFTER INSERT ON public.post_events
+  FOR EACH ROW EXECUTE FUNCTION public.count_post_event();
+
+-- Count the events recorded so far
+INSERT INTO public.post_daily_stats (post_id, day, views, member_views, reads)
+SELECT
+  post_id,
+  event_date,
+  count(*) FILTER (WHERE event_type = 'view'),
+  count(*) FILTER (WHERE event_type = 'view' AND user_id IS NOT NULL),
+  count(*) FILTER (WHERE event_type = 'read')
+FROM public.post_events
+GROUP BY post_id, event_date;
+
+-- The signed-in author's totals for each of the last period_days days (at most
+-- a year), oldest first. Unlikes and unfollows delete their rows, so likes and
+-- followers count the ones that still stand on the day they were made.
+CREATE OR REPLACE FUNCTION public.get_author_daily_stats(period_days INTEGER DEFAULT 30)
+RETURNS TABLE (
+  day DATE,
+  views BIGINT,
+  member_views BIGINT,
+  reads BIGINT,
+  likes BIGINT,
+  new_followers BIGINT,
+  followers BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  WITH calendar AS (
+    SELECT generate_series(
+      current_date - (LEAST(GREATEST(period_days, 1), 365) - 1),
+      current_date,
+      interval '1 day'
+    )::date AS day
+  ),
+  event_stats AS (
+    SELECT s.day, sum(s.views) AS views, sum(s.member_views) AS member_views, sum(s.reads) AS reads
+    FROM public.post_daily_stats s
+    JOIN public.posts p ON p.id = s.post_id
+    WHERE p.user_id = auth.uid() AND s.day >= (SELECT min(day) FROM calendar)
+    GROUP BY s.day
+  ),
+  like_stats AS (
+    SELECT l.created_at::date AS day, count(*) AS likes
+    FROM public.post_likes l
+    JOIN public.posts p ON p.id = l.post_id
+    WHERE p.user_id = auth.uid() AND l.created_at >= (SELECT min(day) FROM calendar)
+    GROUP BY 1
+  ),
+  follow_stats AS (
+    SELECT f.created_at::date AS day, count(*) AS new_followers
+    FROM public.follows f
+    WHERE f.following_id = auth.uid()
+    GROUP BY 1
+  )
+  SELECT
+    c.day,
+    COALESCE(e.views, 0)::bigint,
+    COALESCE(e.member_views, 0)::bigint,
+    COALESCE(e.reads, 0)::bigint,
+    COALESCE(l.likes, 0),
+    COALESCE(f.new_followers, 0),
+    (SELECT COALESCE(sum(fs.new_followers), 0) FROM follow_stats fs WHERE fs.day <= c.day)::bigint
+  FROM calendar c
+  LEFT JOIN event_stats e ON e.day = c.day
+  LEFT JOIN like_stats l ON l.day = c.day
+  LEFT JOIN follow_stats f ON f.day = c.day
+  ORDER BY c.day;
+$$;
+
+-- The signed-in author's published stories with their views and reads over
+-- the last period_days days, and their likes and responses to date
+CREATE OR REPLACE FUNCTION public.get_author_post_stats(period_days INTEGER DEFAULT 30)
+RETURNS TABLE (
+  post_id UUID,
+  short_id TEXT,
+  title TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  views BIGINT,
+  member_views BIGINT,
+  reads BIGINT,
+  like_count INTEGER,
+  comment_count INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT
+    p.id,
+    p.short_id,
+    p.title,
+    p.created_at,
+    COALESCE(sum(s.views), 0)::bigint AS views,
+    COALESCE(sum(s.member_views), 0)::bigint,
+    COALESCE(sum(s.reads), 0)::bigint,
+    p.like_count,
+    p.comment_count
+  FROM public.posts p
+  LEFT JOIN public.post_daily_stats s
+    ON s.post_id = p.id AND s.day > current_date - LEAST(GREATEST(period_days, 1), 365)
+  WHERE p.user_id = auth.uid() AND p.status = 'published'
+  GROUP BY p.id
+  ORDER BY views DESC, p.created_at DESC;
+$$;
@@ -0,0 +1,98 @@
+-- Story length, counted from the full text whenever it is saved. Words are
+-- whitespace-separated runs with at least one letter or digit, so Markdown
+-- markers like "#" or "---" aren't counted. Reading time assumes 200 words a
+-- minute and is never less than a minute.
+CREATE OR REPLACE FUNCTION public.count_words(content TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT count(*)::int
+  FROM regexp_split_to_table(COALESCE(content, ''), '\s+') AS word
+  WHERE word ~ '[[:alnum:]]';
+$$;
+
+ALTER TABLE public.posts
+  ADD COLUMN word_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN reading_minutes INTEGER NOT NULL DEFAULT 1;
+
+CREATE OR REPLACE FUNCTION public.refresh_post_length()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  words INTEGER := public.count_words(NEW.content_full);
+BEGIN
+  UPDATE public.posts
+  SET word_count = words, reading_minutes = GREATEST(1, ceil(words / 200.0))::int
+  WHERE id = NEW.post_id;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER on_post_content_measured
+  AFTER INSERT OR UPDATE OF content_full ON public.post_contents
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_post_length();
+
+UPDATE public.posts p
+SET word_count = c.words, reading_minutes = GREATEST(1, ceil(c.words / 200.0))::int
+FROM (
+  SELECT post_id, public.count_words(content_full) AS words FROM public.post_contents
+) c
+WHERE c.post_id = p.id;
+
+-- Like the counters, the length is only ever written by the trigger above
+CREATE OR REPLACE FUNCTION public.protect_post_counters()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.like_count := 0;
+    NEW.comment_count := 0;
+    NEW.word_count := 0;
+    NEW.reading_minutes := 1;
+  ELSIF pg_trigger_depth() <= 1 THEN
+    NEW.like_count := OLD.like_count;
+    NEW.comment_count := OLD.comment_count;
+    NEW.word_count := OLD.word_count;
+    NEW.reading_minutes := OLD.reading_minutes;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Where each signed-in reader stopped in a story, as the share of the story
+-- text scrolled past (0 to 1), so they can pick up from there
+CREATE TABLE public.reading_positions (
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  post_id UUID REFERENCES public.posts(id) ON DELETE CASCADE NOT NULL,
+  progress REAL NOT NULL CHECK (progress >= 0 AND progress <= 1),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, post_id)
+);
+
+ALTER TABLE public.reading_positions ENABLE ROW LEVEL SECURITY;
+
+-- Readers only ever see and write their own positions
+CREATE POLICY "Users can view their own reading positions"
+ON public.reading_positions FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can save their own reading positions"
+ON public.reading_positions FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own reading positions"
+ON public.reading_positions FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own reading positions"
+ON public.reading_positions FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_reading_positions_updated_at
+  BEFORE UPDATE ON public.reading_positions
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
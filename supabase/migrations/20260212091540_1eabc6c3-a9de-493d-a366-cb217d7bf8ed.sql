@@ -0,0 +1,3 @@
+-- publish_scheduled_posts is only meant to run from cron, like
+-- refresh_trending_posts
+REVOKE EXECUTE ON FUNCTION public.publish_scheduled_posts() FROM PUBLIC, anon, authenticated;
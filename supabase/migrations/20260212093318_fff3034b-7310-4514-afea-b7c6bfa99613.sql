@@ -0,0 +1,31 @@
+-- Comment edits may only change the body. The story, thread and author are
+-- checked on insert (published story, parent on the same story) and the
+-- response counts follow them, so they can't be moved afterwards.
+CREATE OR REPLACE FUNCTION public.protect_comment_thread()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.post_id IS DISTINCT FROM OLD.post_id
+    OR NEW.parent_id IS DISTINCT FROM OLD.parent_id
+    OR NEW.root_id IS DISTINCT FROM OLD.root_id
+    OR NEW.user_id IS DISTINCT FROM OLD.user_id
+  THEN
+    RAISE EXCEPTION 'Only the body of a comment can be edited';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_comment_thread
+  BEFORE UPDATE ON public.comments
+  FOR EACH ROW EXECUTE FUNCTION public.protect_comment_thread();
+
+-- Also keep the row with its author after an edit
+DROP POLICY "Users can update their own comments" ON public.comments;
+
+CREATE POLICY "Users can update their own comments"
+ON public.comments FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
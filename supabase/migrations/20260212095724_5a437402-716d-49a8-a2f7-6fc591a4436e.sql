@@ -0,0 +1,194 @@
+-- The search document is built from the full text, so keeping it on posts let
+-- anyone select it (and rebuild locked stories from its words and positions)
+-- and let authors write keywords into it directly. It now lives in its own
+-- table that clients can't read or write; only the triggers and the search
+-- function below touch it.
+CREATE TABLE public.post_search_documents (
+  post_id UUID PRIMARY KEY REFERENCES public.posts(id) ON DELETE CASCADE,
+  document tsvector NOT NULL
+);
+
+CREATE INDEX post_search_documents_document_idx ON public.post_search_documents USING GIN (document);
+
+-- Enable RLS, with no policies
+ALTER TABLE public.post_search_documents ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO public.post_search_documents (post_id, document)
+SELECT p.id, public.post_search_document(p.title, p.content_preview, pc.content_full)
+FROM public.posts p
+LEFT JOIN public.post_contents pc ON pc.post_id = p.id;
+
+DROP TRIGGER set_post_search_vector ON public.posts;
+DROP TRIGGER on_post_content_indexed ON public.post_contents;
+DROP FUNCTION public.set_post_search_vector();
+DROP FUNCTION public.refresh_post_search_vector();
+ALTER TABLE public.posts DROP COLUMN search_vector;
+
+-- Rebuild a story's document from its current title, preview and full text
+CREATE OR REPLACE FUNCTION public.refresh_post_search_document(target_post_id UUID)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER SET search_path = public
+AS $$
+  INSERT INTO public.post_search_documents (post_id, document)
+  SELECT p.id, public.post_search_document(p.title, p.content_preview, pc.content_full)
+  FROM public.posts p
+  LEFT JOIN public.post_contents pc ON pc.post_id = p.id
+  WHERE p.id = target_post_id
+  ON CONFLICT (post_id) DO UPDATE SET document = EXCLUDED.document;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_post_search_document(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Keep the document in sync when the title or preview changes...
+CREATE OR REPLACE FUNCTION public.index_post()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.refresh_post_search_document(NEW.id);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER on_post_indexed
+  AFTER INSERT OR UPDATE OF title, content_preview ON public.posts
+  FOR EACH ROW EXECUTE FUNCTION public.index_post();
+
+-- ...and when the full text is saved
+CREATE OR REPLACE FUNCTION public.index_post_content()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.refresh_post_search_document(NEW.post_id);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER on_post_content_indexed
+  AFTER INSERT OR UPDATE OF content_full ON public.post_contents
+  FOR EACH ROW EXECUTE FUNCTION public.index_post_content();
+
+-- Published stories matching a search, best first, with the total number of
+-- matches. This is the only way clients reach the documents, and it returns
+-- nothing from them but the rank.
+CREATE OR REPLACE FUNCTION public.match_post_documents(
+  search_query TEXT,
+  result_limit INTEGER DEFAULT 20,
+  result_offset INTEGER DEFAULT 0,
+  genre_slug TEXT DEFAULT NULL,
+  tag_slug TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  post_id UUID,
+  rank REAL,
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  WITH parsed AS (
+    SELECT public.build_search_query(search_query) AS q
+  )
+  SELECT
+    p.id,
+    ts_rank_cd(d.document, parsed.q, 32) AS rank,
+    count(*) OVER () AS total_count
+  FROM public.posts p
+  JOIN public.post_search_documents d ON d.post_id = p.id
+  CROSS JOIN parsed
+  WHERE numnode(parsed.q) > 0
+    AND p.status = 'published'
+    AND d.document @@ parsed.q
+    AND (
+      match_post_documents.genre_slug IS NULL
+      OR p.genre_id = (SELECT g.id FROM public.genres g WHERE g.slug = match_post_documents.genre_slug)
+    )
+    AND (
+      match_post_documents.tag_slug IS NULL
+      OR EXISTS (
+        SELECT 1
+        FROM public.post_tags pt
+        JOIN public.tags t ON t.id = pt.tag_id
+        WHERE pt.post_id = p.id AND t.slug = match_post_documents.tag_slug
+      )
+    )
+  ORDER BY rank DESC, p.created_at DESC
+  LIMIT LEAST(result_limit, 50)
+  OFFSET result_offset;
+$$;
+
+-- Same results as before. Matching goes through match_post_documents; the
+-- snippet is still read here, as the caller, so it only comes from the full
+-- text where RLS on post_contents lets them read it.
+CREATE OR REPLACE FUNCTION public.search_posts(
+  search_query TEXT,
+  result_limit INTEGER DEFAULT 20,
+  result_offset INTEGER DEFAULT 0,
+  genre_slug TEXT DEFAULT NULL,
+  tag_slug TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  short_id TEXT,
+  user_id UUID,
+  title TEXT,
+  content_preview TEXT,
+  image_url TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  like_count INTEGER,
+  comment_count INTEGER,
+  rank REAL,
+  title_highlight TEXT,
+  snippet TEXT,
+  total_count BIGINT,
+  username TEXT,
+  handle TEXT,
+  profile_pic_url TEXT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH parsed AS (
+    SELECT public.build_search_query(search_query) AS q
+  )
+  SELECT
+    p.id,
+    p.short_id,
+    p.user_id,
+    p.title,
+    p.content_preview,
+    p.image_url,
+    p.created_at,
+    p.like_count,
+    p.comment_count,
+    m.rank,
+    ts_headline('english', p.title, parsed.q, 'HighlightAll=true, StartSel=<mark>, StopSel=</mark>'),
+    ts_headline(
+      'english',
+      COALESCE(pc.content_full, p.content_preview),
+      parsed.q,
+      'StartSel=<mark>, StopSel=</mark>, MinWords=15, MaxWords=35, MaxFragments=2, FragmentDelimiter=" … "'
+    ),
+    m.total_count,
+    pr.username,
+    pr.handle,
+    pr.profile_pic_url
+  FROM public.match_post_documents(
+    search_posts.search_query,
+    search_posts.result_limit,
+    search_posts.result_offset,
+    search_posts.genre_slug,
+    search_posts.tag_slug
+  ) m
+  JOIN public.posts p ON p.id = m.post_id
+  JOIN public.profiles pr ON pr.user_id = p.user_id
+  LEFT JOIN public.post_contents pc ON pc.post_id = p.id
+  CROSS JOIN parsed
+  ORDER BY m.rank DESC, p.created_at DESC;
+$$;
@@ -0,0 +1,3 @@
+-- Editors unpublishing a story is recorded in the moderation log. Added on its
+-- own because a new enum value can't be used in the transaction that adds it.
+ALTER TYPE public.moderation_action ADD VALUE 'unpublish_post';
@@ -0,0 +1,50 @@
+-- The editors' counterpart of record_moderation: check the caller is an editor
+-- and write the log entry. Reports are left for the admins to resolve.
+CREATE OR REPLACE FUNCTION public.record_editorial_action(
+  _action public.moderation_action,
+  _target_type public.report_target,
+  _target_id UUID,
+  _target_summary TEXT,
+  _note TEXT
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_editor(auth.uid()) THEN
+    RAISE EXCEPTION 'Only editors can do this' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.moderation_log (moderator_id, action, target_type, target_id, target_summary, note)
+  VALUES (auth.uid(), _action, _target_type, _target_id, _target_summary, NULLIF(btrim(_note), ''));
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_editorial_action FROM PUBLIC, anon, authenticated;
+
+-- Same as before, now with an optional reason and an entry in the moderation log
+DROP FUNCTION public.unpublish_post(UUID);
+
+CREATE OR REPLACE FUNCTION public.unpublish_post(target_post_id UUID, note TEXT DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  target public.posts%ROWTYPE;
+BEGIN
+  SELECT * INTO target FROM public.posts WHERE id = target_post_id AND status = 'published';
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Story not found or not published';
+  END IF;
+
+  PERFORM public.record_editorial_action('unpublish_post', 'post', target.id, target.title, note);
+
+  UPDATE public.posts
+  SET status = 'draft', publish_at = NULL
+  WHERE id = target.id;
+
+  DELETE FROM public.featured_posts WHERE post_id = target.id;
+END;
+$$;
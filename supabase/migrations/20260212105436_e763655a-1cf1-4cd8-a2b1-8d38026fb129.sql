@@ -0,0 +1,35 @@
+-- Hiding a story also takes it out of the editor's picks, as unpublishing does.
+-- Otherwise admins and the author, who can still see the hidden story, would
+-- keep getting it in the carousel.
+CREATE OR REPLACE FUNCTION public.moderate_post(target_post_id UUID, action TEXT, note TEXT DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  target public.posts%ROWTYPE;
+BEGIN
+  SELECT * INTO target FROM public.posts WHERE id = target_post_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Story not found';
+  END IF;
+
+  IF action = 'hide' THEN
+    PERFORM public.record_moderation('hide_post', 'post', target.id, target.title, note);
+    UPDATE public.posts SET status = 'hidden' WHERE id = target.id;
+    DELETE FROM public.featured_posts WHERE post_id = target.id;
+  ELSIF action = 'unhide' THEN
+    PERFORM public.record_moderation('unhide_post', 'post', target.id, target.title, note);
+    UPDATE public.posts SET status = 'published' WHERE id = target.id AND status = 'hidden';
+  ELSIF action = 'remove' THEN
+    PERFORM public.record_moderation('remove_post', 'post', target.id, target.title, note);
+    DELETE FROM public.posts WHERE id = target.id;
+  ELSE
+    RAISE EXCEPTION 'Unknown moderation action: %', action;
+  END IF;
+END;
+$$;
+
+-- Drop picks of stories that are already hidden
+DELETE FROM public.featured_posts
+WHERE post_id IN (SELECT id FROM public.posts WHERE status = 'hidden');
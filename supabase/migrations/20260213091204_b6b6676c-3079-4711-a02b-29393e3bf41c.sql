@@ -0,0 +1,15 @@
+-- Comments follow their story's visibility, like tags: everyone sees responses
+-- to published stories, authors also see them on their own drafts, scheduled
+-- and hidden stories, and admins on hidden ones they moderate
+DROP POLICY "Comments are viewable by everyone" ON public.comments;
+
+CREATE POLICY "Comments on visible posts are viewable"
+ON public.comments FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.posts
+    WHERE posts.id = post_id
+      AND (posts.status = 'published' OR posts.user_id = auth.uid())
+  )
+  OR public.has_role(auth.uid(), 'admin')
+);
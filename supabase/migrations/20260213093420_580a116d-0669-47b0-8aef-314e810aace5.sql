@@ -0,0 +1,12 @@
+-- Only published stories can be bookmarked, as with likes
+DROP POLICY "Users can create their own bookmarks" ON public.bookmarks;
+
+CREATE POLICY "Users can bookmark published posts"
+ON public.bookmarks FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.posts
+    WHERE posts.id = post_id AND posts.status = 'published'
+  )
+);
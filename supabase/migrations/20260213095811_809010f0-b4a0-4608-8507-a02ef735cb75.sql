@@ -0,0 +1,56 @@
+-- Views and reads are recorded through record_post_event() instead of direct
+-- inserts. The client used to pick reader_key, so sending a fresh key with each
+-- request got around the once-per-reader-per-day dedupe and inflated trending
+-- and the authors' stats. The key is now decided here: the user id for
+-- signed-in readers, and a hash of the connecting address (changing daily) for
+-- everyone else.
+DROP POLICY "Anyone can record events for published posts" ON public.post_events;
+
+CREATE OR REPLACE FUNCTION public.record_post_event(
+  target_post_id UUID,
+  event_type public.post_event_type
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  headers JSON := NULLIF(current_setting('request.headers', true), '')::json;
+  client_address TEXT;
+  key TEXT;
+BEGIN
+  -- Only published stories count, and authors opening their own aren't readers
+  IF NOT EXISTS (
+    SELECT 1 FROM public.posts
+    WHERE id = target_post_id
+      AND status = 'published'
+      AND user_id IS DISTINCT FROM auth.uid()
+  ) THEN
+    RETURN;
+  END IF;
+
+  IF auth.uid() IS NOT NULL THEN
+    key := auth.uid()::text;
+  ELSE
+    -- Only signed-in readers can see a whole story, so only they can read one
+    IF event_type <> 'view' THEN
+      RETURN;
+    END IF;
+
+    -- Set by the edge proxy; the first forwarded address is the fallback
+    client_address := COALESCE(
+      headers ->> 'cf-connecting-ip',
+      btrim(split_part(headers ->> 'x-forwarded-for', ',', 1))
+    );
+    IF NULLIF(client_address, '') IS NULL THEN
+      RETURN;
+    END IF;
+
+    key := 'anon:' || encode(sha256(convert_to(client_address || ':' || current_date, 'UTF8')), 'hex');
+  END IF;
+
+  INSERT INTO public.post_events (post_id, reader_key, user_id, event_type)
+  VALUES (target_post_id, key, auth.uid(), record_post_event.event_type)
+  ON CONFLICT (post_id, reader_key, event_type, event_date) DO NOTHING;
+END;
+$$;
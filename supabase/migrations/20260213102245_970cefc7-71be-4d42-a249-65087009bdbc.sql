@@ -0,0 +1,18 @@
+-- is_phone_available is only for signed-in users changing their number. Open
+-- to everyone, it let anyone check whether a number has an account here.
+CREATE OR REPLACE FUNCTION public.is_phone_available(candidate TEXT)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT auth.uid() IS NOT NULL
+    AND candidate ~ '^[6-9][0-9]{9}$'
+    AND NOT EXISTS (
+      SELECT 1 FROM public.private_profiles
+      WHERE phone_number = candidate AND user_id IS DISTINCT FROM auth.uid()
+    );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.is_phone_available(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.is_phone_available(TEXT) TO authenticated;
@@ -0,0 +1,4 @@
+-- Letting an author republish a story editors unpublished is recorded in the
+-- moderation log. Added on its own because a new enum value can't be used in
+-- the transaction that adds it.
+ALTER TYPE public.moderation_action ADD VALUE 'allow_republish';
@@ -0,0 +1,89 @@
+-- Stories editors unpublish used to go back to plain drafts, so the author
+-- could publish them again straight away. unpublished_at now marks them until
+-- an editor lets the author republish (allow_republishing).
+ALTER TABLE public.posts ADD COLUMN unpublished_at TIMESTAMP WITH TIME ZONE;
+
+-- Drafts already unpublished by editors, dated by their latest log entry
+UPDATE public.posts p
+SET unpublished_at = log.created_at
+FROM (
+  SELECT target_id, max(created_at) AS created_at
+  FROM public.moderation_log
+  WHERE action = 'unpublish_post'
+  GROUP BY target_id
+) log
+WHERE p.id = log.target_id AND p.status = 'draft';
+
+-- Only editors can set or clear unpublished_at, and while it's set authors
+-- can't publish or schedule the story
+CREATE OR REPLACE FUNCTION public.protect_unpublished_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF public.is_editor(auth.uid()) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.unpublished_at IS DISTINCT FROM OLD.unpublished_at THEN
+    RAISE EXCEPTION 'Only editors can do this' USING ERRCODE = '42501';
+  END IF;
+
+  IF NEW.unpublished_at IS NOT NULL
+    AND NEW.status IN ('published', 'scheduled')
+    AND NEW.status IS DISTINCT FROM OLD.status THEN
+    RAISE EXCEPTION 'This story was unpublished by an editor' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_unpublished_status_before_update
+  BEFORE UPDATE OF status, unpublished_at ON public.posts
+  FOR EACH ROW EXECUTE FUNCTION public.protect_unpublished_status();
+
+-- Same as before, now also marking the story so the author can't republish it
+CREATE OR REPLACE FUNCTION public.unpublish_post(target_post_id UUID, note TEXT DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  target public.posts%ROWTYPE;
+BEGIN
+  SELECT * INTO target FROM public.posts WHERE id = target_post_id AND status = 'published';
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Story not found or not published';
+  END IF;
+
+  PERFORM public.record_editorial_action('unpublish_post', 'post', target.id, target.title, note);
+
+  UPDATE public.posts
+  SET status = 'draft', publish_at = NULL, unpublished_at = now()
+  WHERE id = target.id;
+
+  DELETE FROM public.featured_posts WHERE post_id = target.id;
+END;
+$$;
+
+-- Lifts an unpublish: the story stays in the author's drafts, and they can
+-- publish it again
+CREATE OR REPLACE FUNCTION public.allow_republishing(target_post_id UUID, note TEXT DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  target public.posts%ROWTYPE;
+BEGIN
+  SELECT * INTO target FROM public.posts WHERE id = target_post_id AND unpublished_at IS NOT NULL;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Story not found or not unpublished by editors';
+  END IF;
+
+  PERFORM public.record_editorial_action('allow_republish', 'post', target.id, target.title, note);
+
+  UPDATE public.posts SET unpublished_at = NULL WHERE id = target.id;
+END;
+$$;